@@ -20,6 +20,8 @@ docker run -d \
   --network coolify \
   -e DATA_DIR=/data \
   -e PUBLIC_BASE_URL="http://etsy-listing.46.225.49.219.nip.io" \
+  -e METRICS_TOKEN \
+  -e ADMIN_EMAILS \
   -v "$PERSIST_DIR:/data" \
   "$IMAGE_NAME" >/dev/null
 
@@ -22,6 +22,11 @@ const highlightsEl = document.querySelector("#result-highlights");
 const descriptionEl = document.querySelector("#result-description");
 const photosEl = document.querySelector("#result-photos");
 const exportContent = document.querySelector("#export-content");
+const exportLinks = document.querySelector("#export-links");
+const exportCsvLink = document.querySelector("#export-csv-link");
+const exportMarkdownLink = document.querySelector("#export-markdown-link");
+const exportPdfLink = document.querySelector("#export-pdf-link");
+const exportHtmlLink = document.querySelector("#export-html-link");
 
 const query = new URLSearchParams(window.location.search);
 const source = query.get("source") || "web";
@@ -38,7 +43,8 @@ const AUTO_PREVIEW_SAMPLE = {
   priceBand: "$22-$38",
   processingTimeDays: 4,
   personalization: true,
-  includeUkSpelling: false
+  locale: "en-US",
+  language: "en"
 };
 const QUICK_PRESETS = {
   bridal: {
@@ -51,8 +57,10 @@ const QUICK_PRESETS = {
     tone: "warm",
     priceBand: "$18-$34",
     processingTimeDays: 3,
+    productKind: "made_to_order",
+    category: "",
     personalization: true,
-    includeUkSpelling: false
+    locale: "en-US"
   },
   pet: {
     shopName: "North Pine Prints",
@@ -64,8 +72,10 @@ const QUICK_PRESETS = {
     tone: "minimal",
     priceBand: "$24-$42",
     processingTimeDays: 2,
+    productKind: "made_to_order",
+    category: "prints",
     personalization: true,
-    includeUkSpelling: false
+    locale: "en-US"
   },
   digital: {
     shopName: "Bloom Daily Studio",
@@ -76,9 +86,11 @@ const QUICK_PRESETS = {
     materialsCsv: "",
     tone: "playful",
     priceBand: "$9-$19",
-    processingTimeDays: 1,
+    processingTimeDays: 0,
+    productKind: "digital_download",
+    category: "",
     personalization: false,
-    includeUkSpelling: false
+    locale: "en-US"
   },
   home: {
     shopName: "Oakline Home",
@@ -90,8 +102,10 @@ const QUICK_PRESETS = {
     tone: "luxury",
     priceBand: "$28-$49",
     processingTimeDays: 4,
+    productKind: "ready_to_ship",
+    category: "",
     personalization: false,
-    includeUkSpelling: false
+    locale: "en-US"
   }
 };
 
@@ -144,6 +158,49 @@ function applyQuickPreset(preset) {
   }
 }
 
+function parseVariationsText(text) {
+  const variations = [];
+  for (const line of String(text || "").split("\n")) {
+    const separator = line.indexOf(":");
+    if (separator < 0) {
+      continue;
+    }
+    const property = line.slice(0, separator).trim();
+    const options = line
+      .slice(separator + 1)
+      .split(",")
+      .map((item) => item.trim())
+      .filter(Boolean)
+      .map((item) => {
+        const [name, price] = item.split("=").map((part) => part.trim());
+        return price ? { name, price: Number(price.replace(/[^0-9.]/g, "")) } : { name };
+      });
+    if (property && options.length) {
+      variations.push({ property, options });
+    }
+  }
+  return variations.length ? variations : undefined;
+}
+
+function parseShippingProfile(formData) {
+  const regions = [];
+  for (const line of String(formData.get("shippingRegionsText") || "").split("\n")) {
+    const match = line.match(/^(.+?):\s*(\d+)\s*(?:-\s*(\d+))?/);
+    if (match) {
+      regions.push({ region: match[1].trim(), minDays: Number(match[2]), maxDays: Number(match[3] || match[2]) });
+    }
+  }
+  if (!regions.length) {
+    return undefined;
+  }
+  const threshold = String(formData.get("freeShippingThreshold") || "");
+  return {
+    originCountry: String(formData.get("originCountry") || "").trim() || regions[0].region,
+    regions,
+    freeShippingThreshold: threshold ? Number(threshold) : undefined
+  };
+}
+
 function collectGeneratePayload() {
   const formData = new FormData(listingForm);
   return {
@@ -152,12 +209,23 @@ function collectGeneratePayload() {
     targetAudience: String(formData.get("targetAudience") || "").trim(),
     primaryKeyword: String(formData.get("primaryKeyword") || "").trim(),
     supportingKeywordsCsv: String(formData.get("supportingKeywordsCsv") || "").trim(),
+    keywordResearchCsv: String(formData.get("keywordResearchCsv") || "").trim() || undefined,
     materialsCsv: String(formData.get("materialsCsv") || "").trim(),
     tone: String(formData.get("tone") || "warm"),
     priceBand: String(formData.get("priceBand") || "$20-$45").trim(),
     processingTimeDays: Number(formData.get("processingTimeDays") || 3),
+    productKind: String(formData.get("productKind") || "") || undefined,
+    category: String(formData.get("category") || "") || undefined,
     personalization: formData.get("personalization") === "on",
-    includeUkSpelling: formData.get("includeUkSpelling") === "on",
+    locale: String(formData.get("locale") || "en-US"),
+    language: String(formData.get("language") || "en"),
+    variations: parseVariationsText(formData.get("variationsText")),
+    materialCost: String(formData.get("materialCost") || "") || undefined,
+    laborCost: String(formData.get("laborCost") || "") || undefined,
+    packagingCost: String(formData.get("packagingCost") || "") || undefined,
+    shippingCost: String(formData.get("shippingCost") || "") || undefined,
+    offsiteAds: formData.get("offsiteAds") === "on",
+    shipping: parseShippingProfile(formData),
     source,
     selfTest
   };
@@ -271,6 +339,7 @@ function lockExport() {
   exportBtn.disabled = true;
   exportSection.classList.add("hidden");
   exportContent.textContent = "";
+  exportLinks.classList.add("hidden");
 }
 
 async function jsonRequest(url, payload) {
@@ -317,7 +386,12 @@ async function generatePack(payload, { autoPreview = false, scrollToResult = fal
   }
 
   paymentSection.classList.remove("hidden");
-  setStatus(listingStatus, "Preview ready. Complete checkout to unlock full pack + export.", "ok");
+  const warnings = Array.isArray(data.warnings) ? data.warnings : [];
+  if (warnings.length) {
+    setStatus(listingStatus, `Preview ready, but fix these compliance issues first: ${warnings.join(" ")}`, "error");
+  } else {
+    setStatus(listingStatus, "Preview ready. Complete checkout to unlock full pack + export.", "ok");
+  }
   setStatus(paymentStatus, "Checkout is ready to unlock the full listing pack.", "neutral");
 }
 
@@ -497,6 +571,11 @@ exportBtn.addEventListener("click", async () => {
     });
 
     exportContent.textContent = data.content || "";
+    exportCsvLink.href = `/quick-start/${currentSessionId}/export.csv`;
+    exportMarkdownLink.href = `/quick-start/${currentSessionId}/export.md`;
+    exportPdfLink.href = `/quick-start/${currentSessionId}/export.pdf`;
+    exportHtmlLink.href = `/quick-start/${currentSessionId}/export.html`;
+    exportLinks.classList.remove("hidden");
     exportSection.classList.remove("hidden");
     setStatus(paymentStatus, "Export generated.", "ok");
   } catch (error) {
@@ -0,0 +1,69 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { auditListing, sanitizeExistingListing } from "./audit.js";
+import { sanitizeListingInput } from "./listing.js";
+
+const input = sanitizeListingInput({
+  shopName: "Copper Pine Studio",
+  productType: "ring dish",
+  targetAudience: "bridal party",
+  primaryKeyword: "personalized ring dish",
+  supportingKeywords: ["engagement gift", "bridal shower gift"],
+  materials: ["ceramic"],
+  tone: "warm",
+  priceBand: "$20-$35",
+  processingTimeDays: 3,
+  personalization: true,
+  locale: "en-US"
+});
+
+test("auditListing flags Etsy rule violations by severity", () => {
+  const listing = sanitizeExistingListing({
+    title: `Ceramic Tray | ${"Handmade Wedding Keepsake ".repeat(6)}`,
+    tags: ["ring dish", "Ring Dish", "personalized engagement ring dish"],
+    description: "A lovely dish for your bridal party.\n\nShips in 3 days.",
+    materials: []
+  });
+
+  const audit = auditListing(listing, input);
+  const rules = audit.findings.map((finding) => finding.rule);
+
+  assert.equal(audit.passed, false);
+  assert.ok(rules.includes("title_length"));
+  assert.ok(rules.includes("title_keyword"));
+  assert.ok(rules.includes("tag_duplicate"));
+  assert.ok(rules.includes("tag_length"));
+  assert.ok(rules.includes("description_processing_time"));
+  assert.equal(audit.findings[0].severity, "error");
+  assert.equal(audit.findings.at(-1)?.severity, "info");
+  assert.ok(audit.suggestedPack.title.length <= 140);
+});
+
+test("auditListing passes a listing that follows the generator rules", () => {
+  const listing = sanitizeExistingListing({
+    title: "Personalized Ring Dish | Bridal Party Gift",
+    tags: Array.from({ length: 13 }, (_, index) => `ring dish ${index + 1}`),
+    description: "Made to order in 3 business days.",
+    materials: ["ceramic"]
+  });
+
+  const audit = auditListing(listing, input);
+  assert.equal(audit.passed, true);
+  assert.deepEqual(audit.findings, []);
+});
+
+test("auditListing folds near-duplicate tags and uses the earliest keyword match", () => {
+  const listing = sanitizeExistingListing({
+    title: "Personalised Ring Dish, Bridal Party Gift, Ceramic Tray, Also Sold As Personalized Ring Dish",
+    tags: ["ring dish", "Ring Dishes", "dish ring", "engagement gift"],
+    description: "Made to order in 3 business days.",
+    materials: ["ceramic"]
+  });
+
+  const audit = auditListing(listing, sanitizeListingInput({ ...input, locale: "en-GB" }));
+  const rules = audit.findings.map((finding) => finding.rule);
+
+  assert.equal(rules.filter((rule) => rule === "tag_duplicate").length, 2);
+  assert.ok(!rules.includes("title_keyword"));
+  assert.ok(!rules.includes("title_keyword_position"));
+});
@@ -0,0 +1,226 @@
+import {
+  buildListingPack,
+  findTitleKeyword,
+  MAX_TAG_LENGTH,
+  MAX_TAGS,
+  MAX_TITLE_LENGTH,
+  normalizeKeyword,
+  scoreListing,
+  tagFoldKey,
+  TITLE_LEAD_LENGTH,
+  type ListingInput,
+  type ListingPack
+} from "./listing.js";
+import type { ListingLanguage } from "./catalog.js";
+import { localizeText } from "./locale.js";
+
+export type AuditSeverity = "error" | "warning" | "info";
+
+export type AuditFinding = {
+  rule: string;
+  severity: AuditSeverity;
+  field: "title" | "tags" | "description" | "materials";
+  message: string;
+};
+
+export type ExistingListing = {
+  title: string;
+  tags: string[];
+  description: string;
+  materials: string[];
+};
+
+export type AuditReport = {
+  auditedAt: string;
+  listing: ExistingListing;
+  listingScore: number;
+  passed: boolean;
+  findings: AuditFinding[];
+};
+
+export type ListingAudit = AuditReport & {
+  suggestedPack: ListingPack;
+};
+
+const MAX_AUDIT_TITLE_LENGTH = 400;
+const MAX_AUDIT_TAGS = 40;
+const MAX_AUDIT_DESCRIPTION_LENGTH = 20000;
+const SEVERITY_ORDER: AuditSeverity[] = ["error", "warning", "info"];
+const PROCESSING_TIME_PATTERN =
+  /\b(\d+\s*(-|to)\s*)?\d+\s*(business\s+|working\s+)?(day|week)s?\b|\bready to ship\b|\bships? (same|next) day\b|\binstant(ly)? download/i;
+const LOCALIZED_PROCESSING_TIME_PATTERN =
+  /\d+\s*((werk)?tagen?|wochen?|jours?|semaines?|d[ií]as?|semanas?)\b|sofort-download|versandbereit|téléchargement immédiat|prêt à expédier|descarga inmediata|listo para enviar/iu;
+
+function normalizeText(value: string, key: string, maxLength: number): string {
+  if (typeof value !== "string") {
+    throw new Error(`invalid_${key}`);
+  }
+  const trimmed = value.trim();
+  if (trimmed.length > maxLength) {
+    throw new Error(`invalid_${key}`);
+  }
+  return trimmed;
+}
+
+function normalizeList(values: string[], key: string, maxCount: number): string[] {
+  if (!Array.isArray(values) || values.length > maxCount) {
+    throw new Error(`invalid_${key}`);
+  }
+  return values.map((value) => normalizeText(value, key, 80).replace(/\s+/g, " ")).filter(Boolean);
+}
+
+function firstParagraph(description: string): string {
+  return description.split(/\r?\n\s*\r?\n/)[0]?.trim() ?? "";
+}
+
+function auditTitle(listing: ExistingListing, input: ListingInput): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  if (listing.title.length > MAX_TITLE_LENGTH) {
+    findings.push({
+      rule: "title_length",
+      severity: "error",
+      field: "title",
+      message: `Title is ${listing.title.length} characters; Etsy allows ${MAX_TITLE_LENGTH}.`
+    });
+  }
+
+  const language = input.language ?? "en";
+  const title = normalizeKeyword(listing.title, language);
+  const keywordMatch = findTitleKeyword(title, [
+    input.primaryKeyword,
+    normalizeKeyword(localizeText(input.primaryKeyword, input.locale), language)
+  ]);
+  if (!keywordMatch) {
+    findings.push({
+      rule: "title_keyword",
+      severity: "error",
+      field: "title",
+      message: `Primary keyword "${input.primaryKeyword}" does not appear in the title.`
+    });
+  } else if (keywordMatch.index + keywordMatch.length > TITLE_LEAD_LENGTH) {
+    findings.push({
+      rule: "title_keyword_position",
+      severity: "warning",
+      field: "title",
+      message: `Primary keyword appears after the first ${TITLE_LEAD_LENGTH} title characters.`
+    });
+  }
+
+  return findings;
+}
+
+function auditTags(listing: ExistingListing, language: ListingLanguage): AuditFinding[] {
+  const findings: AuditFinding[] = [];
+  if (listing.tags.length > MAX_TAGS) {
+    findings.push({
+      rule: "tag_count",
+      severity: "error",
+      field: "tags",
+      message: `${listing.tags.length} tags supplied; Etsy allows ${MAX_TAGS}.`
+    });
+  } else if (listing.tags.length < MAX_TAGS) {
+    findings.push({
+      rule: "tag_count",
+      severity: "warning",
+      field: "tags",
+      message: `${MAX_TAGS - listing.tags.length} of ${MAX_TAGS} tag slots are unused.`
+    });
+  }
+
+  const seen = new Set<string>();
+  for (const tag of listing.tags) {
+    if (tag.length > MAX_TAG_LENGTH) {
+      findings.push({
+        rule: "tag_length",
+        severity: "error",
+        field: "tags",
+        message: `Tag "${tag}" is ${tag.length} characters; Etsy allows ${MAX_TAG_LENGTH}.`
+      });
+    }
+    const normalized = tagFoldKey(normalizeKeyword(tag, language), language);
+    if (seen.has(normalized)) {
+      findings.push({
+        rule: "tag_duplicate",
+        severity: "error",
+        field: "tags",
+        message: `Tag "${tag}" duplicates another tag and wastes a slot.`
+      });
+    }
+    seen.add(normalized);
+  }
+
+  return findings;
+}
+
+function auditDescription(listing: ExistingListing): AuditFinding[] {
+  if (!listing.description) {
+    return [
+      {
+        rule: "description_missing",
+        severity: "error",
+        field: "description",
+        message: "Description is empty."
+      }
+    ];
+  }
+
+  const lead = firstParagraph(listing.description);
+  if (!PROCESSING_TIME_PATTERN.test(lead) && !LOCALIZED_PROCESSING_TIME_PATTERN.test(lead)) {
+    return [
+      {
+        rule: "description_processing_time",
+        severity: "warning",
+        field: "description",
+        message: "Processing time is not mentioned in the first description paragraph."
+      }
+    ];
+  }
+
+  return [];
+}
+
+function auditMaterials(listing: ExistingListing): AuditFinding[] {
+  if (listing.materials.length) {
+    return [];
+  }
+  return [
+    {
+      rule: "materials_missing",
+      severity: "info",
+      field: "materials",
+      message: "No materials listed; Etsy search uses materials as an extra ranking signal."
+    }
+  ];
+}
+
+export function sanitizeExistingListing(listing: ExistingListing): ExistingListing {
+  const title = normalizeText(listing.title, "title", MAX_AUDIT_TITLE_LENGTH).replace(/\s+/g, " ");
+  if (!title) {
+    throw new Error("invalid_title");
+  }
+
+  return {
+    title,
+    tags: normalizeList(listing.tags, "tags", MAX_AUDIT_TAGS),
+    description: normalizeText(listing.description, "description", MAX_AUDIT_DESCRIPTION_LENGTH),
+    materials: normalizeList(listing.materials, "materials", MAX_AUDIT_TAGS)
+  };
+}
+
+export function auditListing(listing: ExistingListing, input: ListingInput, now = new Date()): ListingAudit {
+  const findings = [
+    ...auditTitle(listing, input),
+    ...auditTags(listing, input.language ?? "en"),
+    ...auditDescription(listing),
+    ...auditMaterials(listing)
+  ].sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+  return {
+    auditedAt: now.toISOString(),
+    listing,
+    listingScore: scoreListing(input, { title: listing.title, tags: listing.tags }).score,
+    passed: !findings.some((finding) => finding.severity === "error"),
+    findings,
+    suggestedPack: buildListingPack(input, now)
+  };
+}
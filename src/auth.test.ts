@@ -0,0 +1,55 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import {
+  API_KEY_PREFIX,
+  GUEST_KEY_PREFIX,
+  hashPassword,
+  hashSecret,
+  isIssuedSecret,
+  issueSecret,
+  normalizeEmail,
+  parseCookies,
+  secretsMatch,
+  validatePassword,
+  verifyPassword
+} from "./auth.js";
+
+test("hashPassword salts each hash and verifyPassword checks it", async () => {
+  const first = await hashPassword("correct horse battery");
+  const second = await hashPassword("correct horse battery");
+
+  assert.match(first, /^scrypt\$[\w-]+\$[\w-]+$/);
+  assert.notEqual(first, second);
+  assert.equal(await verifyPassword("correct horse battery", first), true);
+  assert.equal(await verifyPassword("wrong horse battery", first), false);
+  assert.equal(await verifyPassword("correct horse battery", "plain$text"), false);
+});
+
+test("issued secrets are prefixed, hashed and compared without the raw value", () => {
+  const key = issueSecret(API_KEY_PREFIX);
+
+  assert.ok(key.startsWith("els_key_"));
+  assert.equal(isIssuedSecret(key, API_KEY_PREFIX), true);
+  assert.equal(isIssuedSecret(key, GUEST_KEY_PREFIX), false);
+  assert.equal(isIssuedSecret(`${GUEST_KEY_PREFIX}short`, GUEST_KEY_PREFIX), false);
+  assert.notEqual(issueSecret(API_KEY_PREFIX), key);
+  assert.equal(hashSecret(key), hashSecret(key));
+  assert.equal(hashSecret(key).length, 64);
+  assert.equal(secretsMatch(key, key), true);
+  assert.equal(secretsMatch(key, `${key}x`), false);
+});
+
+test("normalizeEmail, validatePassword and parseCookies reject malformed input", () => {
+  assert.equal(normalizeEmail("  Maker@Example.COM "), "maker@example.com");
+  assert.throws(() => normalizeEmail("maker@example"), /invalid_email/);
+  assert.throws(() => normalizeEmail(42), /invalid_email/);
+  assert.equal(validatePassword("long enough pw"), "long enough pw");
+  assert.throws(() => validatePassword("short"), /invalid_password/);
+
+  assert.deepEqual(parseCookies("els_guest=abc%3D; theme=dark; broken; bad=%E0%A4%A"), {
+    els_guest: "abc=",
+    theme: "dark",
+    bad: "%E0%A4%A"
+  });
+  assert.deepEqual(parseCookies(undefined), {});
+});
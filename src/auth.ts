@@ -0,0 +1,78 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from "node:crypto";
+import { promisify } from "node:util";
+
+export const API_KEY_PREFIX = "els_key_";
+export const LOGIN_TOKEN_PREFIX = "els_tok_";
+export const GUEST_KEY_PREFIX = "els_guest_";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const SCRYPT_KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+const SECRET_BYTES = 24;
+const MIN_PASSWORD_LENGTH = 10;
+const MAX_PASSWORD_LENGTH = 200;
+const MAX_EMAIL_LENGTH = 160;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const derived = await scryptAsync(password, salt, SCRYPT_KEY_LENGTH);
+  return `scrypt$${salt.toString("base64url")}$${derived.toString("base64url")}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, "base64url");
+  const derived = await scryptAsync(password, Buffer.from(salt, "base64url"), expected.length);
+  return timingSafeEqual(derived, expected);
+}
+
+export function issueSecret(prefix: string): string {
+  return `${prefix}${randomBytes(SECRET_BYTES).toString("base64url")}`;
+}
+
+export function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+export function secretsMatch(provided: string, expected: string): boolean {
+  return timingSafeEqual(Buffer.from(hashSecret(provided), "hex"), Buffer.from(hashSecret(expected), "hex"));
+}
+
+export function isIssuedSecret(value: string, prefix: string): boolean {
+  return value.startsWith(prefix) && /^[A-Za-z0-9_-]{32,}$/.test(value.slice(prefix.length));
+}
+
+export function normalizeEmail(value: unknown): string {
+  const email = typeof value === "string" ? value.trim().toLowerCase() : "";
+  if (!email || email.length > MAX_EMAIL_LENGTH || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+    throw new Error("invalid_email");
+  }
+  return email;
+}
+
+export function validatePassword(value: unknown): string {
+  if (typeof value !== "string" || value.length < MIN_PASSWORD_LENGTH || value.length > MAX_PASSWORD_LENGTH) {
+    throw new Error("invalid_password");
+  }
+  return value;
+}
+
+export function parseCookies(header: string | undefined): Record<string, string> {
+  return Object.fromEntries(
+    (header ?? "")
+      .split(";")
+      .map((part) => part.trim())
+      .filter((part) => part.includes("="))
+      .map((part) => {
+        const index = part.indexOf("=");
+        try {
+          return [part.slice(0, index), decodeURIComponent(part.slice(index + 1))];
+        } catch {
+          return [part.slice(0, index), part.slice(index + 1)];
+        }
+      })
+  );
+}
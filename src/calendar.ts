@@ -0,0 +1,71 @@
+export type CalendarEvent = {
+  id: string;
+  name: string;
+  dateInYear: (year: number) => Date;
+};
+
+export type DatedEvent = {
+  event: CalendarEvent;
+  date: Date;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function utcDate(year: number, month: number, day: number): Date {
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+export function nthWeekday(year: number, month: number, weekday: number, nth: number): Date {
+  const first = utcDate(year, month, 1);
+  const offset = (weekday - first.getUTCDay() + 7) % 7;
+  return utcDate(year, month, 1 + offset + (nth - 1) * 7);
+}
+
+export function startOfDay(date: Date): Date {
+  return utcDate(date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate());
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function isWeekend(date: Date): boolean {
+  const day = date.getUTCDay();
+  return day === 0 || day === 6;
+}
+
+export function addBusinessDays(date: Date, days: number): Date {
+  const step = days < 0 ? -1 : 1;
+  let remaining = Math.abs(days);
+  let current = startOfDay(date);
+  while (remaining > 0) {
+    current = addDays(current, step);
+    if (!isWeekend(current)) {
+      remaining -= 1;
+    }
+  }
+  return current;
+}
+
+export function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export const HOLIDAYS: CalendarEvent[] = [
+  { id: "valentines_day", name: "Valentine's Day", dateInYear: (year) => utcDate(year, 2, 14) },
+  { id: "mothers_day", name: "Mother's Day (US)", dateInYear: (year) => nthWeekday(year, 5, 0, 2) },
+  { id: "fathers_day", name: "Father's Day (US)", dateInYear: (year) => nthWeekday(year, 6, 0, 3) },
+  { id: "halloween", name: "Halloween", dateInYear: (year) => utcDate(year, 10, 31) },
+  { id: "christmas", name: "Christmas", dateInYear: (year) => utcDate(year, 12, 25) }
+];
+
+export function upcomingEvents(from: Date, events: CalendarEvent[] = HOLIDAYS, withinDays = 365): DatedEvent[] {
+  const today = startOfDay(from);
+  const horizon = addDays(today, withinDays);
+  const year = today.getUTCFullYear();
+
+  return events
+    .flatMap((event) => [year, year + 1].map((candidate) => ({ event, date: event.dateInYear(candidate) })))
+    .filter((item) => item.date >= today && item.date <= horizon)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
@@ -0,0 +1,82 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { planCampaign, upcomingCampaigns } from "./campaign.js";
+import { sanitizeListingInput } from "./listing.js";
+
+const input = sanitizeListingInput({
+  shopName: "Copper Pine Studio",
+  productType: "ring dish",
+  targetAudience: "bridal party",
+  primaryKeyword: "personalized ring dish",
+  supportingKeywords: ["engagement gift"],
+  materials: ["ceramic"],
+  tone: "warm",
+  priceBand: "$20-$35",
+  processingTimeDays: 3,
+  personalization: true,
+  locale: "en-US",
+  shipping: {
+    originCountry: "United States",
+    regions: [
+      { region: "United States", minDays: 2, maxDays: 5 },
+      { region: "Canada", minDays: 6, maxDays: 10 }
+    ],
+    upgrades: [{ name: "Priority", minDays: 1, maxDays: 3, price: 9.5 }]
+  }
+});
+
+const today = new Date("2026-10-19T09:00:00Z");
+
+test("planCampaign works event keywords, order-by dates and a launch timeline into the pack", () => {
+  const plan = planCampaign(input, "valentines_day", today);
+
+  assert.deepEqual(plan.event, { id: "valentines_day", name: "Valentine's Day", date: "2027-02-14" });
+  assert.match(plan.pack.title.toLowerCase(), /valentines day gift/);
+  assert.ok(plan.pack.tags.includes("valentines day gift"));
+  assert.deepEqual(
+    plan.orderBy.map((row) => [row.region, row.service, row.orderBy]),
+    [
+      ["United States", "Standard", "2027-02-03"],
+      ["Canada", "Standard", "2027-01-27"],
+      ["United States", "Priority", "2027-02-05"]
+    ]
+  );
+  assert.equal(plan.pack.faq[0].question, "Will my order arrive before Valentine's Day?");
+  assert.match(plan.pack.faq[0].answer, /Canada \(standard\): order by 2027-01-27\./);
+
+  const publish = plan.timeline.find((milestone) => milestone.action.startsWith("Publish"));
+  assert.equal(publish?.date, "2026-12-31");
+  assert.ok(plan.timeline.some((milestone) => milestone.date === "2027-01-27" && /order-by/.test(milestone.action)));
+  assert.deepEqual(plan.warnings, []);
+  assert.deepEqual(
+    plan.timeline.map((milestone) => milestone.date),
+    [...plan.timeline.map((milestone) => milestone.date)].sort()
+  );
+});
+
+test("planCampaign warns when the publish window has passed and localizes the event FAQ", () => {
+  const german = sanitizeListingInput({ ...input, language: "de", shipping: undefined });
+  const plan = planCampaign(german, "christmas", today);
+
+  assert.equal(plan.event.date, "2026-12-25");
+  assert.equal(plan.orderBy[0].orderBy, "2026-12-15");
+  assert.equal(plan.pack.faq[0].question, "Kommt meine Bestellung rechtzeitig für Weihnachten an?");
+  assert.ok(plan.pack.tags.includes("weihnachtsgeschenk"));
+  assert.match(plan.warnings[0], /publish date has passed/);
+});
+
+test("planCampaign skips order-by dates for digital downloads and rejects unknown events", () => {
+  const digital = sanitizeListingInput({ ...input, productKind: "digital_download", shipping: undefined });
+  const plan = planCampaign(digital, "Black Friday", today);
+
+  assert.equal(plan.event.date, "2026-11-27");
+  assert.deepEqual(plan.orderBy, []);
+  assert.match(plan.pack.faq[0].answer, /instant download/);
+  assert.throws(() => planCampaign(input, "arbor_day", today), /invalid_eventId/);
+  assert.deepEqual(
+    upcomingCampaigns(today)
+      .slice(0, 4)
+      .map((event) => event.id),
+    ["halloween", "black_friday", "cyber_monday", "christmas"]
+  );
+});
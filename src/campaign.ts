@@ -0,0 +1,323 @@
+import { addBusinessDays, addDays, HOLIDAYS, isoDate, nthWeekday, startOfDay, upcomingEvents } from "./calendar.js";
+import type { CalendarEvent } from "./calendar.js";
+import type { FaqEntry, ListingLanguage } from "./catalog.js";
+import {
+  buildListingPack,
+  isDigitalKind,
+  sanitizeListingInput,
+  type ListingInput,
+  type ListingPack
+} from "./listing.js";
+import type { DeliveryEstimate } from "./shipping.js";
+
+export type CampaignEvent = CalendarEvent & {
+  leadDays: number;
+  names: Record<ListingLanguage, string>;
+  keywords: Record<ListingLanguage, string[]>;
+};
+
+export type CampaignOrderBy = {
+  region: string;
+  service: string;
+  orderBy: string;
+  passed: boolean;
+};
+
+export type CampaignMilestone = {
+  date: string;
+  action: string;
+  passed: boolean;
+};
+
+export type CampaignSchedule = {
+  event: { id: string; name: string; date: string };
+  orderBy: CampaignOrderBy[];
+  timeline: CampaignMilestone[];
+  warnings: string[];
+};
+
+export type CampaignPlan = CampaignSchedule & {
+  input: ListingInput;
+  pack: ListingPack;
+};
+
+const ASSUMED_TRANSIT: DeliveryEstimate = {
+  region: "Domestic (estimated)",
+  service: "Standard",
+  processingDays: 0,
+  transitDays: [3, 5],
+  deliveryDays: [3, 5]
+};
+
+function holiday(id: string): CalendarEvent {
+  const event = HOLIDAYS.find((item) => item.id === id);
+  if (!event) {
+    throw new Error(`unknown_holiday_${id}`);
+  }
+  return event;
+}
+
+function thanksgiving(year: number): Date {
+  return nthWeekday(year, 11, 4, 4);
+}
+
+export const CAMPAIGN_EVENTS: CampaignEvent[] = [
+  {
+    ...holiday("valentines_day"),
+    leadDays: 45,
+    names: { en: "Valentine's Day", de: "Valentinstag", fr: "la Saint-Valentin", es: "San Valentín" },
+    keywords: {
+      en: ["valentines day gift", "valentine gift for her", "galentines gift"],
+      de: ["valentinstag geschenk", "geschenk valentinstag"],
+      fr: ["cadeau saint valentin", "saint valentin"],
+      es: ["regalo san valentín", "san valentín"]
+    }
+  },
+  {
+    ...holiday("mothers_day"),
+    leadDays: 45,
+    names: { en: "Mother's Day", de: "Muttertag", fr: "la fête des mères", es: "Día de la Madre" },
+    keywords: {
+      en: ["mothers day gift", "gift for mom"],
+      de: ["muttertag geschenk", "geschenk für mama"],
+      fr: ["fête des mères", "cadeau maman"],
+      es: ["día de la madre", "regalo para mamá"]
+    }
+  },
+  {
+    ...holiday("fathers_day"),
+    leadDays: 40,
+    names: { en: "Father's Day", de: "Vatertag", fr: "la fête des pères", es: "Día del Padre" },
+    keywords: {
+      en: ["fathers day gift", "gift for dad"],
+      de: ["vatertag geschenk", "geschenk für papa"],
+      fr: ["fête des pères", "cadeau papa"],
+      es: ["día del padre", "regalo para papá"]
+    }
+  },
+  {
+    ...holiday("halloween"),
+    leadDays: 60,
+    names: { en: "Halloween", de: "Halloween", fr: "Halloween", es: "Halloween" },
+    keywords: {
+      en: ["halloween gift", "spooky season", "halloween decor"],
+      de: ["halloween geschenk", "halloween deko"],
+      fr: ["cadeau halloween", "déco halloween"],
+      es: ["regalo halloween", "decoración halloween"]
+    }
+  },
+  {
+    id: "black_friday",
+    name: "Black Friday",
+    dateInYear: (year) => addDays(thanksgiving(year), 1),
+    leadDays: 30,
+    names: { en: "Black Friday", de: "Black Friday", fr: "le Black Friday", es: "Black Friday" },
+    keywords: {
+      en: ["black friday deal", "holiday gift"],
+      de: ["black friday angebot", "weihnachtsgeschenk"],
+      fr: ["black friday", "cadeau de noël"],
+      es: ["black friday", "regalo de navidad"]
+    }
+  },
+  {
+    id: "cyber_monday",
+    name: "Cyber Monday",
+    dateInYear: (year) => addDays(thanksgiving(year), 4),
+    leadDays: 30,
+    names: { en: "Cyber Monday", de: "Cyber Monday", fr: "le Cyber Monday", es: "Cyber Monday" },
+    keywords: {
+      en: ["cyber monday deal", "holiday gift"],
+      de: ["cyber monday angebot", "weihnachtsgeschenk"],
+      fr: ["cyber monday", "cadeau de noël"],
+      es: ["cyber monday", "regalo de navidad"]
+    }
+  },
+  {
+    ...holiday("christmas"),
+    leadDays: 75,
+    names: { en: "Christmas", de: "Weihnachten", fr: "Noël", es: "Navidad" },
+    keywords: {
+      en: ["christmas gift", "stocking stuffer", "holiday gift"],
+      de: ["weihnachtsgeschenk", "wichtelgeschenk"],
+      fr: ["cadeau de noël", "idée cadeau noël"],
+      es: ["regalo de navidad", "amigo invisible"]
+    }
+  }
+];
+
+const CAMPAIGN_FAQ: Record<
+  ListingLanguage,
+  {
+    question: (name: string) => string;
+    instant: (name: string, date: string) => string;
+    row: (row: CampaignOrderBy) => string;
+    closing: (name: string, date: string) => string;
+  }
+> = {
+  en: {
+    question: (name) => `Will my order arrive before ${name}?`,
+    instant: (name, date) => `Yes. This is an instant download, so you can order right up to ${name} on ${date}.`,
+    row: (row) => `${row.region} (${row.service.toLowerCase()}): order by ${row.orderBy}.`,
+    closing: (name, date) => `Orders placed after these dates may arrive after ${name} (${date}).`
+  },
+  de: {
+    question: (name) => `Kommt meine Bestellung rechtzeitig für ${name} an?`,
+    instant: (name, date) => `Ja. Dies ist ein Sofort-Download, du kannst also bis ${date} (${name}) bestellen.`,
+    row: (row) => `${row.region} (${row.service}): bestellen bis ${row.orderBy}.`,
+    closing: (name, date) => `Spätere Bestellungen kommen eventuell erst nach ${name} (${date}) an.`
+  },
+  fr: {
+    question: (name) => `Ma commande arrivera-t-elle avant ${name} ?`,
+    instant: (name, date) =>
+      `Oui. Il s'agit d'un téléchargement immédiat : vous pouvez commander jusqu'au ${date} (${name}).`,
+    row: (row) => `${row.region} (${row.service}) : commander avant le ${row.orderBy}.`,
+    closing: (name, date) => `Les commandes passées après ces dates risquent d'arriver après ${name} (${date}).`
+  },
+  es: {
+    question: (name) => `¿Llegará mi pedido antes de ${name}?`,
+    instant: (name, date) => `Sí. Es una descarga inmediata, así que puedes pedir hasta ${name}, el ${date}.`,
+    row: (row) => `${row.region} (${row.service}): pide antes del ${row.orderBy}.`,
+    closing: (name, date) => `Los pedidos posteriores a estas fechas podrían llegar después de ${name} (${date}).`
+  }
+};
+
+export function findCampaignEvent(eventId: string): CampaignEvent {
+  const normalized = eventId.trim().toLowerCase().replace(/[\s'-]+/g, "_");
+  const event = CAMPAIGN_EVENTS.find((item) => item.id === normalized);
+  if (!event) {
+    throw new Error("invalid_eventId");
+  }
+  return event;
+}
+
+export function upcomingCampaigns(now = new Date()): Array<{ id: string; name: string; date: string; publishBy: string }> {
+  return upcomingEvents(startOfDay(now), CAMPAIGN_EVENTS).map(({ event, date }) => ({
+    id: event.id,
+    name: event.name,
+    date: isoDate(date),
+    publishBy: isoDate(addDays(date, -findCampaignEvent(event.id).leadDays))
+  }));
+}
+
+function campaignFaq(
+  language: ListingLanguage,
+  name: string,
+  date: string,
+  digital: boolean,
+  orderBy: CampaignOrderBy[]
+): FaqEntry {
+  const templates = CAMPAIGN_FAQ[language];
+  return {
+    question: templates.question(name),
+    answer: digital
+      ? templates.instant(name, date)
+      : [...orderBy.map(templates.row), templates.closing(name, date)].join(" ")
+  };
+}
+
+function buildTimeline(
+  event: CampaignEvent,
+  eventDate: Date,
+  today: Date,
+  orderBy: CampaignOrderBy[]
+): CampaignMilestone[] {
+  const publishBy = addDays(eventDate, -event.leadDays);
+  const standardOrderBy = orderBy
+    .filter((row) => row.service === ASSUMED_TRANSIT.service)
+    .map((row) => row.orderBy)
+    .sort()[0];
+
+  const milestones = [
+    { date: addDays(publishBy, -7), action: "Shoot seasonal photos and restyle the hero image" },
+    { date: publishBy, action: `Publish the ${event.name} listing so it gathers views before searches peak` },
+    {
+      date: addDays(publishBy, 14),
+      action: "Review views and favorites; switch to the next title variant if traffic is flat"
+    },
+    ...(standardOrderBy
+      ? [
+          {
+            date: new Date(`${standardOrderBy}T00:00:00Z`),
+            action: "Last standard shipping order-by date; announce it in the shop banner"
+          }
+        ]
+      : []),
+    { date: eventDate, action: `${event.name}: keep shop messages answered within hours` },
+    { date: addDays(eventDate, 1), action: "Swap back to the evergreen title and tags" }
+  ];
+
+  return milestones
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .map((milestone) => ({
+      date: isoDate(milestone.date),
+      action: milestone.action,
+      passed: milestone.date < today
+    }));
+}
+
+export function campaignBriefInput(input: ListingInput, eventId: string): ListingInput {
+  const seasonal = new Set(findCampaignEvent(eventId).keywords[input.language ?? "en"]);
+  const supportingKeywords = input.supportingKeywords.filter((keyword) => !seasonal.has(keyword));
+  return supportingKeywords.length ? { ...input, supportingKeywords } : input;
+}
+
+export function planCampaign(input: ListingInput, eventId: string, now = new Date()): CampaignPlan {
+  const event = findCampaignEvent(eventId);
+  const today = startOfDay(now);
+  const occurrence = upcomingEvents(today, [event])[0];
+  const language = input.language ?? "en";
+  const eventDate = occurrence.date;
+  const name = event.names[language];
+
+  const seasonalInput = sanitizeListingInput({
+    ...input,
+    supportingKeywords: [...event.keywords[language], ...input.supportingKeywords]
+  });
+  const pack = buildListingPack(seasonalInput, now);
+  const digital = isDigitalKind(seasonalInput.productKind);
+
+  const estimates = pack.shipping
+    ? [...pack.shipping.estimates, ...pack.shipping.upgrades]
+    : [
+        {
+          ...ASSUMED_TRANSIT,
+          processingDays: seasonalInput.processingTimeDays,
+          deliveryDays: ASSUMED_TRANSIT.deliveryDays.map((days) => days + seasonalInput.processingTimeDays) as [
+            number,
+            number
+          ]
+        }
+      ];
+  const orderBy = digital
+    ? []
+    : estimates.map((estimate) => {
+        const date = addBusinessDays(eventDate, -estimate.deliveryDays[1]);
+        return {
+          region: estimate.region,
+          service: estimate.service,
+          orderBy: isoDate(date),
+          passed: date < today
+        };
+      });
+
+  const timeline = buildTimeline(event, eventDate, today, orderBy);
+  const warnings: string[] = [];
+  if (timeline.find((milestone) => milestone.action.startsWith("Publish"))?.passed) {
+    warnings.push(`The recommended publish date has passed; publish today to catch the remaining ${event.name} searches.`);
+  }
+  if (orderBy.length && orderBy.every((row) => row.passed)) {
+    warnings.push(`Every order-by date for ${event.name} has passed; promote faster shipping upgrades or a digital option.`);
+  }
+
+  return {
+    event: { id: event.id, name: event.name, date: isoDate(eventDate) },
+    input: seasonalInput,
+    pack: {
+      ...pack,
+      faq: [campaignFaq(language, name, isoDate(eventDate), digital, orderBy), ...pack.faq]
+    },
+    orderBy,
+    timeline,
+    warnings
+  };
+}
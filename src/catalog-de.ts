@@ -0,0 +1,346 @@
+import { deliveryRanges, variationChoices, type TemplateCatalog, type TemplateContext } from "./catalog.js";
+import type { ListingTone } from "./listing.js";
+import { formatMoney } from "./pricing.js";
+
+const TONES: Record<ListingTone, string> = {
+  playful: "verspielt",
+  minimal: "minimalistisch",
+  luxury: "luxuriös",
+  warm: "herzlich"
+};
+
+function toTitleCase(value: string): string {
+  return value
+    .split(" ")
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function days(count: number): string {
+  return `${count} ${count === 1 ? "Werktag" : "Werktage"}`;
+}
+
+function benefit({ input }: TemplateContext): string {
+  if (input.personalization) {
+    return "Personalisiert";
+  }
+  if (input.productKind === "digital_download") {
+    return "Sofort-Download";
+  }
+  if (input.productKind === "printable") {
+    return "Zum Ausdrucken";
+  }
+  if (input.productKind === "made_to_order") {
+    return "Auf Bestellung Gefertigt";
+  }
+  return "Sofort Versandbereit";
+}
+
+function hookLine({ input, keyword }: TemplateContext): string {
+  if (input.tone === "playful") {
+    return `${keyword} von ${input.shopName} – mit Liebe gemacht für ${input.targetAudience} und garantiert ein Lächeln wert.`;
+  }
+  if (input.tone === "minimal") {
+    return `${keyword} von ${input.shopName}. Schlicht, praktisch und gemacht für ${input.targetAudience}.`;
+  }
+  if (input.tone === "luxury") {
+    return `${keyword} von ${input.shopName}, sorgfältig veredelt für ${input.targetAudience}, die bleibende Qualität schätzen.`;
+  }
+  return `${keyword} von ${input.shopName}, mit Sorgfalt gemacht für ${input.targetAudience}.`;
+}
+
+function conversionLine({ input, digital }: TemplateContext): string {
+  if (input.personalization) {
+    return "Ergänze einen Namen, ein Datum oder einen kurzen Text und mach es zu einem Einzelstück.";
+  }
+  if (digital) {
+    return "Direkt nach dem Kauf herunterladen und sofort verwenden.";
+  }
+  if (input.productKind === "made_to_order") {
+    return "Jedes Stück wird nach deiner Bestellung für dich gefertigt.";
+  }
+  return "Sofort versandbereit und schnell auf dem Weg zu dir.";
+}
+
+export const DE_CATALOG: TemplateCatalog = {
+  language: "de",
+  titleCase: toTitleCase,
+  benefit,
+  title: {
+    giftFor: (audience) => `Geschenk für ${audience}`,
+    audienceGift: (audience) => `Geschenk für ${audience}`,
+    benefitGiftFor: (lead, audience) => `${lead} – Geschenk für ${audience}`,
+    fallback: "Etsy Bestseller"
+  },
+  tags: {
+    benefit: (context) => (context.input.personalization ? "personalisiert" : benefit(context).toLowerCase()),
+    gift: (subject) => `${subject} geschenk`,
+    decor: (word) => `${word} deko`,
+    idea: (word) => `${word} idee`,
+    seller: "etsy shop",
+    handmadeGift: "handgemachtes geschenk",
+    fallback: ["handgemacht", "geschenk für sie", "geschenk für ihn", "wohndeko", "auf bestellung", "kleines geschäft"]
+  },
+  description: (context) => {
+    const { input, digital } = context;
+    const madeToOrder = input.productKind === "made_to_order";
+    const choices = variationChoices(context, "und");
+    return [
+      { id: "hook", heading: "Überblick", text: `${hookLine(context)} ${conversionLine(context)}` },
+      {
+        id: "details",
+        heading: "Details",
+        text: digital
+          ? `Dies ist ein digitales Produkt (${input.productType}): Du erhältst die Dateien, keinen physischen Artikel.`
+          : `Jedes Exemplar (${input.productType}) ist ${madeToOrder ? "auf Bestellung gefertigt" : "sofort versandbereit"}.${choices ? ` Wähle ${choices}.` : ""}`
+      },
+      {
+        id: "materials",
+        heading: digital ? "Dateien" : "Materialien",
+        text: digital
+          ? "Hochauflösende Dateien, abrufbar unter deinen Etsy-Käufen."
+          : input.materials.length
+            ? `Materialien: ${input.materials.slice(0, 5).join(", ")}.`
+            : "Die Materialien sind auf Langlebigkeit und ein gleichmäßiges Finish ausgewählt."
+      },
+      {
+        id: "shipping",
+        heading: digital ? "Lieferung" : "Versand",
+        text: digital
+          ? "Die Dateien stehen zum Download bereit, sobald die Zahlung bestätigt ist. Es wird kein physischer Artikel versendet."
+          : `${madeToOrder ? "Fertigungszeit" : "Bearbeitungszeit"}: ${days(input.processingTimeDays)} bis zum Versand.`
+      },
+      {
+        id: "care",
+        heading: "Pflege",
+        text: digital
+          ? `Bewahre eine Sicherungskopie deiner Dateien auf.${input.productKind === "printable" ? " Für das beste Ergebnis auf schwerem, mattem Papier drucken." : ""}`
+          : "Mit einem weichen, trockenen Tuch abwischen und nicht dauerhaft direktem Sonnenlicht aussetzen."
+      },
+      {
+        id: "personalization",
+        heading: "Personalisierung",
+        text: input.personalization
+          ? "Trage Namen, Daten oder einen kurzen Text in das Personalisierungsfeld ein. Auf Wunsch gibt es vor der Fertigung eine Vorschau."
+          : `Du wünschst dir etwas anderes? Schreib dem Shop vor dem Kauf wegen individueller ${digital ? "Formate oder Layouts" : "Größen oder Farben"}.`
+      }
+    ];
+  },
+  highlights: ({ input, digital, keyword }, tagCount) => [
+    `Titel mit ${keyword} auf die Etsy-Suche abgestimmt`,
+    `${tagCount} Tags mit maximal 20 Zeichen enthalten`,
+    `Tonfall ${TONES[input.tone]} für eine einheitliche Markenstimme`,
+    digital
+      ? "Sofortige Lieferung als Download gleich oben platziert"
+      : `${days(input.processingTimeDays)} Bearbeitungszeit gleich oben platziert`,
+    input.personalization
+      ? "Hinweis auf Personalisierung in Titel und FAQ"
+      : digital
+        ? "Sofort-Download in Titel und FAQ hervorgehoben"
+        : "Schneller Versand in Titel und FAQ hervorgehoben"
+  ],
+  faq: ({ input, digital }) => {
+    const photoFaq = {
+      question: "Was sollte mein erstes Produktfoto zeigen?",
+      answer: digital
+        ? `Beginne mit einem gestalteten Mockup von ${input.productType}, zeige dann Vorschauseiten und eine klare Liste der enthaltenen Dateien für ${input.targetAudience}.`
+        : `Beginne mit einem klaren Hauptfoto von ${input.productType}, zeige dann Größe, Materialien und ein Lifestyle-Bild für ${input.targetAudience}.`
+    };
+    const customFaq = {
+      question: input.personalization ? "Welche Personalisierung kann ich anfragen?" : "Kann ich eine individuelle Variante anfragen?",
+      answer: input.personalization
+        ? "Trage Namen, Daten oder einen kurzen Text in das Personalisierungsfeld ein. Vor der Fertigung kann eine Vorschau angefragt werden."
+        : digital
+          ? "Ja. Schreib dem Shop vor dem Kauf mit Wünschen zu Format, Farbe oder Layout, und wir bestätigen die Machbarkeit."
+          : "Ja. Schreib dem Shop vor dem Kauf mit Wünschen zu Größe, Farbe oder Verpackung, und wir bestätigen die Verfügbarkeit."
+    };
+
+    if (digital) {
+      return [
+        {
+          question: "Wie erhalte ich meine Dateien?",
+          answer:
+            "Dies ist ein Sofort-Download. Die Dateien erscheinen unter deinen Etsy-Käufen, sobald die Zahlung bestätigt ist; es wird kein physischer Artikel versendet."
+        },
+        {
+          question: "Welche Dateiformate sind enthalten?",
+          answer:
+            input.productKind === "printable"
+              ? "Du erhältst hochauflösende PDF- und JPG-Dateien in gängigen Papier- und Rahmenformaten, bereit zum Drucken zu Hause oder im Copyshop."
+              : "Du erhältst hochauflösende PDF- und PNG-Dateien sowie Vorlagen-Links, wenn das Produkt eine Online-App nutzt."
+        },
+        {
+          question: "Darf ich die Dateien gewerblich nutzen?",
+          answer:
+            "Die Dateien sind nur für den privaten Gebrauch lizenziert. Weiterverkauf, Weitergabe oder Verbreitung sind nicht erlaubt; frag den Shop nach einer gewerblichen Lizenz."
+        },
+        customFaq,
+        photoFaq
+      ];
+    }
+
+    return [
+      input.productKind === "made_to_order"
+        ? {
+            question: "Wie lange dauert die Anfertigung meiner Bestellung?",
+            answer: `Jedes Stück wird auf Bestellung gefertigt; die Fertigungszeit beträgt ${days(input.processingTimeDays)} vor dem Versand. Eilwünsche können vor dem Kauf per Nachricht besprochen werden.`
+          }
+        : {
+            question: "Wie schnell wird meine Bestellung versendet?",
+            answer: `Die Bearbeitungszeit beträgt ${days(input.processingTimeDays)}. Eilwünsche können vor dem Kauf per Nachricht besprochen werden.`
+          },
+      customFaq,
+      photoFaq
+    ];
+  },
+  variationFaq: (context, table) => ({
+    question: "Welche Optionen kann ich wählen?",
+    answer: [
+      `Wähle ${variationChoices(context, "und")} vor dem Kauf in den Auswahlmenüs aus.`,
+      table.pricedBy ? `Der Preis hängt von der gewählten Option bei ${table.pricedBy} ab.` : "",
+      table.stockedBy
+        ? `Der Bestand wird pro ${table.stockedBy} geführt; ausverkaufte Optionen verschwinden automatisch.`
+        : ""
+    ]
+      .filter(Boolean)
+      .join(" ")
+  }),
+  shippingFaq: ({ input }, plan) => [
+    {
+      question: "Von wo wird versendet und wann kommt meine Bestellung an?",
+      answer: `Bestellungen werden nach ${days(input.processingTimeDays)} Bearbeitungszeit aus ${plan.originCountry} versendet. Voraussichtliche Lieferung in Werktagen: ${deliveryRanges(plan.estimates)}.`
+    },
+    ...(plan.freeShippingThreshold != null
+      ? [
+          {
+            question: "Gibt es kostenlosen Versand?",
+            answer: `Ja. Bestellungen ab ${formatMoney(plan.freeShippingThreshold, plan.currency)} werden kostenlos versendet.`
+          }
+        ]
+      : []),
+    ...(plan.upgrades.length
+      ? [
+          {
+            question: "Kann ich einen schnelleren Versand wählen?",
+            answer: `Ja. Wähle beim Kauf eine Versandoption: ${plan.upgrades
+              .map(
+                (upgrade) =>
+                  `${upgrade.service} (${upgrade.transitDays[0]}-${upgrade.transitDays[1]} Werktage Laufzeit${upgrade.price != null ? `, +${formatMoney(upgrade.price, plan.currency)}` : ""})`
+              )
+              .join("; ")}.`
+          }
+        ]
+      : [])
+  ],
+  shopPolicies: {
+    returnsHeading: "Rückgabe",
+    returnsQuestion: "Wie funktioniert die Rückgabe?",
+    careQuestion: "Wie pflege ich meine Bestellung?",
+    shippingQuestion: "Wie wird meine Bestellung verschickt?"
+  },
+  photoShotList: ({ input, digital, product, audience }) => {
+    if (digital) {
+      return [
+        `${product} als gestaltetes Mockup (Hauptbild)`,
+        "Vorschauseiten mit Innenlayouts",
+        input.productKind === "printable" ? "Gedrucktes und gerahmtes Mockup an der Wand" : "Geräte-Mockup auf Tablet und Smartphone",
+        "Lieferumfang: Grafik mit Dateiliste und Formaten",
+        input.personalization ? "Personalisiertes Beispiel mit realistischem Namen/Datum" : "Grafik: So funktioniert der Sofort-Download",
+        `Lifestyle-Szene für ${audience}`,
+        ...(input.productKind === "printable"
+          ? ["Größentabelle mit Papierformaten"]
+          : input.variations?.length
+            ? ["Übersicht der Farb- oder Themenvarianten"]
+            : []),
+        "Nahaufnahme von Typografie und Layout"
+      ];
+    }
+
+    return [
+      `${product} auf neutralem Hintergrund (Hauptbild)`,
+      "Nahaufnahme von Struktur und Oberfläche",
+      input.personalization
+        ? "Personalisiertes Beispiel mit realistischem Namen/Datum"
+        : input.productKind === "made_to_order"
+          ? "Blick in die Werkstatt während der Fertigung"
+          : "Verpackung und Versandbereitschaft",
+      "Größenvergleich in der Hand oder neben einem Alltagsgegenstand",
+      `Lifestyle-Szene für ${audience}`,
+      input.materials.length
+        ? `Materialien als Flatlay: ${input.materials.slice(0, 4).join(", ")}`
+        : "Materialien und Komponenten als Flatlay",
+      ...(input.variations?.length ? ["Vergleichsraster der Farben oder Varianten"] : []),
+      "Geschenkfertige Präsentation"
+    ];
+  },
+  launchChecklist: ({ input, digital }, photoCount, categoryItems) => {
+    if (digital) {
+      return [
+        `Alle ${photoCount} Mockups vor der Veröffentlichung hochladen`,
+        "Die ersten 40 Zeichen des Titels mit Keywords füllen",
+        "Finale Dateien hochladen und den Download als Käufer testen",
+        "Dateiformate und Lizenzbedingungen im ersten Absatz nennen",
+        ...categoryItems,
+        "Eine Käufer-FAQ in der Shop-Ankündigung anheften",
+        "Klicks und Favoriten nach 24 Stunden prüfen"
+      ];
+    }
+
+    return [
+      `Alle ${photoCount} Fotos vor der Veröffentlichung hochladen`,
+      "Die ersten 40 Zeichen des Titels mit Keywords füllen",
+      input.productKind === "made_to_order"
+        ? "Fertigungs- und Versandzeit im ersten Absatz der Beschreibung nennen"
+        : "Versandzeit im ersten Absatz der Beschreibung nennen",
+      ...categoryItems,
+      "Eine Käufer-FAQ in der Shop-Ankündigung anheften",
+      "Klicks und Favoriten nach 24 Stunden prüfen"
+    ];
+  },
+  tones: TONES,
+  variantRationale: (context, strategy, leadLength) => {
+    if (strategy === "benefit_first") {
+      if (context.input.personalization) {
+        return "Stellt die Personalisierung voran, damit mehr Käufer individueller Geschenke klicken.";
+      }
+      return context.digital
+        ? "Stellt den Sofort-Download voran, damit mehr Käufer klicken, die es heute noch brauchen."
+        : `Stellt das Versprechen „${benefit(context)}“ voran, damit mehr vergleichende Käufer klicken.`;
+    }
+    if (strategy === "audience_first") {
+      return "Nennt zuerst die beschenkte Person, damit Geschenksuchen sofort sehen, für wen der Artikel ist.";
+    }
+    if (strategy === "long_tail") {
+      return "Reiht ergänzende Keywords mit Kommas aneinander, um mehr Long-Tail-Suchen abzudecken.";
+    }
+    return `Stellt das Haupt-Keyword nach vorn, damit die ersten ${leadLength} Zeichen zu Käufersuchen passen.`;
+  },
+  rubric: {
+    tagsEvidence: (filled, max) => `${filled} von ${max} Tag-Plätzen belegt`,
+    tagsAction: (missing) => `Keywords für ${missing} ${missing === 1 ? "weiteren Tag-Platz" : "weitere Tag-Plätze"} ergänzen`,
+    keywordsEvidence: (count) => `${count} ${count === 1 ? "ergänzendes Keyword" : "ergänzende Keywords"} angegeben`,
+    keywordsAction: (missing) => `${missing} ${missing === 1 ? "weiteres ergänzendes Keyword" : "weitere ergänzende Keywords"} hinzufügen`,
+    placementEvidence: (position) =>
+      position ? `Haupt-Keyword beginnt bei Titelzeichen ${position}` : "Haupt-Keyword fehlt im Titel",
+    placementAction: (keyword, leadLength) => `Haupt-Keyword „${keyword}“ in die ersten ${leadLength} Titelzeichen stellen`,
+    personalizationEvidence: (offered) => (offered ? "Personalisierung angeboten" : "Nur sofort versandbereit"),
+    personalizationAction: "Personalisierung anbieten, um Suchen nach individuellen Geschenken abzudecken",
+    materialsEvidence: (count) => `${count} ${count === 1 ? "Material" : "Materialien"} angegeben`,
+    materialsAction: (missing) => `${missing} ${missing === 1 ? "weiteres Material" : "weitere Materialien"} ergänzen`,
+    processingEvidence: (digital, count) => (digital ? "Lieferung per Sofort-Download" : `${days(count)} Bearbeitungszeit`),
+    processingAction: (maxDays) => `Bearbeitungszeit auf höchstens ${days(maxDays)} senken`
+  },
+  textSuggestions: {
+    sentenceLength: (average, max) => `Sätze haben im Schnitt ${average} Wörter; teilen Sie sie auf höchstens ${max} auf.`,
+    readingEase: (score) =>
+      `Die Beschreibung ist schwer lesbar (Flesch-Lesbarkeit ${score}); verwenden Sie kürzere Wörter und Sätze.`,
+    passiveVoice: (count) =>
+      `Formulieren Sie ${count} ${count === 1 ? "Passivsatz" : "Passivsätze"} im Aktiv.`,
+    keywordMissing: (keyword) => `Verwenden Sie das Haupt-Keyword „${keyword}“ in der Beschreibung.`,
+    keywordDensity: (keyword, density, max) =>
+      `„${keyword}“ macht ${density} % der Wörter aus; bleiben Sie unter ${max} %, um Keyword-Stuffing zu vermeiden.`,
+    snippet: (keyword, length) =>
+      `Nennen Sie „${keyword}“ in den ersten ${length} Zeichen; Etsy zeigt sie in der Suche unter dem Titel.`
+  }
+};
@@ -0,0 +1,351 @@
+import { deliveryRanges, variationChoices, type TemplateCatalog, type TemplateContext } from "./catalog.js";
+import type { ListingTone } from "./listing.js";
+import { formatMoney } from "./pricing.js";
+
+const TONES: Record<ListingTone, string> = {
+  playful: "playful",
+  minimal: "minimal",
+  luxury: "luxury",
+  warm: "warm"
+};
+
+function toTitleCase(value: string): string {
+  return value
+    .split(" ")
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+function benefit({ input }: TemplateContext): string {
+  if (input.personalization) {
+    return "Personalized";
+  }
+  if (input.productKind === "digital_download") {
+    return "Instant Download";
+  }
+  if (input.productKind === "printable") {
+    return "Printable";
+  }
+  if (input.productKind === "made_to_order") {
+    return "Made to Order";
+  }
+  return "Ready to Ship";
+}
+
+function plural(count: number, singular: string): string {
+  return `${count} ${singular}${count === 1 ? "" : "s"}`;
+}
+
+function days(count: number): string {
+  return `${count} business day${count === 1 ? "" : "s"}`;
+}
+
+function hookLine({ input, keyword }: TemplateContext): string {
+  if (input.tone === "playful") {
+    return `Say hello to ${keyword} from ${input.shopName}, made to make ${input.targetAudience} smile.`;
+  }
+  if (input.tone === "minimal") {
+    return `${keyword} from ${input.shopName}. Simple, useful and made for ${input.targetAudience}.`;
+  }
+  if (input.tone === "luxury") {
+    return `${keyword} from ${input.shopName}, finished with care for ${input.targetAudience} who value lasting quality.`;
+  }
+  return `${keyword} from ${input.shopName}, made with care for ${input.targetAudience}.`;
+}
+
+function conversionLine({ input, digital }: TemplateContext): string {
+  if (input.personalization) {
+    return "Add a name, date or short message to make it one of a kind.";
+  }
+  if (digital) {
+    return "Download it right after checkout and use it today.";
+  }
+  if (input.productKind === "made_to_order") {
+    return "Each piece is made for you after you order.";
+  }
+  return "It is ready to ship, so it will be on its way quickly.";
+}
+
+export const EN_CATALOG: TemplateCatalog = {
+  language: "en",
+  titleCase: toTitleCase,
+  benefit,
+  title: {
+    giftFor: (audience) => `Gift for ${audience}`,
+    audienceGift: (audience) => `${audience} Gift`,
+    benefitGiftFor: (lead, audience) => `${lead} Gift for ${audience}`,
+    fallback: "Etsy Bestseller"
+  },
+  tags: {
+    benefit: (context) => (context.input.personalization ? "personalized gift" : benefit(context).toLowerCase()),
+    gift: (subject) => `${subject} gift`,
+    decor: (word) => `${word} decor`,
+    idea: (word) => `${word} idea`,
+    seller: "etsy seller",
+    handmadeGift: "handmade gift",
+    fallback: ["small business", "handmade", "gift for her", "gift for him", "home decor", "custom order"]
+  },
+  description: (context) => {
+    const { input, digital } = context;
+    const madeToOrder = input.productKind === "made_to_order";
+    const choices = variationChoices(context, "and");
+    return [
+      { id: "hook", heading: "Overview", text: `${hookLine(context)} ${conversionLine(context)}` },
+      {
+        id: "details",
+        heading: "Details",
+        text: digital
+          ? `This is a ${/\bdigital\b/i.test(input.productType) ? "" : "digital "}${input.productType}: you receive the files, not a physical item.`
+          : `${madeToOrder ? `We make each ${input.productType} to order` : `Each ${input.productType} is ready to ship`}.${choices ? ` Choose your ${choices}.` : ""}`
+      },
+      {
+        id: "materials",
+        heading: digital ? "Files" : "Materials",
+        text: digital
+          ? "High-resolution files, available from your Etsy purchases page."
+          : input.materials.length
+            ? `Made from ${input.materials.slice(0, 5).join(", ")}.`
+            : "Materials are selected for durability and a consistent finish."
+      },
+      {
+        id: "shipping",
+        heading: digital ? "Delivery" : "Shipping",
+        text: digital
+          ? "Your files are ready to download as soon as your payment goes through. Nothing arrives by post."
+          : `${madeToOrder ? "Production" : "Processing"} time: ${days(input.processingTimeDays)} before dispatch.`
+      },
+      {
+        id: "care",
+        heading: "Care",
+        text: digital
+          ? `Keep a backup copy of your files.${input.productKind === "printable" ? " Print on heavy matte paper for the best result." : ""}`
+          : "Wipe clean with a soft, dry cloth and keep it out of prolonged direct sunlight."
+      },
+      {
+        id: "personalization",
+        heading: "Personalization",
+        text: input.personalization
+          ? "Add names, dates or short text in the personalization box at checkout. Ask for a preview before production if you would like one."
+          : `Want something different? Message the shop before ordering to ask about custom ${digital ? "formats or layouts" : "sizes or colors"}.`
+      }
+    ];
+  },
+  highlights: ({ input, digital, keyword }, tagCount) => [
+    `${keyword} headline tuned for Etsy search intent`,
+    `${tagCount} tags included with <=20 character constraint respected`,
+    `Tone set to ${TONES[input.tone]} for consistent brand voice`,
+    digital
+      ? "Instant download delivery placed above the fold"
+      : `${input.processingTimeDays}-day processing expectation placed above the fold`,
+    input.personalization
+      ? "Personalization CTA included in title and FAQ"
+      : digital
+        ? "Instant download angle included in title and FAQ"
+        : "Fast dispatch angle included in title and FAQ"
+  ],
+  faq: ({ input, digital }) => {
+    const days = `${input.processingTimeDays} day${input.processingTimeDays === 1 ? "" : "s"}`;
+    const photoFaq = {
+      question: "What should I include in my first product photo?",
+      answer: digital
+        ? `Lead with a styled mockup of the ${input.productType}, then show preview pages and a clear list of included files for ${input.targetAudience}.`
+        : `Lead with a clean hero shot of the ${input.productType}, then show scale, materials, and one lifestyle image for ${input.targetAudience}.`
+    };
+    const customFaq = {
+      question: input.personalization ? "What personalization can I request?" : "Can I request a custom variation?",
+      answer: input.personalization
+        ? "Include names, dates, or short text in the personalization field. A preview can be requested before production."
+        : digital
+          ? "Yes. Message the shop before checkout with size, color, or layout requests and we will confirm availability."
+          : "Yes. Message the shop before checkout with size, color, or packaging requests and we will confirm availability."
+    };
+
+    if (digital) {
+      return [
+        {
+          question: "How do I receive my files?",
+          answer:
+            "This is an instant download. Files appear on your Etsy Purchases page as soon as payment clears, and no physical item is shipped."
+        },
+        {
+          question: "What file formats are included?",
+          answer:
+            input.productKind === "printable"
+              ? "You receive high-resolution PDF and JPG files sized for common paper and frame formats, ready to print at home or at a local print shop."
+              : "You receive high-resolution PDF and PNG files, plus template links where the product uses an online app."
+        },
+        {
+          question: "Can I use these files commercially?",
+          answer:
+            "Files are licensed for personal use only. Reselling, sharing, or redistributing them is not permitted; message the shop about a commercial license."
+        },
+        customFaq,
+        photoFaq
+      ];
+    }
+
+    return [
+      input.productKind === "made_to_order"
+        ? {
+            question: "How long does it take to make my order?",
+            answer: `Each piece is made to order with ${days} of production time before it ships. Rush requests can be discussed in messages before purchase.`
+          }
+        : {
+            question: "How quickly can this order ship?",
+            answer: `Standard processing is ${days}. Rush requests can be discussed in messages before purchase.`
+          },
+      customFaq,
+      photoFaq
+    ];
+  },
+  variationFaq: (context, table) => ({
+    question: "Which options can I choose?",
+    answer: [
+      `Select ${variationChoices(context, "and")} from the drop-down menus before checkout.`,
+      table.pricedBy ? `Price depends on the ${table.pricedBy.toLowerCase()} you choose.` : "",
+      table.stockedBy
+        ? `Stock is tracked per ${table.stockedBy.toLowerCase()}, so sold-out options disappear automatically.`
+        : ""
+    ]
+      .filter(Boolean)
+      .join(" ")
+  }),
+  shippingFaq: ({ input }, plan) => [
+    {
+      question: "Where does my order ship from and when will it arrive?",
+      answer: `Orders ship from ${plan.originCountry} after ${input.processingTimeDays} day${input.processingTimeDays === 1 ? "" : "s"} of processing. Estimated delivery in business days: ${deliveryRanges(plan.estimates)}.`
+    },
+    ...(plan.freeShippingThreshold != null
+      ? [
+          {
+            question: "Do you offer free shipping?",
+            answer: `Yes. Orders of ${formatMoney(plan.freeShippingThreshold, plan.currency)} or more ship free.`
+          }
+        ]
+      : []),
+    ...(plan.upgrades.length
+      ? [
+          {
+            question: "Can I upgrade to faster shipping?",
+            answer: `Yes. Choose an upgrade at checkout: ${plan.upgrades
+              .map(
+                (upgrade) =>
+                  `${upgrade.service} (${upgrade.transitDays[0]}-${upgrade.transitDays[1]} business days in transit${upgrade.price != null ? `, +${formatMoney(upgrade.price, plan.currency)}` : ""})`
+              )
+              .join("; ")}.`
+          }
+        ]
+      : [])
+  ],
+  shopPolicies: {
+    returnsHeading: "Returns",
+    returnsQuestion: "What is your return policy?",
+    careQuestion: "How do I care for my order?",
+    shippingQuestion: "How do you send orders?"
+  },
+  photoShotList: ({ input, digital, product, audience }) => {
+    if (digital) {
+      return [
+        `${product} styled mockup (hero image)`,
+        "Preview pages showing interior layouts",
+        input.productKind === "printable" ? "Printed and framed mockup on a wall" : "Device mockup on tablet and phone screens",
+        "What's included: file list and formats graphic",
+        input.personalization ? "Personalized sample with realistic name/date" : "Instant download how-it-works graphic",
+        `${audience} lifestyle context shot`,
+        ...(input.productKind === "printable"
+          ? ["Print size chart with paper dimensions"]
+          : input.variations?.length
+            ? ["Color or theme options grid"]
+            : []),
+        "Close-up detail of typography and layout"
+      ];
+    }
+
+    return [
+      `${product} on plain background (hero image)`,
+      "Close-up detail of texture and finish",
+      input.personalization
+        ? "Personalized sample with realistic name/date"
+        : input.productKind === "made_to_order"
+          ? "Work-in-progress shot from the maker's bench"
+          : "Ready-to-ship packaging and dispatch view",
+      "Scale reference in hand or beside common object",
+      `${audience} lifestyle context shot`,
+      input.materials.length
+        ? `Materials flat lay: ${input.materials.slice(0, 4).join(", ")}`
+        : "Materials and components flat lay",
+      ...(input.variations?.length ? ["Color or variation comparison grid"] : []),
+      "Gift-ready final presentation"
+    ];
+  },
+  launchChecklist: ({ input, digital }, photoCount, categoryItems) => {
+    if (digital) {
+      return [
+        `Upload all ${photoCount} mockups before publishing`,
+        "Keep first 40 title characters keyword-dense",
+        "Upload the final files and test the download as a buyer",
+        "State file formats and license terms in description paragraph 1",
+        ...categoryItems,
+        "Pin one buyer FAQ in shop announcement",
+        "Track clicks and favorites after 24 hours"
+      ];
+    }
+
+    return [
+      `Upload all ${photoCount} photos before publishing`,
+      "Keep first 40 title characters keyword-dense",
+      input.productKind === "made_to_order"
+        ? "Place production and shipping timeline in description paragraph 1"
+        : "Place shipping timeline in description paragraph 1",
+      ...categoryItems,
+      "Pin one buyer FAQ in shop announcement",
+      "Track clicks and favorites after 24 hours"
+    ];
+  },
+  tones: TONES,
+  variantRationale: (context, strategy, leadLength) => {
+    if (strategy === "benefit_first") {
+      if (context.input.personalization) {
+        return "Leads with the personalization benefit to lift click-through from custom gift shoppers.";
+      }
+      return context.digital
+        ? "Leads with instant delivery to lift click-through from shoppers who need it today."
+        : `Leads with the ${benefit(context).toLowerCase()} promise to lift click-through from shoppers comparing options.`;
+    }
+    if (strategy === "audience_first") {
+      return "Leads with the recipient so gift searches immediately see who the item is for.";
+    }
+    if (strategy === "long_tail") {
+      return "Stacks supporting keywords with comma separators to cover more long-tail searches.";
+    }
+    return `Front-loads the primary keyword so the first ${leadLength} characters match buyer searches.`;
+  },
+  rubric: {
+    tagsEvidence: (filled, max) => `${filled} of ${max} tag slots filled`,
+    tagsAction: (missing) => `Add keywords to fill ${plural(missing, "more tag slot")}`,
+    keywordsEvidence: (count) => `${plural(count, "supporting keyword")} supplied`,
+    keywordsAction: (missing) => `Add ${plural(missing, "more supporting keyword")}`,
+    placementEvidence: (position) =>
+      position ? `Primary keyword starts at title character ${position}` : "Primary keyword missing from title",
+    placementAction: (keyword, leadLength) =>
+      `Front-load primary keyword "${keyword}" in the first ${leadLength} title characters`,
+    personalizationEvidence: (offered) => (offered ? "Personalization offered" : "Ready-to-ship only"),
+    personalizationAction: "Offer personalization to capture custom gift searches",
+    materialsEvidence: (count) => `${plural(count, "material")} listed`,
+    materialsAction: (missing) => `Add ${plural(missing, "more material")}`,
+    processingEvidence: (digital, count) => (digital ? "Instant download delivery" : `${plural(count, "day")} processing`),
+    processingAction: (maxDays) => `Cut processing time to ${maxDays} days or less`
+  },
+  textSuggestions: {
+    sentenceLength: (average, max) => `Sentences average ${average} words; split them to ${max} or fewer.`,
+    readingEase: (score) =>
+      `The description is hard to read (Flesch reading ease ${score}); use shorter words and sentences.`,
+    passiveVoice: (count) => `Rewrite ${plural(count, "passive sentence")} in the active voice.`,
+    keywordMissing: (keyword) => `Use the primary keyword "${keyword}" in the description.`,
+    keywordDensity: (keyword, density, max) =>
+      `"${keyword}" makes up ${density}% of the words; keep it under ${max}% to avoid keyword stuffing.`,
+    snippet: (keyword, length) =>
+      `Mention "${keyword}" in the first ${length} characters; Etsy shows them under the title in search.`
+  }
+};
@@ -0,0 +1,353 @@
+import { deliveryRanges, variationChoices, type TemplateCatalog, type TemplateContext } from "./catalog.js";
+import type { ListingTone } from "./listing.js";
+import { formatMoney } from "./pricing.js";
+
+const TONES: Record<ListingTone, string> = {
+  playful: "divertido",
+  minimal: "minimalista",
+  luxury: "lujoso",
+  warm: "cálido"
+};
+
+function toSentenceCase(value: string): string {
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+function days(count: number): string {
+  return `${count} día${count === 1 ? "" : "s"} hábil${count === 1 ? "" : "es"}`;
+}
+
+function benefit({ input }: TemplateContext): string {
+  if (input.personalization) {
+    return "Personalizado";
+  }
+  if (input.productKind === "digital_download") {
+    return "Descarga inmediata";
+  }
+  if (input.productKind === "printable") {
+    return "Imprimible";
+  }
+  if (input.productKind === "made_to_order") {
+    return "Hecho por encargo";
+  }
+  return "Listo para enviar";
+}
+
+function hookLine({ input, keyword }: TemplateContext): string {
+  if (input.tone === "playful") {
+    return `${keyword} de ${input.shopName}: un toque de alegría para ${input.targetAudience}.`;
+  }
+  if (input.tone === "minimal") {
+    return `${keyword} de ${input.shopName}. Sencillo, práctico y pensado para ${input.targetAudience}.`;
+  }
+  if (input.tone === "luxury") {
+    return `${keyword} de ${input.shopName}, elaborado con esmero para ${input.targetAudience} que valoran la calidad duradera.`;
+  }
+  return `${keyword} de ${input.shopName}, creado con cariño para ${input.targetAudience}.`;
+}
+
+function conversionLine({ input, digital }: TemplateContext): string {
+  if (input.personalization) {
+    return "Añade un nombre, una fecha o un mensaje corto para hacerlo único.";
+  }
+  if (digital) {
+    return "Descárgalo justo después de la compra y úsalo hoy mismo.";
+  }
+  if (input.productKind === "made_to_order") {
+    return "Cada pieza se hace para ti después de tu pedido.";
+  }
+  return "Está listo para enviar, así que saldrá pronto hacia ti.";
+}
+
+export const ES_CATALOG: TemplateCatalog = {
+  language: "es",
+  titleCase: toSentenceCase,
+  benefit,
+  title: {
+    giftFor: (audience) => `Regalo para ${audience.toLowerCase()}`,
+    audienceGift: (audience) => `Regalo ${audience.toLowerCase()}`,
+    benefitGiftFor: (lead, audience) => `${lead} – regalo para ${audience.toLowerCase()}`,
+    fallback: "Más vendido en Etsy"
+  },
+  tags: {
+    benefit: (context) => (context.input.personalization ? "regalo personalizado" : benefit(context).toLowerCase()),
+    gift: (subject) => `regalo ${subject}`,
+    decor: (word) => `decoración ${word}`,
+    idea: (word) => `idea ${word}`,
+    seller: "tienda etsy",
+    handmadeGift: "regalo hecho a mano",
+    fallback: ["hecho a mano", "regalo para ella", "regalo para él", "decoración hogar", "por encargo", "pequeño negocio"]
+  },
+  description: (context) => {
+    const { input, digital } = context;
+    const madeToOrder = input.productKind === "made_to_order";
+    const choices = variationChoices(context, "y");
+    return [
+      { id: "hook", heading: "Resumen", text: `${hookLine(context)} ${conversionLine(context)}` },
+      {
+        id: "details",
+        heading: "Detalles",
+        text: digital
+          ? `Es un producto digital (${input.productType}): recibes los archivos, no un artículo físico.`
+          : `Cada artículo (${input.productType}) está ${madeToOrder ? "hecho por encargo" : "listo para enviar"}.${choices ? ` Elige ${choices}.` : ""}`
+      },
+      {
+        id: "materials",
+        heading: digital ? "Archivos" : "Materiales",
+        text: digital
+          ? "Archivos de alta resolución, disponibles en tus compras de Etsy."
+          : input.materials.length
+            ? `Materiales: ${input.materials.slice(0, 5).join(", ")}.`
+            : "Los materiales se eligen por su durabilidad y un acabado uniforme."
+      },
+      {
+        id: "shipping",
+        heading: digital ? "Entrega" : "Envío",
+        text: digital
+          ? "Los archivos están disponibles en cuanto se confirma el pago. No se envía ningún artículo físico."
+          : `${madeToOrder ? "Tiempo de fabricación" : "Tiempo de preparación"}: ${days(input.processingTimeDays)} antes del envío.`
+      },
+      {
+        id: "care",
+        heading: "Cuidado",
+        text: digital
+          ? `Guarda una copia de seguridad de tus archivos.${input.productKind === "printable" ? " Imprime en papel mate grueso para un mejor resultado." : ""}`
+          : "Limpia con un paño suave y seco y evita la exposición prolongada al sol."
+      },
+      {
+        id: "personalization",
+        heading: "Personalización",
+        text: input.personalization
+          ? "Indica nombres, fechas o un texto corto en el campo de personalización al comprar. Puedes pedir una vista previa antes de la fabricación."
+          : `¿Buscas algo distinto? Escribe a la tienda antes de comprar para pedir ${digital ? "formatos o diseños" : "tamaños o colores"} personalizados.`
+      }
+    ];
+  },
+  highlights: ({ input, digital, keyword }, tagCount) => [
+    `Título ${keyword} ajustado a la búsqueda de Etsy`,
+    `${tagCount} etiquetas incluidas respetando el límite de 20 caracteres`,
+    `Tono ${TONES[input.tone]} para una voz de marca coherente`,
+    digital
+      ? "Entrega inmediata por descarga indicada desde el principio"
+      : `Plazo de preparación de ${days(input.processingTimeDays)} indicado desde el principio`,
+    input.personalization
+      ? "Llamada a la personalización en el título y las preguntas frecuentes"
+      : digital
+        ? "Descarga inmediata destacada en el título y las preguntas frecuentes"
+        : "Envío rápido destacado en el título y las preguntas frecuentes"
+  ],
+  faq: ({ input, digital }) => {
+    const photoFaq = {
+      question: "¿Qué debe mostrar la primera foto del producto?",
+      answer: digital
+        ? `Empieza con una maqueta cuidada de ${input.productType} y muestra después páginas de vista previa y una lista clara de los archivos incluidos para ${input.targetAudience}.`
+        : `Empieza con una foto principal limpia de ${input.productType} y muestra después la escala, los materiales y una foto de ambiente para ${input.targetAudience}.`
+    };
+    const customFaq = {
+      question: input.personalization ? "¿Qué personalización puedo pedir?" : "¿Puedo pedir una variante personalizada?",
+      answer: input.personalization
+        ? "Indica nombres, fechas o un texto corto en el campo de personalización. Puedes pedir una vista previa antes de la fabricación."
+        : digital
+          ? "Sí. Escribe a la tienda antes de comprar con tus peticiones de formato, color o diseño y confirmaremos si es posible."
+          : "Sí. Escribe a la tienda antes de comprar con tus peticiones de tamaño, color o embalaje y confirmaremos la disponibilidad."
+    };
+
+    if (digital) {
+      return [
+        {
+          question: "¿Cómo recibo mis archivos?",
+          answer:
+            "Es una descarga inmediata. Los archivos aparecen en tus compras de Etsy en cuanto se confirma el pago; no se envía ningún artículo físico."
+        },
+        {
+          question: "¿Qué formatos de archivo se incluyen?",
+          answer:
+            input.productKind === "printable"
+              ? "Recibes archivos PDF y JPG en alta resolución en tamaños de papel y marco habituales, listos para imprimir en casa o en una imprenta."
+              : "Recibes archivos PDF y PNG en alta resolución, además de enlaces a plantillas cuando el producto usa una aplicación en línea."
+        },
+        {
+          question: "¿Puedo usar estos archivos con fines comerciales?",
+          answer:
+            "Los archivos tienen licencia solo para uso personal. No se permite revenderlos, compartirlos ni redistribuirlos; consulta a la tienda por una licencia comercial."
+        },
+        customFaq,
+        photoFaq
+      ];
+    }
+
+    return [
+      input.productKind === "made_to_order"
+        ? {
+            question: "¿Cuánto tarda la fabricación de mi pedido?",
+            answer: `Cada pieza se fabrica por encargo en ${days(input.processingTimeDays)} antes del envío. Las peticiones urgentes se pueden consultar por mensaje antes de comprar.`
+          }
+        : {
+            question: "¿Cuándo se envía mi pedido?",
+            answer: `El plazo de preparación es de ${days(input.processingTimeDays)}. Las peticiones urgentes se pueden consultar por mensaje antes de comprar.`
+          },
+      customFaq,
+      photoFaq
+    ];
+  },
+  variationFaq: (context, table) => ({
+    question: "¿Qué opciones puedo elegir?",
+    answer: [
+      `Elige ${variationChoices(context, "y")} en los menús desplegables antes de pagar.`,
+      table.pricedBy ? `El precio depende de la opción de ${table.pricedBy.toLowerCase()} que elijas.` : "",
+      table.stockedBy
+        ? `El stock se controla por ${table.stockedBy.toLowerCase()}; las opciones agotadas desaparecen automáticamente.`
+        : ""
+    ]
+      .filter(Boolean)
+      .join(" ")
+  }),
+  shippingFaq: ({ input }, plan) => [
+    {
+      question: "¿Desde dónde se envía mi pedido y cuándo llegará?",
+      answer: `Los pedidos se envían desde ${plan.originCountry} tras ${days(input.processingTimeDays)} de preparación. Entrega estimada en días hábiles: ${deliveryRanges(plan.estimates)}.`
+    },
+    ...(plan.freeShippingThreshold != null
+      ? [
+          {
+            question: "¿Ofrecéis envío gratis?",
+            answer: `Sí. Los pedidos a partir de ${formatMoney(plan.freeShippingThreshold, plan.currency)} tienen envío gratis.`
+          }
+        ]
+      : []),
+    ...(plan.upgrades.length
+      ? [
+          {
+            question: "¿Puedo elegir un envío más rápido?",
+            answer: `Sí. Elige una opción al pagar: ${plan.upgrades
+              .map(
+                (upgrade) =>
+                  `${upgrade.service} (${upgrade.transitDays[0]}-${upgrade.transitDays[1]} días hábiles de tránsito${upgrade.price != null ? `, +${formatMoney(upgrade.price, plan.currency)}` : ""})`
+              )
+              .join("; ")}.`
+          }
+        ]
+      : [])
+  ],
+  shopPolicies: {
+    returnsHeading: "Devoluciones",
+    returnsQuestion: "¿Cuál es la política de devoluciones?",
+    careQuestion: "¿Cómo cuido mi pedido?",
+    shippingQuestion: "¿Cómo se envía mi pedido?"
+  },
+  photoShotList: ({ input, digital, product, audience }) => {
+    if (digital) {
+      return [
+        `Maqueta ambientada: ${product} (imagen principal)`,
+        "Páginas de vista previa con los diseños interiores",
+        input.productKind === "printable" ? "Maqueta impresa y enmarcada en la pared" : "Maqueta en tableta y móvil",
+        "Contenido incluido: gráfico con archivos y formatos",
+        input.personalization
+          ? "Ejemplo personalizado con nombre y fecha realistas"
+          : "Gráfico de cómo funciona la descarga inmediata",
+        `Foto de ambiente para ${audience.toLowerCase()}`,
+        ...(input.productKind === "printable"
+          ? ["Tabla de tamaños de impresión"]
+          : input.variations?.length
+            ? ["Cuadrícula de colores o temas disponibles"]
+            : []),
+        "Primer plano de la tipografía y el diseño"
+      ];
+    }
+
+    return [
+      `${product} sobre fondo liso (imagen principal)`,
+      "Primer plano de la textura y el acabado",
+      input.personalization
+        ? "Ejemplo personalizado con nombre y fecha realistas"
+        : input.productKind === "made_to_order"
+          ? "Foto del proceso en el taller"
+          : "Embalaje listo para enviar",
+      "Referencia de escala en la mano o junto a un objeto común",
+      `Foto de ambiente para ${audience.toLowerCase()}`,
+      input.materials.length
+        ? `Materiales en plano cenital: ${input.materials.slice(0, 4).join(", ")}`
+        : "Materiales y componentes en plano cenital",
+      ...(input.variations?.length ? ["Cuadrícula comparativa de colores o variantes"] : []),
+      "Presentación final lista para regalar"
+    ];
+  },
+  launchChecklist: ({ input, digital }, photoCount, categoryItems) => {
+    if (digital) {
+      return [
+        `Subir las ${photoCount} maquetas antes de publicar`,
+        "Concentrar palabras clave en los primeros 40 caracteres del título",
+        "Subir los archivos finales y probar la descarga como comprador",
+        "Indicar formatos y licencia en el primer párrafo de la descripción",
+        ...categoryItems,
+        "Fijar una pregunta frecuente en el anuncio de la tienda",
+        "Revisar clics y favoritos después de 24 horas"
+      ];
+    }
+
+    return [
+      `Subir las ${photoCount} fotos antes de publicar`,
+      "Concentrar palabras clave en los primeros 40 caracteres del título",
+      input.productKind === "made_to_order"
+        ? "Indicar los plazos de fabricación y envío en el primer párrafo de la descripción"
+        : "Indicar el plazo de envío en el primer párrafo de la descripción",
+      ...categoryItems,
+      "Fijar una pregunta frecuente en el anuncio de la tienda",
+      "Revisar clics y favoritos después de 24 horas"
+    ];
+  },
+  tones: TONES,
+  variantRationale: (context, strategy, leadLength) => {
+    if (strategy === "benefit_first") {
+      if (context.input.personalization) {
+        return "Empieza por la personalización para atraer más clics de quienes buscan regalos a medida.";
+      }
+      return context.digital
+        ? "Empieza por la entrega inmediata para atraer a quienes lo necesitan hoy mismo."
+        : `Empieza por la promesa «${benefit(context).toLowerCase()}» para atraer a quienes comparan opciones.`;
+    }
+    if (strategy === "audience_first") {
+      return "Empieza por el destinatario para que las búsquedas de regalos vean enseguida para quién es.";
+    }
+    if (strategy === "long_tail") {
+      return "Encadena palabras clave secundarias separadas por comas para cubrir más búsquedas de cola larga.";
+    }
+    return `Coloca la palabra clave principal al inicio para que los primeros ${leadLength} caracteres coincidan con las búsquedas.`;
+  },
+  rubric: {
+    tagsEvidence: (filled, max) => `${filled} de ${max} espacios de etiquetas ocupados`,
+    tagsAction: (missing) =>
+      `Añade palabras clave para ocupar ${missing} espacio${missing === 1 ? "" : "s"} de etiqueta más`,
+    keywordsEvidence: (count) =>
+      `${count} palabra${count === 1 ? "" : "s"} clave secundaria${count === 1 ? "" : "s"} indicada${count === 1 ? "" : "s"}`,
+    keywordsAction: (missing) =>
+      `Añade ${missing} palabra${missing === 1 ? "" : "s"} clave secundaria${missing === 1 ? "" : "s"} más`,
+    placementEvidence: (position) =>
+      position
+        ? `La palabra clave principal empieza en el carácter ${position} del título`
+        : "Falta la palabra clave principal en el título",
+    placementAction: (keyword, leadLength) =>
+      `Coloca la palabra clave principal «${keyword}» en los primeros ${leadLength} caracteres del título`,
+    personalizationEvidence: (offered) => (offered ? "Personalización disponible" : "Solo listo para enviar"),
+    personalizationAction: "Ofrece personalización para captar búsquedas de regalos a medida",
+    materialsEvidence: (count) => `${count} material${count === 1 ? "" : "es"} indicado${count === 1 ? "" : "s"}`,
+    materialsAction: (missing) => `Añade ${missing} material${missing === 1 ? "" : "es"} más`,
+    processingEvidence: (digital, count) =>
+      digital ? "Entrega por descarga inmediata" : `Plazo de preparación de ${days(count)}`,
+    processingAction: (maxDays) => `Reduce el plazo de preparación a ${days(maxDays)} como máximo`
+  },
+  textSuggestions: {
+    sentenceLength: (average, max) =>
+      `Las frases tienen una media de ${average} palabras; divídelas en ${max} palabras o menos.`,
+    readingEase: (score) =>
+      `La descripción es difícil de leer (legibilidad Flesch ${score}); usa palabras y frases más cortas.`,
+    passiveVoice: (count) =>
+      `Reescribe ${count} frase${count === 1 ? "" : "s"} pasiva${count === 1 ? "" : "s"} en voz activa.`,
+    keywordMissing: (keyword) => `Usa la palabra clave principal «${keyword}» en la descripción.`,
+    keywordDensity: (keyword, density, max) =>
+      `«${keyword}» supone el ${density} % de las palabras; mantenlo por debajo del ${max} % para evitar el exceso de palabras clave.`,
+    snippet: (keyword, length) =>
+      `Menciona «${keyword}» en los primeros ${length} caracteres; Etsy los muestra bajo el título en la búsqueda.`
+  }
+};
@@ -0,0 +1,352 @@
+import { deliveryRanges, variationChoices, type TemplateCatalog, type TemplateContext } from "./catalog.js";
+import type { ListingTone } from "./listing.js";
+import { formatMoney } from "./pricing.js";
+
+const TONES: Record<ListingTone, string> = {
+  playful: "ludique",
+  minimal: "minimaliste",
+  luxury: "luxueux",
+  warm: "chaleureux"
+};
+
+function toSentenceCase(value: string): string {
+  const trimmed = value.trim().replace(/\s+/g, " ");
+  return trimmed.charAt(0).toUpperCase() + trimmed.slice(1);
+}
+
+function days(count: number): string {
+  return `${count} jour${count === 1 ? "" : "s"} ouvré${count === 1 ? "" : "s"}`;
+}
+
+function benefit({ input }: TemplateContext): string {
+  if (input.personalization) {
+    return "Personnalisé";
+  }
+  if (input.productKind === "digital_download") {
+    return "Téléchargement immédiat";
+  }
+  if (input.productKind === "printable") {
+    return "À imprimer";
+  }
+  if (input.productKind === "made_to_order") {
+    return "Fait sur commande";
+  }
+  return "Prêt à expédier";
+}
+
+function hookLine({ input, keyword }: TemplateContext): string {
+  if (input.tone === "playful") {
+    return `${keyword} de ${input.shopName} : une touche de bonne humeur pour ${input.targetAudience}.`;
+  }
+  if (input.tone === "minimal") {
+    return `${keyword} de ${input.shopName}. Simple, pratique et pensé pour ${input.targetAudience}.`;
+  }
+  if (input.tone === "luxury") {
+    return `${keyword} de ${input.shopName}, façonné avec soin pour ${input.targetAudience} en quête d'une qualité durable.`;
+  }
+  return `${keyword} de ${input.shopName}, créé avec soin pour ${input.targetAudience}.`;
+}
+
+function conversionLine({ input, digital }: TemplateContext): string {
+  if (input.personalization) {
+    return "Ajoutez un prénom, une date ou un court message pour en faire une pièce unique.";
+  }
+  if (digital) {
+    return "Téléchargez-le juste après l'achat et utilisez-le dès aujourd'hui.";
+  }
+  if (input.productKind === "made_to_order") {
+    return "Chaque pièce est fabriquée pour vous après votre commande.";
+  }
+  return "Prêt à expédier, il sera vite en route.";
+}
+
+export const FR_CATALOG: TemplateCatalog = {
+  language: "fr",
+  titleCase: toSentenceCase,
+  benefit,
+  title: {
+    giftFor: (audience) => `Cadeau pour ${audience.toLowerCase()}`,
+    audienceGift: (audience) => `Cadeau ${audience.toLowerCase()}`,
+    benefitGiftFor: (lead, audience) => `${lead} – cadeau pour ${audience.toLowerCase()}`,
+    fallback: "Best-seller Etsy"
+  },
+  tags: {
+    benefit: (context) => (context.input.personalization ? "cadeau personnalisé" : benefit(context).toLowerCase()),
+    gift: (subject) => `cadeau ${subject}`,
+    decor: (word) => `déco ${word}`,
+    idea: (word) => `idée ${word}`,
+    seller: "boutique etsy",
+    handmadeGift: "cadeau fait main",
+    fallback: ["fait main", "cadeau pour elle", "cadeau pour lui", "déco maison", "sur commande", "petite entreprise"]
+  },
+  description: (context) => {
+    const { input, digital } = context;
+    const madeToOrder = input.productKind === "made_to_order";
+    const choices = variationChoices(context, "et");
+    return [
+      { id: "hook", heading: "Aperçu", text: `${hookLine(context)} ${conversionLine(context)}` },
+      {
+        id: "details",
+        heading: "Détails",
+        text: digital
+          ? `Il s'agit d'un produit numérique (${input.productType}) : vous recevez les fichiers, pas un article physique.`
+          : `Chaque article (${input.productType}) est ${madeToOrder ? "fabriqué sur commande" : "prêt à expédier"}.${choices ? ` Choisissez : ${choices}.` : ""}`
+      },
+      {
+        id: "materials",
+        heading: digital ? "Fichiers" : "Matériaux",
+        text: digital
+          ? "Fichiers haute résolution, disponibles dans vos achats Etsy."
+          : input.materials.length
+            ? `Matériaux : ${input.materials.slice(0, 5).join(", ")}.`
+            : "Les matériaux sont choisis pour leur durabilité et une finition régulière."
+      },
+      {
+        id: "shipping",
+        heading: digital ? "Livraison" : "Expédition",
+        text: digital
+          ? "Les fichiers sont disponibles dès la confirmation du paiement. Aucun article physique n'est expédié."
+          : `${madeToOrder ? "Délai de fabrication" : "Délai de préparation"} : ${days(input.processingTimeDays)} avant l'expédition.`
+      },
+      {
+        id: "care",
+        heading: "Entretien",
+        text: digital
+          ? `Conservez une copie de sauvegarde de vos fichiers.${input.productKind === "printable" ? " Imprimez sur un papier mat épais pour un meilleur rendu." : ""}`
+          : "Nettoyez avec un chiffon doux et sec et évitez une exposition prolongée au soleil."
+      },
+      {
+        id: "personalization",
+        heading: "Personnalisation",
+        text: input.personalization
+          ? "Indiquez prénoms, dates ou un court texte dans le champ de personnalisation lors de la commande. Un aperçu peut être demandé avant la fabrication."
+          : `Envie d'autre chose ? Écrivez à la boutique avant de commander pour ${digital ? "un format ou une mise en page" : "une taille ou une couleur"} sur mesure.`
+      }
+    ];
+  },
+  highlights: ({ input, digital, keyword }, tagCount) => [
+    `Titre ${keyword} optimisé pour la recherche Etsy`,
+    `${tagCount} mots-clés inclus en respectant la limite de 20 caractères`,
+    `Ton ${TONES[input.tone]} pour une voix de marque cohérente`,
+    digital
+      ? "Livraison immédiate par téléchargement indiquée dès le début"
+      : `Délai de préparation de ${days(input.processingTimeDays)} indiqué dès le début`,
+    input.personalization
+      ? "Appel à la personnalisation dans le titre et la FAQ"
+      : digital
+        ? "Téléchargement immédiat mis en avant dans le titre et la FAQ"
+        : "Expédition rapide mise en avant dans le titre et la FAQ"
+  ],
+  faq: ({ input, digital }) => {
+    const photoFaq = {
+      question: "Que montrer sur la première photo du produit ?",
+      answer: digital
+        ? `Commencez par une maquette soignée de ${input.productType}, puis montrez des pages d'aperçu et la liste claire des fichiers inclus pour ${input.targetAudience}.`
+        : `Commencez par une photo principale nette de ${input.productType}, puis montrez l'échelle, les matériaux et une photo d'ambiance pour ${input.targetAudience}.`
+    };
+    const customFaq = {
+      question: input.personalization
+        ? "Quelle personnalisation puis-je demander ?"
+        : "Puis-je demander une variante personnalisée ?",
+      answer: input.personalization
+        ? "Indiquez des prénoms, des dates ou un court texte dans le champ de personnalisation. Un aperçu peut être demandé avant la fabrication."
+        : digital
+          ? "Oui. Contactez la boutique avant l'achat pour toute demande de format, de couleur ou de mise en page et nous confirmerons la faisabilité."
+          : "Oui. Contactez la boutique avant l'achat pour toute demande de taille, de couleur ou d'emballage et nous confirmerons la disponibilité."
+    };
+
+    if (digital) {
+      return [
+        {
+          question: "Comment vais-je recevoir mes fichiers ?",
+          answer:
+            "Il s'agit d'un téléchargement immédiat. Les fichiers apparaissent dans vos achats Etsy dès la validation du paiement ; aucun article physique n'est expédié."
+        },
+        {
+          question: "Quels formats de fichiers sont inclus ?",
+          answer:
+            input.productKind === "printable"
+              ? "Vous recevez des fichiers PDF et JPG haute résolution aux formats de papier et de cadre courants, prêts à imprimer chez vous ou chez un imprimeur."
+              : "Vous recevez des fichiers PDF et PNG haute résolution, ainsi que des liens de modèles lorsque le produit utilise une application en ligne."
+        },
+        {
+          question: "Puis-je utiliser ces fichiers à des fins commerciales ?",
+          answer:
+            "Les fichiers sont destinés à un usage personnel uniquement. La revente, le partage ou la redistribution sont interdits ; contactez la boutique pour une licence commerciale."
+        },
+        customFaq,
+        photoFaq
+      ];
+    }
+
+    return [
+      input.productKind === "made_to_order"
+        ? {
+            question: "Combien de temps faut-il pour fabriquer ma commande ?",
+            answer: `Chaque pièce est fabriquée sur commande en ${days(input.processingTimeDays)} avant l'expédition. Les demandes urgentes peuvent être discutées par message avant l'achat.`
+          }
+        : {
+            question: "En combien de temps ma commande est-elle expédiée ?",
+            answer: `Le délai de préparation est de ${days(input.processingTimeDays)}. Les demandes urgentes peuvent être discutées par message avant l'achat.`
+          },
+      customFaq,
+      photoFaq
+    ];
+  },
+  variationFaq: (context, table) => ({
+    question: "Quelles options puis-je choisir ?",
+    answer: [
+      `Choisissez ${variationChoices(context, "et")} dans les menus déroulants avant de commander.`,
+      table.pricedBy ? `Le prix dépend de l'option « ${table.pricedBy.toLowerCase()} » choisie.` : "",
+      table.stockedBy
+        ? `Le stock est suivi par ${table.stockedBy.toLowerCase()} ; les options épuisées disparaissent automatiquement.`
+        : ""
+    ]
+      .filter(Boolean)
+      .join(" ")
+  }),
+  shippingFaq: ({ input }, plan) => [
+    {
+      question: "D'où part ma commande et quand arrivera-t-elle ?",
+      answer: `Les commandes partent de ${plan.originCountry} après ${days(input.processingTimeDays)} de préparation. Livraison estimée en jours ouvrés : ${deliveryRanges(plan.estimates)}.`
+    },
+    ...(plan.freeShippingThreshold != null
+      ? [
+          {
+            question: "La livraison est-elle offerte ?",
+            answer: `Oui. La livraison est offerte dès ${formatMoney(plan.freeShippingThreshold, plan.currency)} d'achat.`
+          }
+        ]
+      : []),
+    ...(plan.upgrades.length
+      ? [
+          {
+            question: "Puis-je choisir une livraison plus rapide ?",
+            answer: `Oui. Choisissez une option lors de la commande : ${plan.upgrades
+              .map(
+                (upgrade) =>
+                  `${upgrade.service} (${upgrade.transitDays[0]} à ${upgrade.transitDays[1]} jours ouvrés d'acheminement${upgrade.price != null ? `, +${formatMoney(upgrade.price, plan.currency)}` : ""})`
+              )
+              .join(" ; ")}.`
+          }
+        ]
+      : [])
+  ],
+  shopPolicies: {
+    returnsHeading: "Retours",
+    returnsQuestion: "Quelle est votre politique de retour ?",
+    careQuestion: "Comment entretenir ma commande ?",
+    shippingQuestion: "Comment ma commande est-elle envoyée ?"
+  },
+  photoShotList: ({ input, digital, product, audience }) => {
+    if (digital) {
+      return [
+        `Maquette mise en scène : ${product} (photo principale)`,
+        "Pages d'aperçu montrant les mises en page intérieures",
+        input.productKind === "printable" ? "Maquette imprimée et encadrée au mur" : "Maquette sur tablette et smartphone",
+        "Contenu inclus : visuel listant les fichiers et formats",
+        input.personalization
+          ? "Exemple personnalisé avec un prénom et une date réalistes"
+          : "Visuel expliquant le téléchargement immédiat",
+        `Photo d'ambiance pour ${audience.toLowerCase()}`,
+        ...(input.productKind === "printable"
+          ? ["Tableau des tailles d'impression"]
+          : input.variations?.length
+            ? ["Grille des couleurs ou thèmes disponibles"]
+            : []),
+        "Gros plan sur la typographie et la mise en page"
+      ];
+    }
+
+    return [
+      `${product} sur fond uni (photo principale)`,
+      "Gros plan sur la texture et la finition",
+      input.personalization
+        ? "Exemple personnalisé avec un prénom et une date réalistes"
+        : input.productKind === "made_to_order"
+          ? "Photo de fabrication à l'atelier"
+          : "Emballage prêt à expédier",
+      "Repère d'échelle en main ou à côté d'un objet courant",
+      `Photo d'ambiance pour ${audience.toLowerCase()}`,
+      input.materials.length
+        ? `Matériaux à plat : ${input.materials.slice(0, 4).join(", ")}`
+        : "Matériaux et composants à plat",
+      ...(input.variations?.length ? ["Grille comparative des couleurs ou variantes"] : []),
+      "Présentation finale prête à offrir"
+    ];
+  },
+  launchChecklist: ({ input, digital }, photoCount, categoryItems) => {
+    if (digital) {
+      return [
+        `Téléverser les ${photoCount} maquettes avant la publication`,
+        "Placer les mots-clés dans les 40 premiers caractères du titre",
+        "Téléverser les fichiers finaux et tester le téléchargement comme un acheteur",
+        "Indiquer les formats et la licence dans le premier paragraphe",
+        ...categoryItems,
+        "Épingler une question fréquente dans l'annonce de la boutique",
+        "Suivre les clics et favoris après 24 heures"
+      ];
+    }
+
+    return [
+      `Téléverser les ${photoCount} photos avant la publication`,
+      "Placer les mots-clés dans les 40 premiers caractères du titre",
+      input.productKind === "made_to_order"
+        ? "Indiquer les délais de fabrication et d'expédition dans le premier paragraphe"
+        : "Indiquer le délai d'expédition dans le premier paragraphe",
+      ...categoryItems,
+      "Épingler une question fréquente dans l'annonce de la boutique",
+      "Suivre les clics et favoris après 24 heures"
+    ];
+  },
+  tones: TONES,
+  variantRationale: (context, strategy, leadLength) => {
+    if (strategy === "benefit_first") {
+      if (context.input.personalization) {
+        return "Met la personnalisation en avant pour attirer plus de clics des acheteurs de cadeaux sur mesure.";
+      }
+      return context.digital
+        ? "Met la livraison immédiate en avant pour attirer les acheteurs qui en ont besoin aujourd'hui."
+        : `Met la promesse « ${benefit(context).toLowerCase()} » en avant pour attirer les acheteurs qui comparent.`;
+    }
+    if (strategy === "audience_first") {
+      return "Commence par le destinataire pour que les recherches de cadeaux voient tout de suite à qui il s'adresse.";
+    }
+    if (strategy === "long_tail") {
+      return "Enchaîne les mots-clés secondaires séparés par des virgules pour couvrir plus de recherches de longue traîne.";
+    }
+    return `Place le mot-clé principal en tête pour que les ${leadLength} premiers caractères correspondent aux recherches.`;
+  },
+  rubric: {
+    tagsEvidence: (filled, max) => `${filled} emplacements de mots-clés sur ${max} remplis`,
+    tagsAction: (missing) =>
+      `Ajoutez des mots-clés pour remplir ${missing} emplacement${missing === 1 ? "" : "s"} de plus`,
+    keywordsEvidence: (count) => `${count} mot${count === 1 ? "" : "s"}-clé${count === 1 ? "" : "s"} secondaire${count === 1 ? "" : "s"} fourni${count === 1 ? "" : "s"}`,
+    keywordsAction: (missing) =>
+      `Ajoutez ${missing} mot${missing === 1 ? "" : "s"}-clé${missing === 1 ? "" : "s"} secondaire${missing === 1 ? "" : "s"} de plus`,
+    placementEvidence: (position) =>
+      position ? `Le mot-clé principal commence au caractère ${position} du titre` : "Mot-clé principal absent du titre",
+    placementAction: (keyword, leadLength) =>
+      `Placez le mot-clé principal « ${keyword} » dans les ${leadLength} premiers caractères du titre`,
+    personalizationEvidence: (offered) => (offered ? "Personnalisation proposée" : "Prêt à expédier uniquement"),
+    personalizationAction: "Proposez la personnalisation pour capter les recherches de cadeaux sur mesure",
+    materialsEvidence: (count) => `${count} matériau${count === 1 ? "" : "x"} indiqué${count === 1 ? "" : "s"}`,
+    materialsAction: (missing) => `Ajoutez ${missing} matériau${missing === 1 ? "" : "x"} de plus`,
+    processingEvidence: (digital, count) =>
+      digital ? "Livraison par téléchargement immédiat" : `Délai de préparation de ${days(count)}`,
+    processingAction: (maxDays) => `Réduisez le délai de préparation à ${days(maxDays)} maximum`
+  },
+  textSuggestions: {
+    sentenceLength: (average, max) =>
+      `Les phrases comptent en moyenne ${average} mots ; coupez-les à ${max} mots ou moins.`,
+    readingEase: (score) =>
+      `La description est difficile à lire (indice de lisibilité Flesch ${score}) ; utilisez des mots et des phrases plus courts.`,
+    passiveVoice: (count) =>
+      `Réécrivez ${count} phrase${count === 1 ? "" : "s"} passive${count === 1 ? "" : "s"} à la voix active.`,
+    keywordMissing: (keyword) => `Utilisez le mot-clé principal « ${keyword} » dans la description.`,
+    keywordDensity: (keyword, density, max) =>
+      `« ${keyword} » représente ${density} % des mots ; restez sous ${max} % pour éviter le bourrage de mots-clés.`,
+    snippet: (keyword, length) =>
+      `Mentionnez « ${keyword} » dans les ${length} premiers caractères ; Etsy les affiche sous le titre dans la recherche.`
+  }
+};
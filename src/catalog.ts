@@ -0,0 +1,121 @@
+import { DE_CATALOG } from "./catalog-de.js";
+import { EN_CATALOG } from "./catalog-en.js";
+import { ES_CATALOG } from "./catalog-es.js";
+import { FR_CATALOG } from "./catalog-fr.js";
+import type { ListingInput, ListingTone, TitleStrategy, VariationTable } from "./listing.js";
+import type { DeliveryEstimate, ShippingPlan } from "./shipping.js";
+
+export type ListingLanguage = "en" | "de" | "fr" | "es";
+
+export const LISTING_LANGUAGES: ListingLanguage[] = ["en", "de", "fr", "es"];
+
+export type FaqEntry = { question: string; answer: string };
+
+export type DescriptionSectionId =
+  | "hook"
+  | "details"
+  | "materials"
+  | "shipping"
+  | "care"
+  | "personalization"
+  | "returns";
+
+export type DescriptionSection = { id: DescriptionSectionId; heading: string; text: string };
+
+export type TemplateContext = {
+  input: ListingInput;
+  digital: boolean;
+  keyword: string;
+  product: string;
+  audience: string;
+};
+
+export type TemplateCatalog = {
+  language: ListingLanguage;
+  titleCase: (value: string) => string;
+  benefit: (context: TemplateContext) => string;
+  title: {
+    giftFor: (audience: string) => string;
+    audienceGift: (audience: string) => string;
+    benefitGiftFor: (benefit: string, audience: string) => string;
+    fallback: string;
+  };
+  tags: {
+    benefit: (context: TemplateContext) => string;
+    gift: (subject: string) => string;
+    decor: (word: string) => string;
+    idea: (word: string) => string;
+    seller: string;
+    handmadeGift: string;
+    fallback: string[];
+  };
+  description: (context: TemplateContext) => DescriptionSection[];
+  highlights: (context: TemplateContext, tagCount: number) => string[];
+  faq: (context: TemplateContext) => FaqEntry[];
+  variationFaq: (context: TemplateContext, table: VariationTable) => FaqEntry;
+  shippingFaq: (context: TemplateContext, plan: ShippingPlan) => FaqEntry[];
+  shopPolicies: {
+    returnsHeading: string;
+    returnsQuestion: string;
+    careQuestion: string;
+    shippingQuestion: string;
+  };
+  photoShotList: (context: TemplateContext) => string[];
+  launchChecklist: (context: TemplateContext, photoCount: number, categoryItems: string[]) => string[];
+  tones: Record<ListingTone, string>;
+  variantRationale: (context: TemplateContext, strategy: TitleStrategy, leadLength: number) => string;
+  rubric: {
+    tagsEvidence: (filled: number, max: number) => string;
+    tagsAction: (missing: number) => string;
+    keywordsEvidence: (count: number) => string;
+    keywordsAction: (missing: number) => string;
+    placementEvidence: (position: number | undefined) => string;
+    placementAction: (keyword: string, leadLength: number) => string;
+    personalizationEvidence: (offered: boolean) => string;
+    personalizationAction: string;
+    materialsEvidence: (count: number) => string;
+    materialsAction: (missing: number) => string;
+    processingEvidence: (digital: boolean, days: number) => string;
+    processingAction: (maxDays: number) => string;
+  };
+  textSuggestions: {
+    sentenceLength: (average: number, max: number) => string;
+    readingEase: (score: number) => string;
+    passiveVoice: (count: number) => string;
+    keywordMissing: (keyword: string) => string;
+    keywordDensity: (keyword: string, density: number, max: number) => string;
+    snippet: (keyword: string, length: number) => string;
+  };
+};
+
+const CATALOGS: Record<ListingLanguage, TemplateCatalog> = {
+  en: EN_CATALOG,
+  de: DE_CATALOG,
+  fr: FR_CATALOG,
+  es: ES_CATALOG
+};
+
+export function variationChoices(context: TemplateContext, conjunction: string): string {
+  return (context.input.variations ?? [])
+    .map((variation) => `${variation.property.toLowerCase()} (${variation.options.map((option) => option.name).join(", ")})`)
+    .join(` ${conjunction} `);
+}
+
+export function deliveryRanges(estimates: DeliveryEstimate[]): string {
+  return estimates
+    .map((estimate) => `${estimate.region} ${estimate.deliveryDays[0]}-${estimate.deliveryDays[1]}`)
+    .join("; ");
+}
+
+export function normalizeLanguage(value: string): ListingLanguage {
+  const normalized = value.trim().toLowerCase().split(/[-_]/)[0];
+  const language = LISTING_LANGUAGES.find((candidate) => candidate === normalized);
+  if (!language) {
+    throw new Error("invalid_language");
+  }
+  return language;
+}
+
+export function catalogFor(language: ListingLanguage): TemplateCatalog {
+  return CATALOGS[language];
+}
@@ -0,0 +1,387 @@
+import type { ListingLanguage } from "./catalog.js";
+
+export type CategoryRuleContent = {
+  faq: Array<{ question: string; answer: string }>;
+  photoShots: string[];
+  tagSeeds: string[];
+  checklist: string[];
+};
+
+export type CategoryRulePack = CategoryRuleContent & {
+  id: string;
+  label: string;
+  aliases: string[];
+  translations?: Partial<Record<ListingLanguage, CategoryRuleContent>>;
+};
+
+const JEWELRY: CategoryRulePack = {
+  id: "jewelry",
+  label: "Jewelry",
+  aliases: ["jewellery", "rings", "necklaces", "earrings", "bracelets"],
+  faq: [
+    {
+      question: "How do I find my ring size?",
+      answer:
+        "Measure a ring that already fits with a ring sizer or the printable guide in the photos. Message the shop with your measurement if you are between sizes."
+    },
+    {
+      question: "Is this safe for sensitive skin or metal allergies?",
+      answer:
+        "Every metal used is listed in the materials section. Message the shop before ordering if you react to nickel, brass, or plated metals and we will confirm suitability."
+    }
+  ],
+  photoShots: ["On-model shot showing size, fit, and drape", "Ring size or chain length reference chart"],
+  tagSeeds: ["jewelry gift", "dainty jewelry", "minimalist jewelry"],
+  checklist: [
+    "Add ring size or chain length variations before publishing",
+    "List every metal in materials for allergy-conscious buyers"
+  ],
+  translations: {
+    de: {
+      faq: [
+        {
+          question: "Wie finde ich meine Ringgröße?",
+          answer:
+            "Miss einen passenden Ring mit einem Ringmaß oder der Vorlage in den Fotos aus. Schreib dem Shop deine Maße, wenn du zwischen zwei Größen liegst."
+        },
+        {
+          question: "Ist der Schmuck für empfindliche Haut oder Metallallergien geeignet?",
+          answer:
+            "Alle verwendeten Metalle stehen bei den Materialien. Schreib dem Shop vor der Bestellung, wenn du auf Nickel, Messing oder beschichtete Metalle reagierst."
+        }
+      ],
+      photoShots: ["Tragefoto mit Größe, Sitz und Fall", "Übersicht der Ringgrößen oder Kettenlängen"],
+      tagSeeds: ["schmuck geschenk", "zarter schmuck", "minimalistischer schmuck"],
+      checklist: [
+        "Ringgrößen oder Kettenlängen als Varianten anlegen",
+        "Alle Metalle bei den Materialien für Allergiker angeben"
+      ]
+    },
+    fr: {
+      faq: [
+        {
+          question: "Comment connaître ma taille de bague ?",
+          answer:
+            "Mesurez une bague qui vous va avec un baguier ou le guide imprimable en photo. Contactez la boutique si vous hésitez entre deux tailles."
+        },
+        {
+          question: "Convient-il aux peaux sensibles ou allergiques aux métaux ?",
+          answer:
+            "Tous les métaux utilisés figurent dans les matériaux. Contactez la boutique avant de commander si vous réagissez au nickel, au laiton ou aux métaux plaqués."
+        }
+      ],
+      photoShots: ["Photo portée montrant taille, tombé et ajustement", "Guide des tailles de bague ou longueurs de chaîne"],
+      tagSeeds: ["cadeau bijou", "bijou délicat", "bijou minimaliste"],
+      checklist: [
+        "Ajouter les tailles de bague ou longueurs de chaîne en variantes",
+        "Lister chaque métal dans les matériaux pour les acheteurs allergiques"
+      ]
+    },
+    es: {
+      faq: [
+        {
+          question: "¿Cómo sé mi talla de anillo?",
+          answer:
+            "Mide un anillo que te quede bien con un medidor o la guía imprimible de las fotos. Escribe a la tienda si estás entre dos tallas."
+        },
+        {
+          question: "¿Es apto para piel sensible o alergias a metales?",
+          answer:
+            "Todos los metales usados aparecen en los materiales. Escribe a la tienda antes de pedir si reaccionas al níquel, al latón o a metales chapados."
+        }
+      ],
+      photoShots: ["Foto puesta mostrando talla, caída y ajuste", "Guía de tallas de anillo o largos de cadena"],
+      tagSeeds: ["regalo joya", "joya delicada", "joya minimalista"],
+      checklist: [
+        "Añadir tallas de anillo o largos de cadena como variantes",
+        "Indicar cada metal en los materiales para compradores con alergias"
+      ]
+    }
+  }
+};
+
+const CANDLES: CategoryRulePack = {
+  id: "candles",
+  label: "Candles",
+  aliases: ["candle", "wax melts", "home fragrance"],
+  faq: [
+    {
+      question: "How long does the candle burn?",
+      answer:
+        "Burn time is listed for each size. Let the first burn reach a full melt pool (about 2-3 hours) and trim the wick to 1/4 inch before every light."
+    },
+    {
+      question: "What safety precautions should I follow?",
+      answer:
+        "Never leave a burning candle unattended. Keep it away from children, pets, drafts, and anything flammable, and burn it on a heat-resistant surface."
+    }
+  ],
+  photoShots: ["Lit candle in a styled setting", "Label close-up with scent notes and safety warning"],
+  tagSeeds: ["scented candle", "candle gift", "soy candle"],
+  checklist: [
+    "State burn time, wax type, and scent notes in the description",
+    "Include the fire safety warning in description and label photos"
+  ],
+  translations: {
+    de: {
+      faq: [
+        {
+          question: "Wie lange brennt die Kerze?",
+          answer:
+            "Die Brenndauer steht bei jeder Größe. Lass die Kerze beim ersten Anzünden 2-3 Stunden brennen, bis die Oberfläche ganz geschmolzen ist, und kürze den Docht vor jedem Anzünden auf 6 mm."
+        },
+        {
+          question: "Welche Sicherheitshinweise sollte ich beachten?",
+          answer:
+            "Brennende Kerzen nie unbeaufsichtigt lassen. Von Kindern, Haustieren, Zugluft und brennbaren Gegenständen fernhalten und auf einer hitzebeständigen Unterlage abbrennen."
+        }
+      ],
+      photoShots: ["Brennende Kerze in gestalteter Umgebung", "Etikett in Nahaufnahme mit Duftnoten und Sicherheitshinweis"],
+      tagSeeds: ["duftkerze", "kerze geschenk", "sojakerze"],
+      checklist: [
+        "Brenndauer, Wachsart und Duftnoten in der Beschreibung nennen",
+        "Brandschutzhinweis in Beschreibung und Etikettenfotos zeigen"
+      ]
+    },
+    fr: {
+      faq: [
+        {
+          question: "Combien de temps dure la bougie ?",
+          answer:
+            "La durée de combustion est indiquée pour chaque taille. Laissez la première combustion former un bain de cire complet (environ 2 à 3 heures) et coupez la mèche à 6 mm avant chaque allumage."
+        },
+        {
+          question: "Quelles précautions de sécurité dois-je suivre ?",
+          answer:
+            "Ne laissez jamais une bougie allumée sans surveillance. Tenez-la éloignée des enfants, des animaux, des courants d'air et de tout objet inflammable, sur une surface résistante à la chaleur."
+        }
+      ],
+      photoShots: ["Bougie allumée dans une mise en scène", "Gros plan de l'étiquette avec notes olfactives et consignes de sécurité"],
+      tagSeeds: ["bougie parfumée", "cadeau bougie", "bougie soja"],
+      checklist: [
+        "Indiquer durée de combustion, type de cire et notes olfactives",
+        "Ajouter les consignes de sécurité dans la description et sur l'étiquette"
+      ]
+    },
+    es: {
+      faq: [
+        {
+          question: "¿Cuánto dura la vela?",
+          answer:
+            "El tiempo de combustión se indica para cada tamaño. Deja que el primer encendido funda toda la superficie (unas 2-3 horas) y recorta la mecha a 6 mm antes de cada uso."
+        },
+        {
+          question: "¿Qué precauciones de seguridad debo seguir?",
+          answer:
+            "No dejes nunca una vela encendida sin vigilancia. Mantenla lejos de niños, mascotas, corrientes y objetos inflamables, sobre una superficie resistente al calor."
+        }
+      ],
+      photoShots: ["Vela encendida en un ambiente decorado", "Primer plano de la etiqueta con notas de aroma y advertencias"],
+      tagSeeds: ["vela aromática", "regalo vela", "vela de soja"],
+      checklist: [
+        "Indicar tiempo de combustión, tipo de cera y notas de aroma",
+        "Incluir la advertencia de seguridad en la descripción y la etiqueta"
+      ]
+    }
+  }
+};
+
+const PRINTS: CategoryRulePack = {
+  id: "prints",
+  label: "Prints and wall art",
+  aliases: ["print", "wall art", "art print", "posters"],
+  faq: [
+    {
+      question: "What sizes are available?",
+      answer:
+        "Prints come in standard sizes such as 5x7, 8x10, 11x14, A4, and A3 so they fit ready-made frames. Custom sizes can be requested in messages."
+    },
+    {
+      question: "Is a frame included?",
+      answer: "Frames are not included unless the listing says so. Framed photos show styling ideas only."
+    }
+  ],
+  photoShots: ["Framed print on a wall with furniture for scale", "Size comparison chart across available dimensions"],
+  tagSeeds: ["wall art", "art print", "gallery wall"],
+  checklist: [
+    "List every print size as a variation before publishing",
+    "Note that frames are not included in description and photos"
+  ],
+  translations: {
+    de: {
+      faq: [
+        {
+          question: "Welche Größen gibt es?",
+          answer:
+            "Die Drucke gibt es in Standardgrößen wie 13x18, 20x25, A4 und A3, passend für handelsübliche Rahmen. Sondergrößen können per Nachricht angefragt werden."
+        },
+        {
+          question: "Ist ein Rahmen enthalten?",
+          answer: "Rahmen sind nur enthalten, wenn es im Inserat steht. Gerahmte Fotos dienen nur als Dekoidee."
+        }
+      ],
+      photoShots: ["Gerahmter Druck an der Wand mit Möbeln als Größenvergleich", "Größenvergleich aller verfügbaren Formate"],
+      tagSeeds: ["wandkunst", "kunstdruck", "bilderwand"],
+      checklist: [
+        "Jede Druckgröße als Variante anlegen",
+        "In Beschreibung und Fotos angeben, dass kein Rahmen enthalten ist"
+      ]
+    },
+    fr: {
+      faq: [
+        {
+          question: "Quelles tailles sont disponibles ?",
+          answer:
+            "Les affiches existent en tailles standard comme 13x18, 20x25, A4 et A3 pour s'adapter aux cadres du commerce. Les tailles sur mesure peuvent être demandées par message."
+        },
+        {
+          question: "Le cadre est-il inclus ?",
+          answer: "Le cadre n'est pas inclus sauf mention contraire. Les photos encadrées servent uniquement d'idée de décoration."
+        }
+      ],
+      photoShots: ["Affiche encadrée au mur avec un meuble pour l'échelle", "Comparatif des tailles disponibles"],
+      tagSeeds: ["art mural", "affiche déco", "mur de cadres"],
+      checklist: [
+        "Ajouter chaque taille d'impression en variante",
+        "Préciser que le cadre n'est pas inclus dans la description et les photos"
+      ]
+    },
+    es: {
+      faq: [
+        {
+          question: "¿Qué tamaños hay disponibles?",
+          answer:
+            "Las láminas vienen en tamaños estándar como 13x18, 20x25, A4 y A3 para encajar en marcos comerciales. Los tamaños a medida se pueden pedir por mensaje."
+        },
+        {
+          question: "¿Incluye marco?",
+          answer: "El marco no se incluye salvo que el anuncio lo indique. Las fotos enmarcadas son solo una idea decorativa."
+        }
+      ],
+      photoShots: ["Lámina enmarcada en la pared con muebles como escala", "Comparativa de todos los tamaños disponibles"],
+      tagSeeds: ["arte de pared", "lámina decorativa", "pared de cuadros"],
+      checklist: [
+        "Añadir cada tamaño de impresión como variante",
+        "Indicar en la descripción y las fotos que el marco no se incluye"
+      ]
+    }
+  }
+};
+
+const APPAREL: CategoryRulePack = {
+  id: "apparel",
+  label: "Apparel",
+  aliases: ["clothing", "shirts", "t-shirts", "hoodies"],
+  faq: [
+    {
+      question: "How do I choose my size?",
+      answer:
+        "Compare the size chart in the photos with a garment you already own, measured flat. Size up for a relaxed fit and message the shop if you are between sizes."
+    },
+    {
+      question: "How should I wash it?",
+      answer: "Wash cold inside out with similar colors and tumble dry low or hang dry to keep the print and fit."
+    }
+  ],
+  photoShots: ["Size chart with chest, length, and sleeve measurements", "On-model fit shot from front and back"],
+  tagSeeds: ["unisex clothing", "clothing gift", "comfy outfit"],
+  checklist: [
+    "Upload a size chart as a listing photo",
+    "Add size and color variations before publishing"
+  ],
+  translations: {
+    de: {
+      faq: [
+        {
+          question: "Wie wähle ich meine Größe?",
+          answer:
+            "Vergleiche die Größentabelle in den Fotos mit einem flach ausgemessenen Kleidungsstück, das du schon besitzt. Für einen lockeren Sitz eine Größe größer wählen."
+        },
+        {
+          question: "Wie soll ich es waschen?",
+          answer: "Kalt auf links mit ähnlichen Farben waschen und schonend trocknen oder aufhängen, damit Druck und Passform erhalten bleiben."
+        }
+      ],
+      photoShots: ["Größentabelle mit Brustweite, Länge und Ärmellänge", "Tragefoto von vorne und hinten"],
+      tagSeeds: ["unisex kleidung", "kleidung geschenk", "bequemes outfit"],
+      checklist: [
+        "Eine Größentabelle als Listingfoto hochladen",
+        "Größen- und Farbvarianten vor der Veröffentlichung anlegen"
+      ]
+    },
+    fr: {
+      faq: [
+        {
+          question: "Comment choisir ma taille ?",
+          answer:
+            "Comparez le guide des tailles en photo avec un vêtement que vous possédez, mesuré à plat. Prenez une taille au-dessus pour une coupe ample."
+        },
+        {
+          question: "Comment le laver ?",
+          answer: "Lavez à froid sur l'envers avec des couleurs similaires et séchez à basse température ou à l'air libre pour préserver l'impression et la coupe."
+        }
+      ],
+      photoShots: ["Guide des tailles avec tour de poitrine, longueur et manches", "Photo portée de face et de dos"],
+      tagSeeds: ["vêtement unisexe", "cadeau vêtement", "tenue confortable"],
+      checklist: [
+        "Ajouter un guide des tailles parmi les photos",
+        "Créer les variantes de taille et de couleur avant la publication"
+      ]
+    },
+    es: {
+      faq: [
+        {
+          question: "¿Cómo elijo mi talla?",
+          answer:
+            "Compara la tabla de tallas de las fotos con una prenda tuya medida en plano. Elige una talla más para un ajuste holgado."
+        },
+        {
+          question: "¿Cómo debo lavarlo?",
+          answer: "Lava en frío del revés con colores similares y seca a baja temperatura o al aire para conservar el estampado y el ajuste."
+        }
+      ],
+      photoShots: ["Tabla de tallas con pecho, largo y manga", "Foto puesta de frente y de espalda"],
+      tagSeeds: ["ropa unisex", "regalo ropa", "outfit cómodo"],
+      checklist: [
+        "Subir una tabla de tallas como foto del anuncio",
+        "Crear variantes de talla y color antes de publicar"
+      ]
+    }
+  }
+};
+
+const RULE_PACKS = new Map<string, CategoryRulePack>();
+
+function categoryKey(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_]+/g, " ");
+}
+
+export function registerCategoryRulePack(pack: CategoryRulePack): void {
+  for (const [key, existing] of RULE_PACKS) {
+    if (existing.id === pack.id) {
+      RULE_PACKS.delete(key);
+    }
+  }
+  for (const key of [pack.id, ...pack.aliases]) {
+    RULE_PACKS.set(categoryKey(key), pack);
+  }
+}
+
+export function findCategoryRulePack(category: string | undefined): CategoryRulePack | undefined {
+  if (!category) {
+    return undefined;
+  }
+  return RULE_PACKS.get(categoryKey(category));
+}
+
+export function categoryContent(pack: CategoryRulePack, language: ListingLanguage): CategoryRuleContent {
+  return pack.translations?.[language] ?? pack;
+}
+
+export function listCategoryRulePacks(): CategoryRulePack[] {
+  return [...new Set(RULE_PACKS.values())];
+}
+
+for (const pack of [JEWELRY, CANDLES, PRINTS, APPAREL]) {
+  registerCategoryRulePack(pack);
+}
@@ -0,0 +1,118 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { configureComplianceRules, DEFAULT_COMPLIANCE_RULES, lintCompliance } from "./compliance.js";
+import { applyListingVariant, buildListingPack, sanitizeListingInput, type ListingInput } from "./listing.js";
+
+const input = sanitizeListingInput({
+  shopName: "Copper Pine Studio",
+  productType: "ring dish",
+  targetAudience: "bridal party",
+  primaryKeyword: "personalized ring dish",
+  supportingKeywords: ["engagement gift", "bridal shower gift"],
+  materials: ["ceramic", "glaze"],
+  tone: "warm",
+  priceBand: "$20-$35",
+  processingTimeDays: 3,
+  personalization: true,
+  locale: "en-US"
+});
+
+function listing(title: string, description = "Made to order in our studio.") {
+  return { title, tags: ["ring dish"], description, highlights: [], faq: [] };
+}
+
+test("buildListingPack flags trademarks and health claims and drops the score for blocking findings", () => {
+  const clean = buildListingPack(input);
+  const risky = buildListingPack(
+    sanitizeListingInput({
+      ...input,
+      primaryKeyword: "harry potter ring dish",
+      supportingKeywords: ["FDA approved", "non-toxic glaze"]
+    })
+  );
+
+  assert.deepEqual(clean.compliance, []);
+  assert.deepEqual(
+    risky.compliance.map((finding) => [finding.rule, finding.severity, finding.term]),
+    [
+      ["trademark", "blocking", "harry potter"],
+      ["health_claim", "blocking", "fda approved"],
+      ["safety_claim", "warning", "non-toxic"]
+    ]
+  );
+  assert.ok(risky.compliance[0].fields.includes("input.primaryKeyword"));
+  assert.ok(risky.compliance[0].fields.includes("title"));
+  assert.ok(risky.score <= clean.score - 40);
+  assert.equal(risky.recommendations[0].factor, "Policy compliance");
+  assert.equal(risky.scoreBreakdown.at(-1)?.earned, -40);
+});
+
+test("lintCompliance catches shouting, keyword stuffing and misleading handmade claims", () => {
+  const shouting = lintCompliance(input, listing("HANDMADE CERAMIC RING DISH Gift"));
+  const stuffed = lintCompliance(input, listing("Ring Dish, Ring Holder, Gold Ring Tray, Ring Dish Gift"));
+  const resold = lintCompliance(input, listing("Handmade Ring Dish", "Wholesale lots ship from our supplier."));
+  const digital: ListingInput = { ...input, productKind: "digital_download" };
+
+  assert.deepEqual(
+    shouting.map((finding) => [finding.rule, finding.severity]),
+    [["excessive_caps", "blocking"]]
+  );
+  assert.deepEqual(
+    lintCompliance(input, listing("Ring Dish in GOLD and SAGE")).map((finding) => finding.severity),
+    ["warning"]
+  );
+  assert.deepEqual(
+    lintCompliance(input, listing("SVG Cut File for DIY Ring Dish")).map((finding) => finding.rule),
+    []
+  );
+  assert.deepEqual(
+    stuffed.map((finding) => [finding.rule, finding.term]),
+    [["repeated_words", "ring"]]
+  );
+  assert.deepEqual(resold.map((finding) => [finding.rule, finding.severity, finding.term]), [
+    ["misleading_handmade", "blocking", "wholesale"]
+  ]);
+  assert.deepEqual(
+    lintCompliance(digital, listing("Handmade Ring Dish Printable")).map((finding) => finding.severity),
+    ["warning"]
+  );
+});
+
+test("configureComplianceRules swaps in a local trademark list", () => {
+  try {
+    configureComplianceRules({ trademarks: ["Copper Pine"] });
+    assert.deepEqual(
+      lintCompliance(input, listing("Ring Dish")).map((finding) => [finding.term, finding.fields]),
+      [["copper pine", ["input.shopName"]]]
+    );
+    assert.throws(() => configureComplianceRules({ trademarks: "disney" }), /invalid_complianceRules/);
+  } finally {
+    assert.deepEqual(configureComplianceRules({}), DEFAULT_COMPLIANCE_RULES);
+  }
+});
+
+test("buildListingPack avoids repeated title words and ranks variants by their compliance-adjusted score", () => {
+  const mugInput = sanitizeListingInput({
+    shopName: "Self Test Studio",
+    productType: "ceramic mug",
+    targetAudience: "book lovers",
+    primaryKeyword: "book lover mug",
+    supportingKeywords: ["gift for reader", "cozy mug", "literary mug", "funny mug", "bookish gift"],
+    materials: ["ceramic", "glaze"],
+    tone: "warm",
+    priceBand: "$18-$30",
+    processingTimeDays: 3,
+    personalization: true,
+    locale: "en-US",
+    variantCount: 4
+  });
+  const pack = buildListingPack(mugInput);
+  const longTail = pack.variants.find((variant) => variant.strategy === "long_tail");
+
+  assert.equal(longTail?.title, "Book Lover Mug, Gift For Reader, Bookish Gift, Ceramic Mug");
+  for (const variant of pack.variants) {
+    const applied = applyListingVariant(pack, mugInput, variant.variantId);
+    assert.equal(applied.score, variant.score);
+    assert.ok(applied.compliance.every((finding) => finding.rule !== "repeated_words"));
+  }
+});
@@ -0,0 +1,382 @@
+import { isDigitalKind, type ListingInput, type ListingPack, type ListingScore } from "./listing.js";
+
+export type ComplianceSeverity = "blocking" | "warning";
+
+export type ComplianceRule =
+  | "trademark"
+  | "health_claim"
+  | "safety_claim"
+  | "banned_item"
+  | "excessive_caps"
+  | "repeated_words"
+  | "misleading_handmade"
+  | "banned_word";
+
+export type ComplianceFinding = {
+  rule: ComplianceRule;
+  severity: ComplianceSeverity;
+  term?: string;
+  fields: string[];
+  message: string;
+};
+
+export type ComplianceRules = {
+  trademarks: string[];
+  healthClaims: string[];
+  safetyClaims: string[];
+  bannedItems: string[];
+};
+
+type ComplianceText = {
+  field: string;
+  text: string;
+};
+
+type LintedPack = Pick<ListingPack, "title" | "tags" | "description" | "highlights" | "faq">;
+
+export const DEFAULT_COMPLIANCE_RULES: ComplianceRules = {
+  trademarks: [
+    "disney",
+    "marvel",
+    "pixar",
+    "star wars",
+    "harry potter",
+    "hogwarts",
+    "pokemon",
+    "hello kitty",
+    "barbie",
+    "lego",
+    "nike",
+    "adidas",
+    "louis vuitton",
+    "gucci",
+    "chanel",
+    "taylor swift",
+    "nfl",
+    "nba",
+    "mickey mouse",
+    "sanrio",
+    "bluey",
+    "stanley cup"
+  ],
+  healthClaims: [
+    "fda approved",
+    "fda cleared",
+    "clinically proven",
+    "cure for",
+    "cures cancer",
+    "heals",
+    "prevents cancer",
+    "anti-inflammatory",
+    "boosts immunity",
+    "relieves anxiety",
+    "medical grade",
+    "doctor recommended"
+  ],
+  safetyClaims: ["non-toxic", "hypoallergenic", "antibacterial", "child safe", "baby safe", "food safe", "bpa free"],
+  bannedItems: [
+    "elephant ivory",
+    "real ivory",
+    "rhino horn",
+    "real tortoiseshell",
+    "pangolin",
+    "firearm",
+    "ammunition",
+    "switchblade",
+    "tobacco",
+    "nicotine",
+    "vape",
+    "kratom",
+    "live animal",
+    "human remains",
+    "recalled"
+  ]
+};
+
+const RULE_KEYS = Object.keys(DEFAULT_COMPLIANCE_RULES) as Array<keyof ComplianceRules>;
+const MAX_RULE_TERMS = 500;
+const MAX_RULE_TERM_LENGTH = 80;
+export const MAX_TITLE_WORD_REPEATS = 2;
+
+const BLOCKING_PENALTY = 20;
+const CAPS_ACRONYMS = new Set([
+  "XS",
+  "XL",
+  "XXL",
+  "USA",
+  "UK",
+  "US",
+  "EU",
+  "DIY",
+  "SVG",
+  "PNG",
+  "PDF",
+  "DXF",
+  "JPG",
+  "LED",
+  "OOAK",
+  "UV",
+  "3D"
+]);
+const STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "for",
+  "of",
+  "the",
+  "to",
+  "with",
+  "in",
+  "or",
+  "und",
+  "für",
+  "mit",
+  "et",
+  "pour",
+  "de",
+  "avec",
+  "la",
+  "le",
+  "y",
+  "para",
+  "con",
+  "el"
+]);
+const HANDMADE_PATTERN =
+  /(?<![\p{L}\p{N}])(hand[\s-]?made|hand[\s-]?crafted|handgemacht|fait main|hecho a mano)(?![\p{L}\p{N}])/iu;
+const RESALE_PATTERN =
+  /(?<![\p{L}\p{N}])(wholesale|drop[\s-]?ship\w*|mass[\s-]produced|factory[\s-]made|print on demand|resell|resale)(?![\p{L}\p{N}])/iu;
+
+let activeRules: ComplianceRules = DEFAULT_COMPLIANCE_RULES;
+
+function normalizeTerms(value: unknown, key: string): string[] {
+  if (!Array.isArray(value) || value.length > MAX_RULE_TERMS) {
+    throw new Error("invalid_complianceRules");
+  }
+  return value.map((term) => {
+    if (typeof term !== "string" || !term.trim() || term.trim().length > MAX_RULE_TERM_LENGTH) {
+      throw new Error(`invalid_complianceRules_${key}`);
+    }
+    return term.trim().toLowerCase().replace(/\s+/g, " ");
+  });
+}
+
+export function configureComplianceRules(overrides: Partial<Record<keyof ComplianceRules, unknown>>): ComplianceRules {
+  if (!overrides || typeof overrides !== "object" || Array.isArray(overrides)) {
+    throw new Error("invalid_complianceRules");
+  }
+  activeRules = {
+    ...DEFAULT_COMPLIANCE_RULES,
+    ...Object.fromEntries(
+      RULE_KEYS.filter((key) => overrides[key] != null).map((key) => [key, normalizeTerms(overrides[key], key)])
+    )
+  };
+  return activeRules;
+}
+
+export function complianceRules(): ComplianceRules {
+  return activeRules;
+}
+
+function termPattern(term: string): RegExp {
+  const escaped = term
+    .split(/[\s-]+/)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[\\s-]+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "iu");
+}
+
+function collectTexts(input: ListingInput, pack: LintedPack): ComplianceText[] {
+  return [
+    { field: "input.shopName", text: input.shopName },
+    { field: "input.productType", text: input.productType },
+    { field: "input.targetAudience", text: input.targetAudience },
+    { field: "input.primaryKeyword", text: input.primaryKeyword },
+    { field: "input.supportingKeywords", text: input.supportingKeywords.join(" | ") },
+    { field: "input.materials", text: input.materials.join(" | ") },
+    { field: "title", text: pack.title },
+    { field: "tags", text: pack.tags.join(" | ") },
+    { field: "description", text: pack.description },
+    { field: "highlights", text: pack.highlights.join(" | ") },
+    { field: "faq", text: pack.faq.map((item) => `${item.question} ${item.answer}`).join(" | ") }
+  ];
+}
+
+function findTerms(
+  texts: ComplianceText[],
+  terms: string[],
+  rule: ComplianceRule,
+  severity: ComplianceSeverity,
+  message: (term: string) => string
+): ComplianceFinding[] {
+  return terms.flatMap((term) => {
+    const pattern = termPattern(term);
+    const fields = texts.filter((item) => pattern.test(item.text)).map((item) => item.field);
+    return fields.length ? [{ rule, severity, term, fields, message: message(term) }] : [];
+  });
+}
+
+function checkCapitalization(pack: LintedPack): ComplianceFinding[] {
+  const words = pack.title.split(/[\s|,/]+/).filter((word) => /\p{L}/u.test(word));
+  const shouting = words.filter((word) => {
+    const letters = word.replace(/[^\p{L}\p{N}]/gu, "");
+    return (
+      letters.length >= 2 &&
+      letters === letters.toUpperCase() &&
+      /\p{Lu}/u.test(letters) &&
+      !CAPS_ACRONYMS.has(letters)
+    );
+  });
+  if (shouting.length >= 3 && shouting.length / words.length >= 0.5) {
+    return [
+      {
+        rule: "excessive_caps",
+        severity: "blocking",
+        fields: ["title"],
+        message: `The title is mostly capital letters (${shouting.length} of ${words.length} words); use title case.`
+      }
+    ];
+  }
+  if (shouting.length >= 2) {
+    return [
+      {
+        rule: "excessive_caps",
+        severity: "warning",
+        fields: ["title"],
+        message: `The title has ${shouting.length} all-caps words (${shouting.join(", ")}); keep capitals for acronyms.`
+      }
+    ];
+  }
+  return [];
+}
+
+export function countTitleWords(title: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const word of title.toLowerCase().split(/[^\p{L}\p{N}]+/u)) {
+    if (word.length > 1 && !STOPWORDS.has(word)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  return counts;
+}
+
+function checkRepeatedWords(pack: LintedPack): ComplianceFinding[] {
+  return [...countTitleWords(pack.title)]
+    .filter(([, count]) => count > MAX_TITLE_WORD_REPEATS)
+    .map(([word, count]) => ({
+      rule: "repeated_words" as const,
+      severity: "blocking" as const,
+      term: word,
+      fields: ["title"],
+      message: `"${word}" appears ${count} times in the title; Etsy treats repeated keywords as keyword stuffing.`
+    }));
+}
+
+function checkHandmade(input: ListingInput, texts: ComplianceText[]): ComplianceFinding[] {
+  const fields = texts.filter((item) => HANDMADE_PATTERN.test(item.text)).map((item) => item.field);
+  if (!fields.length) {
+    return [];
+  }
+  const resale = texts.find((item) => RESALE_PATTERN.test(item.text));
+  if (resale) {
+    return [
+      {
+        rule: "misleading_handmade",
+        severity: "blocking",
+        term: resale.text.match(RESALE_PATTERN)?.[0].toLowerCase(),
+        fields: [...new Set([...fields, resale.field])],
+        message: "The listing claims to be handmade but also mentions resale or mass production, which is misleading."
+      }
+    ];
+  }
+  if (isDigitalKind(input.productKind)) {
+    return [
+      {
+        rule: "misleading_handmade",
+        severity: "warning",
+        fields,
+        message: "Digital files are not handmade objects; describe them as designed or created by the shop instead."
+      }
+    ];
+  }
+  return [];
+}
+
+export function lintCompliance(input: ListingInput, pack: LintedPack): ComplianceFinding[] {
+  const texts = collectTexts(input, pack);
+  const rules = activeRules;
+  const findings = [
+    ...findTerms(
+      texts,
+      rules.trademarks,
+      "trademark",
+      "blocking",
+      (term) => `"${term}" is a trademark; unlicensed use gets listings removed for intellectual property violations.`
+    ),
+    ...findTerms(
+      texts,
+      rules.healthClaims,
+      "health_claim",
+      "blocking",
+      (term) => `"${term}" is a medical or health claim, which Etsy prohibits.`
+    ),
+    ...findTerms(
+      texts,
+      rules.safetyClaims,
+      "safety_claim",
+      "warning",
+      (term) => `"${term}" is a safety claim; only keep it if you hold test results that back it up.`
+    ),
+    ...findTerms(
+      texts,
+      rules.bannedItems,
+      "banned_item",
+      "blocking",
+      (term) => `"${term}" matches an item Etsy prohibits or restricts.`
+    ),
+    ...findTerms(
+      texts.filter((item) => !item.field.startsWith("input.")),
+      input.shop?.bannedWords ?? [],
+      "banned_word",
+      "warning",
+      (term) => `"${term}" is on the shop's banned word list; reword it to keep the brand voice.`
+    ),
+    ...checkCapitalization(pack),
+    ...checkRepeatedWords(pack),
+    ...checkHandmade(input, texts)
+  ];
+
+  return findings.sort((a, b) => Number(b.severity === "blocking") - Number(a.severity === "blocking"));
+}
+
+export function applyCompliancePenalty(listingScore: ListingScore, findings: ComplianceFinding[]): ListingScore {
+  const blocking = findings.filter((finding) => finding.severity === "blocking");
+  if (!blocking.length) {
+    return listingScore;
+  }
+
+  const penalty = Math.min(listingScore.score, blocking.length * BLOCKING_PENALTY);
+  const issues = blocking.map((finding) => finding.term ?? finding.rule.replace(/_/g, " ")).join(", ");
+  return {
+    score: listingScore.score - penalty,
+    scoreBreakdown: [
+      ...listingScore.scoreBreakdown,
+      {
+        factor: "Policy compliance",
+        earned: -penalty,
+        possible: 0,
+        evidence: `${blocking.length} blocking issue${blocking.length === 1 ? "" : "s"}: ${issues}`
+      }
+    ],
+    recommendations: [
+      {
+        rank: 1,
+        factor: "Policy compliance",
+        pointsAvailable: penalty,
+        action: `Resolve the blocking compliance issues before publishing (${issues}).`
+      },
+      ...listingScore.recommendations.map((item) => ({ ...item, rank: item.rank + 1 }))
+    ]
+  };
+}
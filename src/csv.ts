@@ -0,0 +1,63 @@
+const DELIMITERS = [",", ";", "\t"];
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const unquoted = firstLine.replace(/"[^"]*"/g, "");
+  return DELIMITERS.map((delimiter) => ({ delimiter, count: unquoted.split(delimiter).length - 1 })).sort(
+    (a, b) => b.count - a.count
+  )[0].delimiter;
+}
+
+export function parseCsv(text: string): string[][] {
+  const source = text.replace(/^\uFEFF/, "");
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let index = 0; index < source.length; index += 1) {
+    const char = source[index];
+    if (quoted) {
+      if (char === '"' && source[index + 1] === '"') {
+        field += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !field.trim()) {
+      field = "";
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field.trim());
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[index + 1] === "\n") {
+        index += 1;
+      }
+      row.push(field.trim());
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field.trim());
+  rows.push(row);
+  return rows.filter((cells) => cells.some((cell) => cell.length > 0));
+}
+
+function formatCell(value: string): string {
+  return /[",\r\n;\t]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(formatCell).join(",")).join("\r\n") + "\r\n";
+}
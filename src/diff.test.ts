@@ -0,0 +1,55 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { diffFields } from "./diff.js";
+import { buildListingPack, sanitizeListingInput } from "./listing.js";
+
+const input = sanitizeListingInput({
+  shopName: "Copper Pine Studio",
+  productType: "ring dish",
+  targetAudience: "bridal party",
+  primaryKeyword: "personalized ring dish",
+  supportingKeywords: ["engagement gift", "bridal shower gift", "ceramic tray"],
+  materials: ["ceramic", "glaze"],
+  tone: "warm",
+  priceBand: "$20-$35",
+  processingTimeDays: 3,
+  personalization: true,
+  locale: "en-US"
+});
+
+test("diffFields reports nothing for packs rebuilt with the same input and clock", () => {
+  const clock = new Date("2026-03-02T10:00:00Z");
+  const first = buildListingPack(input, clock);
+  const second = buildListingPack(input, clock);
+
+  assert.equal(first.generatedAt, "2026-03-02T10:00:00.000Z");
+  assert.ok(first.generatorVersion);
+  assert.deepEqual(diffFields(first, second), []);
+});
+
+test("diffFields reports field paths with added and removed list items", () => {
+  const pack = buildListingPack(input, new Date("2026-03-02T10:00:00Z"));
+  const { generatorVersion, ...legacy } = pack;
+  const stored = {
+    ...legacy,
+    tags: [...pack.tags.slice(1), "old tag"],
+    faq: pack.faq.map((item, index) => (index === 0 ? { ...item, answer: "Old answer." } : item)),
+    retired: true
+  };
+
+  const changes = diffFields(stored, pack);
+
+  assert.deepEqual(
+    changes.map((item) => [item.field, item.change]),
+    [
+      ["generatorVersion", "added"],
+      ["tags", "changed"],
+      ["faq[0].answer", "changed"],
+      ["retired", "removed"]
+    ]
+  );
+  assert.deepEqual(changes[0].after, generatorVersion);
+  assert.deepEqual(changes[1].addedItems, [pack.tags[0]]);
+  assert.deepEqual(changes[1].removedItems, ["old tag"]);
+  assert.equal(changes[2].before, "Old answer.");
+});
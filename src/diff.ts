@@ -0,0 +1,59 @@
+import { isDeepStrictEqual } from "node:util";
+
+export type FieldChange = {
+  field: string;
+  change: "added" | "removed" | "changed";
+  before?: unknown;
+  after?: unknown;
+  addedItems?: string[];
+  removedItems?: string[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function collectChanges(field: string, before: unknown, after: unknown, changes: FieldChange[]): void {
+  if (isDeepStrictEqual(before, after)) {
+    return;
+  }
+  if (before === undefined) {
+    changes.push({ field, change: "added", after });
+    return;
+  }
+  if (after === undefined) {
+    changes.push({ field, change: "removed", before });
+    return;
+  }
+  if (isRecord(before) && isRecord(after)) {
+    const keys = [...Object.keys(after), ...Object.keys(before).filter((key) => !(key in after))];
+    keys.forEach((key) => collectChanges(field ? `${field}.${key}` : key, before[key], after[key], changes));
+    return;
+  }
+  if (isStringList(before) && isStringList(after)) {
+    changes.push({
+      field,
+      change: "changed",
+      before,
+      after,
+      addedItems: after.filter((item) => !before.includes(item)),
+      removedItems: before.filter((item) => !after.includes(item))
+    });
+    return;
+  }
+  if (Array.isArray(before) && Array.isArray(after) && before.length === after.length) {
+    before.forEach((item, index) => collectChanges(`${field}[${index}]`, item, after[index], changes));
+    return;
+  }
+  changes.push({ field, change: "changed", before, after });
+}
+
+export function diffFields(before: object, after: object): FieldChange[] {
+  const changes: FieldChange[] = [];
+  collectChanges("", before, after, changes);
+  return changes;
+}
@@ -0,0 +1,92 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { formatCsv, parseCsv } from "./csv.js";
+import { buildEtsyCsv, ETSY_CSV_COLUMNS } from "./etsy-csv.js";
+import { buildListingPack, sanitizeListingInput } from "./listing.js";
+
+const input = sanitizeListingInput({
+  shopName: "Copper Pine Studio",
+  productType: "ring dish",
+  targetAudience: "bridal party",
+  primaryKeyword: "personalized ring dish",
+  supportingKeywords: ["engagement gift", "bridesmaid gift"],
+  materials: ["ceramic", "gold luster"],
+  tone: "warm",
+  priceBand: "$20-$35",
+  processingTimeDays: 3,
+  personalization: true,
+  locale: "en-US",
+  variations: [
+    {
+      property: "Size",
+      options: [
+        { name: "Small", price: 22, quantity: 4 },
+        { name: "Large", price: 32, quantity: 6 }
+      ]
+    },
+    { property: "Glaze", options: [{ name: "Sage" }, { name: "Cream, matte" }] }
+  ]
+});
+
+test("formatCsv quotes delimiters, quotes and line breaks so parseCsv round-trips them", () => {
+  const rows = [
+    ["title", "description"],
+    ['Ring dish, "gold" rim', "Line one\nLine two"]
+  ];
+  const csv = formatCsv(rows);
+
+  assert.equal(csv, 'title,description\r\n"Ring dish, ""gold"" rim","Line one\nLine two"\r\n');
+  assert.deepEqual(parseCsv(csv), rows);
+});
+
+test("buildEtsyCsv writes one bulk-upload row per listing with tag and variation columns", () => {
+  const pack = buildListingPack(input);
+  const digital = sanitizeListingInput({ ...input, productKind: "printable", variations: undefined, processingTimeDays: 0 });
+  const [header, physicalRow, digitalRow, ...rest] = parseCsv(
+    buildEtsyCsv([
+      { input, pack },
+      { input: digital, pack: buildListingPack(digital) }
+    ])
+  );
+  const physical = Object.fromEntries(header.map((column, index) => [column, physicalRow[index]]));
+  const download = Object.fromEntries(header.map((column, index) => [column, digitalRow[index]]));
+
+  assert.deepEqual(header, ETSY_CSV_COLUMNS);
+  assert.equal(rest.length, 0);
+  assert.equal(header.filter((column) => column.startsWith("tag_")).length, 13);
+  assert.equal(physical.title, pack.title);
+  assert.equal(physical.description, pack.description);
+  assert.deepEqual(
+    header.filter((column) => column.startsWith("tag_")).map((column) => physical[column]),
+    Array.from({ length: 13 }, (_, index) => pack.tags[index] ?? "")
+  );
+  assert.equal(physical.price, "22.00");
+  assert.equal(physical.currency_code, "USD");
+  assert.equal(physical.quantity, "10");
+  assert.equal(physical.materials, "ceramic, gold luster");
+  assert.equal(physical.processing_min, "3");
+  assert.equal(physical.is_personalizable, "TRUE");
+  assert.equal(physical.personalization_is_required, "FALSE");
+  assert.equal(physical.variation_1_values, "Small|Large");
+  assert.equal(physical.variation_1_prices, "22.00|32.00");
+  assert.equal(physical.variation_1_quantities, "4|6");
+  assert.equal(physical.variation_2_name, "Glaze");
+  assert.equal(physical.variation_2_values, "Sage|Cream, matte");
+  assert.equal(download.type, "download");
+  assert.equal(download.price, "20.00");
+  assert.equal(download.processing_min, "");
+  assert.equal(download.variation_1_name, "");
+});
+
+test("buildEtsyCsv neutralizes cells that spreadsheets would run as formulas", () => {
+  const risky = { ...input, materials: ["=HYPERLINK(\"http://example.com\")", "ceramic"] };
+  const pack = { ...buildListingPack(input), title: "@SUM(A1:A2) ring dish", tags: ["+gift", "-sale", "ring dish"] };
+  const [header, row] = parseCsv(buildEtsyCsv([{ input: risky, pack }]));
+  const cells = Object.fromEntries(header.map((column, index) => [column, row[index]]));
+
+  assert.equal(cells.title, "'@SUM(A1:A2) ring dish");
+  assert.equal(cells.materials, "'=HYPERLINK(\"http://example.com\"), ceramic");
+  assert.equal(cells.tag_1, "'+gift");
+  assert.equal(cells.tag_2, "'-sale");
+  assert.equal(cells.tag_3, "ring dish");
+});
@@ -0,0 +1,88 @@
+import { formatCsv } from "./csv.js";
+import { isDigitalKind, MAX_TAGS, type ListingInput, type ListingPack } from "./listing.js";
+import { listingCurrency, parsePriceBand } from "./pricing.js";
+
+export type EtsyCsvDocument = {
+  input: ListingInput;
+  pack: ListingPack;
+};
+
+const MAX_VARIATION_COLUMNS = 2;
+
+export const ETSY_CSV_COLUMNS = [
+  "title",
+  "description",
+  "price",
+  "currency_code",
+  "quantity",
+  ...Array.from({ length: MAX_TAGS }, (_, index) => `tag_${index + 1}`),
+  "materials",
+  "type",
+  "processing_min",
+  "processing_max",
+  "is_personalizable",
+  "personalization_is_required",
+  ...Array.from({ length: MAX_VARIATION_COLUMNS }, (_, index) =>
+    ["name", "values", "prices", "quantities"].map((field) => `variation_${index + 1}_${field}`)
+  ).flat()
+];
+
+function neutralizeFormula(value: string): string {
+  return /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+}
+
+function flag(value: boolean): string {
+  return value ? "TRUE" : "FALSE";
+}
+
+function money(value: number | undefined): string {
+  return value == null ? "" : value.toFixed(2);
+}
+
+function variationColumns(input: ListingInput): string[] {
+  return Array.from({ length: MAX_VARIATION_COLUMNS }, (_, index) => {
+    const variation = input.variations?.[index];
+    if (!variation) {
+      return ["", "", "", ""];
+    }
+    const { options } = variation;
+    return [
+      variation.property,
+      options.map((option) => option.name).join("|"),
+      options[0].price != null ? options.map((option) => money(option.price)).join("|") : "",
+      options[0].quantity != null ? options.map((option) => String(option.quantity)).join("|") : ""
+    ];
+  }).flat();
+}
+
+function listingRow({ input, pack }: EtsyCsvDocument): string[] {
+  const currency = listingCurrency(input);
+  const band = parsePriceBand(input.priceBand, currency);
+  const options = input.variations?.flatMap((variation) => variation.options) ?? [];
+  const optionPrices = options.flatMap((option) => (option.price != null ? [option.price] : []));
+  const price = optionPrices.length ? Math.min(...optionPrices) : band?.min;
+  const stocked = options.some((option) => option.quantity != null)
+    ? options.reduce((total, option) => total + (option.quantity ?? 0), 0)
+    : 1;
+  const digital = isDigitalKind(input.productKind);
+
+  return [
+    pack.title,
+    pack.description,
+    money(price),
+    currency,
+    String(stocked),
+    ...Array.from({ length: MAX_TAGS }, (_, index) => pack.tags[index] ?? ""),
+    input.materials.join(", "),
+    digital ? "download" : "physical",
+    digital ? "" : String(input.processingTimeDays),
+    digital ? "" : String(input.processingTimeDays),
+    flag(input.personalization),
+    flag(false),
+    ...variationColumns(input)
+  ].map(neutralizeFormula);
+}
+
+export function buildEtsyCsv(documents: EtsyCsvDocument[]): string {
+  return formatCsv([ETSY_CSV_COLUMNS, ...documents.map(listingRow)]);
+}
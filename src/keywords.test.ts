@@ -0,0 +1,81 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { applyKeywordResearch, parseKeywordResearchCsv, rankKeywordResearch } from "./keywords.js";
+import { buildListingPack, sanitizeListingInput } from "./listing.js";
+
+const eRankExport = [
+  "\uFEFFKeyword;Avg. Searches;Competing Listings;Avg. CTR",
+  "ring dish;12,400;1.2M;58%",
+  "personalized ring dish;3.1k;45,000;71%",
+  "bridesmaid gift;\"9,800\";850000;64%",
+  "engagement ring holder;720;6,100;80%",
+  "jewelry dish for her;90;N/A;"
+].join("\r\n");
+
+test("parseKeywordResearchCsv maps common headers, delimiters and number formats", () => {
+  const rows = parseKeywordResearchCsv(eRankExport);
+
+  assert.equal(rows.length, 5);
+  assert.deepEqual(rows[0], { keyword: "ring dish", monthlySearches: 12400, competition: 1, ctr: 0.58 });
+  assert.equal(rows[1].monthlySearches, 3100);
+  assert.equal(rows[2].monthlySearches, 9800);
+  assert.equal(rows[4].competition, 0.5);
+  assert.equal(rows[4].ctr, undefined);
+
+  const levels = parseKeywordResearchCsv("Search term,Search Volume,Competition\nwedding gift,5000,Low\ngift,90000,Very High");
+  assert.deepEqual(
+    levels.map((row) => row.competition),
+    [0.25, 0.9]
+  );
+  assert.throws(() => parseKeywordResearchCsv("name,count\nring dish,10"), /invalid_keywordResearchCsv/);
+});
+
+test("rankKeywordResearch prefers demand with low competition and strong CTR", () => {
+  const ranked = rankKeywordResearch(parseKeywordResearchCsv(eRankExport));
+
+  assert.deepEqual(
+    ranked.map((row) => row.keyword),
+    ["personalized ring dish", "engagement ring holder", "bridesmaid gift", "ring dish", "jewelry dish for her"]
+  );
+  assert.deepEqual(
+    ranked.map((row) => row.rank),
+    [1, 2, 3, 4, 5]
+  );
+});
+
+test("keyword research picks the title lead and explains usage in the pack", () => {
+  const input = applyKeywordResearch(
+    sanitizeListingInput({
+      shopName: "Copper Pine Studio",
+      productType: "ring dish",
+      targetAudience: "bridal party",
+      primaryKeyword: "ceramic trinket tray",
+      supportingKeywords: ["wedding keepsake"],
+      materials: ["ceramic"],
+      tone: "warm",
+      priceBand: "$20-$35",
+      processingTimeDays: 3,
+      personalization: true,
+      locale: "en-US",
+      keywordResearch: parseKeywordResearchCsv(eRankExport)
+    })
+  );
+
+  assert.equal(input.primaryKeyword, "personalized ring dish");
+  assert.deepEqual(input.supportingKeywords.slice(0, 4), [
+    "engagement ring holder",
+    "bridesmaid gift",
+    "ring dish",
+    "jewelry dish for her"
+  ]);
+  assert.deepEqual(input.supportingKeywords.slice(4), ["ceramic trinket tray", "wedding keepsake"]);
+
+  const pack = buildListingPack(input);
+  assert.ok(pack.title.toLowerCase().startsWith("personalized ring dish"));
+  const research = pack.keywordResearch ?? [];
+  assert.equal(research.length, 5);
+  assert.deepEqual(research[0].usedIn, ["title_lead", "tags"]);
+  assert.match(research[0].reason, /^3,100 searches\/mo, 78% competition, 71% CTR: opportunity \d+; leads the title$/);
+  assert.ok(research[1].usedIn.includes("tags"));
+  assert.equal(buildListingPack(sanitizeListingInput(input)).keywordResearch?.[0].keyword, "personalized ring dish");
+});
@@ -0,0 +1,215 @@
+import { parseCsv } from "./csv.js";
+import type { KeywordCoverage, ListingInput } from "./listing.js";
+
+export type KeywordResearchRow = {
+  keyword: string;
+  monthlySearches: number;
+  competition: number;
+  ctr?: number;
+};
+
+export type KeywordOpportunity = KeywordResearchRow & {
+  rank: number;
+  opportunity: number;
+};
+
+export type KeywordUsage = "title_lead" | "title" | "tags";
+
+export type KeywordResearchResult = KeywordOpportunity & {
+  usedIn: KeywordUsage[];
+  tags: string[];
+  reason: string;
+};
+
+type ResearchColumn = "keyword" | "monthlySearches" | "competition" | "ctr";
+
+const HEADER_ALIASES: Record<ResearchColumn, string[]> = {
+  keyword: ["keyword", "keywords", "keyword phrase", "search term", "search terms", "term", "query", "phrase", "tag"],
+  monthlySearches: [
+    "monthly searches",
+    "searches",
+    "search volume",
+    "volume",
+    "avg monthly searches",
+    "avg searches",
+    "monthly search volume",
+    "est monthly searches",
+    "estimated searches",
+    "etsy searches"
+  ],
+  competition: [
+    "competition",
+    "competing listings",
+    "etsy competition",
+    "competition score",
+    "difficulty",
+    "keyword difficulty",
+    "kd"
+  ],
+  ctr: ["ctr", "click through rate", "clickthrough rate", "avg ctr", "click rate"]
+};
+
+const COMPETITION_LEVELS: Record<string, number> = {
+  "very low": 0.1,
+  low: 0.25,
+  medium: 0.5,
+  moderate: 0.5,
+  high: 0.75,
+  "very high": 0.9
+};
+
+const DEFAULT_COMPETITION = 0.5;
+const UNKNOWN_CTR_FACTOR = 0.75;
+const MAX_RESEARCH_ROWS = 500;
+
+function normalizeHeader(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function parseCount(value: string): number | undefined {
+  const match = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s,]/g, "")
+    .match(/^[<>~]?(\d+(?:\.\d+)?)([km]?)\+?$/);
+  if (!match) {
+    return undefined;
+  }
+  const multiplier = match[2] === "k" ? 1000 : match[2] === "m" ? 1000000 : 1;
+  return Math.round(Number(match[1]) * multiplier);
+}
+
+function parseCompetition(value: string): number {
+  const level = COMPETITION_LEVELS[normalizeHeader(value)];
+  if (level != null) {
+    return level;
+  }
+  const percent = value.trim().match(/^(\d+(?:\.\d+)?)\s*%$/);
+  if (percent) {
+    return Math.min(1, Number(percent[1]) / 100);
+  }
+  const count = /^\d*\.\d+$/.test(value.trim()) ? Number(value.trim()) : parseCount(value);
+  if (count == null) {
+    return DEFAULT_COMPETITION;
+  }
+  if (count <= 1) {
+    return count;
+  }
+  if (count <= 100) {
+    return count / 100;
+  }
+  return Math.min(1, Math.log10(count) / 6);
+}
+
+function parseCtr(value: string): number | undefined {
+  const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(%?)$/);
+  if (!match) {
+    return undefined;
+  }
+  const ctr = Number(match[1]);
+  return Math.min(1, match[2] || ctr > 1 ? ctr / 100 : ctr);
+}
+
+export function parseKeywordResearchCsv(csvText: string): KeywordResearchRow[] {
+  if (typeof csvText !== "string") {
+    throw new Error("invalid_keywordResearchCsv");
+  }
+
+  const [header, ...rows] = parseCsv(csvText);
+  const headers = (header ?? []).map(normalizeHeader);
+  const columnOf = (column: ResearchColumn) => headers.findIndex((name) => HEADER_ALIASES[column].includes(name));
+  const columns = {
+    keyword: columnOf("keyword"),
+    monthlySearches: columnOf("monthlySearches"),
+    competition: columnOf("competition"),
+    ctr: columnOf("ctr")
+  };
+  if (columns.keyword < 0 || columns.monthlySearches < 0) {
+    throw new Error("invalid_keywordResearchCsv");
+  }
+
+  const result = rows
+    .filter((cells) => cells[columns.keyword])
+    .slice(0, MAX_RESEARCH_ROWS)
+    .map((cells) => {
+      const ctr = columns.ctr >= 0 ? parseCtr(cells[columns.ctr] ?? "") : undefined;
+      return {
+        keyword: cells[columns.keyword],
+        monthlySearches: parseCount(cells[columns.monthlySearches] ?? "") ?? 0,
+        competition: columns.competition >= 0 ? parseCompetition(cells[columns.competition] ?? "") : DEFAULT_COMPETITION,
+        ...(ctr != null ? { ctr } : {})
+      };
+    });
+
+  if (!result.length) {
+    throw new Error("invalid_keywordResearchCsv");
+  }
+  return result;
+}
+
+export function rankKeywordResearch(rows: KeywordResearchRow[]): KeywordOpportunity[] {
+  const maxDemand = Math.log10(Math.max(0, ...rows.map((row) => row.monthlySearches)) + 1);
+
+  return rows
+    .map((row) => {
+      const demand = maxDemand > 0 ? Math.log10(row.monthlySearches + 1) / maxDemand : 0;
+      const ctrFactor = row.ctr == null ? UNKNOWN_CTR_FACTOR : 0.5 + row.ctr / 2;
+      return { ...row, opportunity: Math.round(100 * demand * (1 - 0.6 * row.competition) * ctrFactor) };
+    })
+    .sort((a, b) => b.opportunity - a.opportunity || b.monthlySearches - a.monthlySearches)
+    .map((row, index) => ({ ...row, rank: index + 1 }));
+}
+
+export function applyKeywordResearch(input: ListingInput, maxKeywords = 16): ListingInput {
+  if (!input.keywordResearch?.length) {
+    return input;
+  }
+
+  const ranked = rankKeywordResearch(input.keywordResearch).map((row) => row.keyword);
+  const [lead, ...rest] = ranked;
+  const supportingKeywords = [...rest, input.primaryKeyword, ...input.supportingKeywords]
+    .filter((keyword, index, all) => keyword !== lead && all.indexOf(keyword) === index)
+    .slice(0, maxKeywords);
+
+  return { ...input, primaryKeyword: lead, supportingKeywords };
+}
+
+function describeMetrics(row: KeywordOpportunity): string {
+  const ctr = row.ctr != null ? `, ${Math.round(row.ctr * 100)}% CTR` : "";
+  return `${row.monthlySearches.toLocaleString("en-US")} searches/mo, ${Math.round(row.competition * 100)}% competition${ctr}: opportunity ${row.opportunity}`;
+}
+
+export function explainKeywordResearch(
+  input: ListingInput,
+  coverage: KeywordCoverage[]
+): KeywordResearchResult[] | undefined {
+  if (!input.keywordResearch?.length) {
+    return undefined;
+  }
+
+  return rankKeywordResearch(input.keywordResearch).map((row) => {
+    const match = coverage.find((item) => item.keyword === row.keyword);
+    const lead = row.keyword === input.primaryKeyword;
+    const usedIn: KeywordUsage[] = [
+      ...(lead ? (["title_lead"] as const) : match?.inTitle ? (["title"] as const) : []),
+      ...(match?.tags.length ? (["tags"] as const) : [])
+    ];
+    const outcome = lead
+      ? "leads the title"
+      : !match
+        ? "not used; supporting keyword slots went to higher-opportunity keywords"
+        : usedIn.length
+          ? `used in the ${usedIn.join(" and ")}`
+          : `not used; ${match.reason.charAt(0).toLowerCase()}${match.reason.slice(1)}`;
+
+    return {
+      ...row,
+      usedIn,
+      tags: match?.tags ?? [],
+      reason: `${describeMetrics(row)}; ${outcome}`
+    };
+  });
+}
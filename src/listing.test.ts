@@ -1,6 +1,18 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { buildListingPack, parseKeywordCsv, sanitizeListingInput } from "./listing.js";
+import { registerCategoryRulePack } from "./categories.js";
+import {
+  applyListingVariant,
+  applyPackOverrides,
+  buildListingPack,
+  findTitleKeyword,
+  keepLockedFields,
+  parseKeywordCsv,
+  sanitizeListingInput,
+  sanitizePackOverrides,
+  scoreListing
+} from "./listing.js";
+import { localizeText } from "./locale.js";
 
 test("parseKeywordCsv splits by comma and newline", () => {
   const keywords = parseKeywordCsv("wedding gift, bridesmaid gift\nhandmade box");
@@ -19,7 +31,7 @@ test("buildListingPack creates Etsy-safe title and 13 tags max", () => {
     priceBand: "$20-$35",
     processingTimeDays: 3,
     personalization: true,
-    includeUkSpelling: false
+    locale: "en-US"
   });
 
   const pack = buildListingPack(input);
@@ -44,8 +56,494 @@ test("sanitizeListingInput rejects missing supporting keywords", () => {
         priceBand: "$10-$20",
         processingTimeDays: 4,
         personalization: false,
-        includeUkSpelling: false
+        locale: "en-US"
       }),
     /invalid_supportingKeywords/
   );
 });
+
+test("buildListingPack explains its score with a rubric and ranked recommendations", () => {
+  const input = sanitizeListingInput({
+    shopName: "Northwind",
+    productType: "print",
+    targetAudience: "pet owners",
+    primaryKeyword: "dog memorial print",
+    supportingKeywords: ["pet loss gift"],
+    materials: ["matte paper"],
+    tone: "minimal",
+    priceBand: "$10-$20",
+    processingTimeDays: 5,
+    personalization: false,
+    locale: "en-US"
+  });
+
+  const pack = buildListingPack(input);
+  const earned = pack.scoreBreakdown.reduce((total, factor) => total + factor.earned, 0);
+  const possible = pack.scoreBreakdown.reduce((total, factor) => total + factor.possible, 0);
+
+  assert.equal(possible, 100);
+  assert.equal(pack.score, earned);
+  assert.ok(pack.scoreBreakdown.every((factor) => factor.earned <= factor.possible && factor.evidence.length > 0));
+  assert.deepEqual(
+    pack.recommendations.map((item) => item.rank),
+    pack.recommendations.map((_, index) => index + 1)
+  );
+  assert.equal(pack.recommendations[0].factor, "Supporting keywords");
+  assert.ok(pack.recommendations.some((item) => item.action === "Add 2 more materials"));
+});
+
+test("buildListingPack returns ranked title and tag variants", () => {
+  const input = sanitizeListingInput({
+    shopName: "Copper Pine Studio",
+    productType: "ring dish",
+    targetAudience: "bridal party",
+    primaryKeyword: "personalized ring dish",
+    supportingKeywords: ["engagement gift", "bridal shower gift", "ceramic tray"],
+    materials: ["ceramic", "glaze", "gold paint"],
+    tone: "warm",
+    priceBand: "$20-$35",
+    processingTimeDays: 3,
+    personalization: true,
+    locale: "en-US",
+    variantCount: 4
+  });
+
+  const pack = buildListingPack(input);
+
+  assert.equal(pack.variants.length, 4);
+  assert.equal(new Set(pack.variants.map((variant) => variant.strategy)).size, 4);
+  assert.equal(pack.title, pack.variants[0].title);
+  assert.ok(pack.variants.every((variant) => variant.title.length === variant.titleLength && variant.titleLength <= 140));
+  assert.ok(pack.variants.every((variant, index) => index === 0 || variant.score <= pack.variants[index - 1].score));
+
+  const switched = applyListingVariant(pack, input, "v2");
+  assert.equal(switched.title, pack.variants[1].title);
+  assert.deepEqual(switched.tags, pack.variants[1].tags);
+  assert.throws(() => applyListingVariant(pack, input, "v9"), /invalid_variantId/);
+});
+
+test("buildListingPack tailors digital downloads away from shipping content", () => {
+  const input = sanitizeListingInput({
+    shopName: "Bloom Daily Studio",
+    productType: "undated digital planner",
+    targetAudience: "busy professionals",
+    primaryKeyword: "digital planner",
+    supportingKeywords: ["notion planner", "productivity download"],
+    materials: [],
+    tone: "playful",
+    priceBand: "$9-$19",
+    processingTimeDays: 0,
+    personalization: false,
+    locale: "en-US",
+    productKind: "digital_download"
+  });
+
+  const pack = buildListingPack(input);
+  const text = JSON.stringify([pack.faq, pack.photoShotList, pack.launchChecklist]).toLowerCase();
+
+  assert.equal(input.productKind, "digital_download");
+  assert.ok(pack.faq.some((item) => /file formats/i.test(item.question)));
+  assert.ok(pack.faq.some((item) => /personal use/i.test(item.answer)));
+  assert.ok(!text.includes("ship?") && !text.includes("dispatch"));
+  assert.ok(pack.photoShotList.some((shot) => /mockup/i.test(shot)));
+  assert.ok(pack.tags.includes("instant download"));
+});
+
+test("sanitizeListingInput only allows zero processing days for digital kinds", () => {
+  const base = {
+    shopName: "Northwind",
+    productType: "print",
+    targetAudience: "pet owners",
+    primaryKeyword: "dog memorial print",
+    supportingKeywords: ["pet loss gift"],
+    materials: [],
+    tone: "minimal" as const,
+    priceBand: "$10-$20",
+    processingTimeDays: 0,
+    personalization: false,
+    locale: "en-US" as const
+  };
+
+  assert.throws(() => sanitizeListingInput({ ...base, productKind: "ready_to_ship" }), /invalid_processingTimeDays/);
+  assert.equal(sanitizeListingInput({ ...base, productKind: "printable" }).processingTimeDays, 0);
+  assert.throws(() => sanitizeListingInput({ ...base, productKind: "sculpture" as never }), /invalid_productKind/);
+});
+
+test("category rule packs add vertical FAQ, shots, tags and checklist items", () => {
+  const input = sanitizeListingInput({
+    shopName: "Ember Wick Co",
+    productType: "soy candle",
+    targetAudience: "cozy home lovers",
+    primaryKeyword: "lavender candle",
+    supportingKeywords: ["relaxing gift"],
+    materials: ["soy wax", "cotton wick"],
+    tone: "warm",
+    priceBand: "$18-$28",
+    processingTimeDays: 2,
+    personalization: false,
+    locale: "en-US",
+    productKind: "ready_to_ship",
+    category: "Candle"
+  });
+
+  const pack = buildListingPack(input);
+
+  assert.equal(input.category, "candles");
+  assert.ok(pack.faq.some((item) => /burn/i.test(item.question)));
+  assert.ok(pack.photoShotList.some((shot) => /safety warning/i.test(shot)));
+  assert.ok(pack.tags.includes("scented candle"));
+  assert.ok(pack.launchChecklist.includes(`Upload all ${pack.photoShotList.length} photos before publishing`));
+  assert.ok(pack.photoShotList.length <= 10);
+});
+
+test("registerCategoryRulePack adds custom verticals", () => {
+  registerCategoryRulePack({
+    id: "pet-accessories",
+    label: "Pet accessories",
+    aliases: ["dog collars"],
+    faq: [{ question: "How do I measure my dog?", answer: "Measure the neck two fingers loose." }],
+    photoShots: ["Collar on a dog"],
+    tagSeeds: ["dog collar"],
+    checklist: ["Add neck size variations"]
+  });
+
+  const input = sanitizeListingInput({
+    shopName: "Northwind",
+    productType: "collar",
+    targetAudience: "dog owners",
+    primaryKeyword: "leather dog collar",
+    supportingKeywords: ["puppy gift"],
+    materials: [],
+    tone: "minimal",
+    priceBand: "$10-$20",
+    processingTimeDays: 4,
+    personalization: false,
+    locale: "en-US",
+    category: "dog collars"
+  });
+
+  assert.equal(input.category, "pet-accessories");
+  assert.ok(buildListingPack(input).launchChecklist.includes("Add neck size variations"));
+  assert.throws(() => sanitizeListingInput({ ...input, category: "furniture" }), /invalid_category/);
+});
+
+test("localizeText applies whole-word, case-preserving locale spelling", () => {
+  assert.equal(localizeText("Color Block Jewelry Organizer", "en-GB"), "Colour Block Jewellery Organiser");
+  assert.equal(localizeText("COLORFUL catalog", "en-AU"), "COLOURFUL catalogue");
+  assert.equal(localizeText("Personalized colorway center", "en-CA"), "Personalized colourway centre");
+  assert.equal(localizeText("watercolors and discolored sizes", "en-GB"), "watercolors and discolored sizes");
+  assert.equal(localizeText("Favorite color", "en-US"), "Favorite color");
+});
+
+test("buildListingPack localizes title, tags and copy for the chosen locale", () => {
+  const input = sanitizeListingInput({
+    shopName: "Silver Fern",
+    productType: "jewelry organizer",
+    targetAudience: "jewelry lovers",
+    primaryKeyword: "jewelry organizer",
+    supportingKeywords: ["gray jewelry box", "color travel case"],
+    materials: ["wood"],
+    tone: "minimal",
+    priceBand: "$30-$45",
+    processingTimeDays: 2,
+    personalization: true,
+    locale: "en_gb" as never
+  });
+
+  const pack = buildListingPack(input);
+  const text = JSON.stringify([pack.title, pack.tags, pack.description, pack.faq, pack.launchChecklist]);
+
+  assert.equal(input.locale, "en-GB");
+  assert.ok(pack.title.startsWith("Jewellery Organiser"));
+  assert.ok(pack.tags.includes("grey jewellery box"));
+  assert.ok(!/jewelry|organiz|personaliz|\bcolor/i.test(text));
+  assert.ok(pack.tags.every((tag) => tag.length <= 20));
+});
+
+test("buildListingPack writes German packs from the German catalog and keeps umlauts in tags", () => {
+  const input = sanitizeListingInput({
+    shopName: "Kerzenwerk",
+    productType: "Duftkerze",
+    targetAudience: "Mütter",
+    primaryKeyword: "Kerze für Mütter",
+    supportingKeywords: ["Sojawachs Kerze", "Geschenk Muttertag"],
+    materials: ["Sojawachs", "Baumwolldocht"],
+    tone: "warm",
+    priceBand: "18-28 €",
+    processingTimeDays: 2,
+    personalization: false,
+    locale: "en-US",
+    language: "de",
+    productKind: "ready_to_ship",
+    category: "candles"
+  });
+
+  const pack = buildListingPack(input);
+  const text = JSON.stringify([pack.description, pack.faq, pack.photoShotList, pack.launchChecklist]);
+
+  assert.equal(input.primaryKeyword, "kerze für mütter");
+  assert.ok(pack.tags.includes("kerze für mütter"));
+  assert.ok(pack.tags.includes("duftkerze geschenk"));
+  assert.ok(pack.faq.some((item) => item.question === "Wie lange brennt die Kerze?"));
+  assert.match(pack.description, /2 Werktage/);
+  assert.ok(!/\b(the|buyers|shipping|photo)\b/i.test(text));
+  assert.ok(pack.tags.every((tag) => tag.length <= 20));
+});
+
+test("buildListingPack localizes rationales, rubric notes, suggestions and tone labels", () => {
+  const english = new RegExp(
+    `\\b(${[
+      "leads with",
+      "stacks",
+      "front-load",
+      "tag slots?",
+      "supporting keywords?",
+      "primary keyword",
+      "offer personalization",
+      "materials? listed",
+      "processing",
+      "sentences average",
+      "rewrite",
+      "mention",
+      "warm"
+    ].join("|")})\\b`,
+    "i"
+  );
+  const tones = { de: "Tonfall herzlich", fr: "Ton chaleureux", es: "Tono cálido" };
+
+  for (const language of ["de", "fr", "es"] as const) {
+    const input = sanitizeListingInput({
+      shopName: "Atelier Nord",
+      productType: "bougie",
+      targetAudience: "mamans",
+      primaryKeyword: "bougie parfumée",
+      supportingKeywords: ["cire de soja"],
+      materials: ["cire de soja"],
+      tone: "warm",
+      priceBand: "18-28 €",
+      processingTimeDays: 5,
+      personalization: false,
+      locale: "en-US",
+      language,
+      productKind: "ready_to_ship"
+    });
+    const pack = buildListingPack(input);
+    const notes = [
+      ...pack.variants.map((variant) => variant.rationale),
+      ...pack.scoreBreakdown.map((factor) => factor.evidence),
+      ...pack.recommendations.map((recommendation) => recommendation.action),
+      ...pack.descriptionAnalysis.suggestions
+    ];
+
+    assert.ok(pack.recommendations.length);
+    assert.ok(notes.every((note) => !english.test(note)), `${language}: ${notes.find((note) => english.test(note))}`);
+    assert.ok(pack.highlights.some((line) => line.startsWith(`${tones[language]} `)));
+  }
+});
+
+test("sanitizeListingInput rejects unsupported languages", () => {
+  assert.throws(
+    () =>
+      sanitizeListingInput({
+        shopName: "Northwind",
+        productType: "print",
+        targetAudience: "art lovers",
+        primaryKeyword: "botanical print",
+        supportingKeywords: ["wall art"],
+        materials: [],
+        tone: "minimal",
+        priceBand: "$10-$20",
+        processingTimeDays: 2,
+        personalization: false,
+        locale: "en-US",
+        language: "it" as never
+      }),
+    /invalid_language/
+  );
+});
+
+test("buildListingPack splits long keywords, folds plurals and reports keyword coverage", () => {
+  const input = sanitizeListingInput({
+    shopName: "Copper Pine Studio",
+    productType: "ring dish",
+    targetAudience: "bridal party",
+    primaryKeyword: "ring dish",
+    supportingKeywords: ["ring dishes", "dish ring", "personalized wedding ring holder", "supercalifragilisticexpialidocious"],
+    materials: ["ceramic"],
+    tone: "warm",
+    priceBand: "$20-$35",
+    processingTimeDays: 3,
+    personalization: true,
+    locale: "en-US",
+    variantCount: 1
+  });
+
+  const pack = buildListingPack(input);
+  const coverage = new Map(pack.tagCoverage.map((item) => [item.keyword, item]));
+
+  assert.ok(pack.tags.includes("ring dish"));
+  assert.ok(!pack.tags.includes("ring dishes"));
+  assert.ok(!pack.tags.includes("dish ring"));
+  assert.ok(pack.tags.includes("personalized wedding"));
+  assert.ok(pack.tags.includes("ring holder"));
+  assert.ok(pack.tags.indexOf("etsy seller") > pack.tags.indexOf("dish"));
+  assert.ok(pack.tags.every((tag) => tag.length <= 20));
+
+  assert.equal(coverage.get("ring dish")?.source, "primary");
+  assert.equal(coverage.get("ring dish")?.inTitle, true);
+  assert.match(coverage.get("ring dishes")?.reason ?? "", /Folded into tag "ring dish"/);
+  assert.equal(coverage.get("personalized wedding ring holder")?.status, "split");
+  assert.deepEqual(coverage.get("personalized wedding ring holder")?.tags, ["personalized wedding", "ring holder"]);
+  assert.equal(coverage.get("supercalifragilisticexpialidocious")?.status, "dropped");
+  assert.match(coverage.get("supercalifragilisticexpialidocious")?.reason ?? "", /longer than 20/);
+});
+
+test("buildListingPack suggests ranked Etsy category paths and attributes", () => {
+  const input = sanitizeListingInput({
+    shopName: "Copper Pine Studio",
+    productType: "ceramic ring dish",
+    targetAudience: "bridesmaids",
+    primaryKeyword: "personalized ring dish",
+    supportingKeywords: ["bridesmaid gift", "minimalist jewelry tray", "sage green"],
+    materials: ["ceramic"],
+    tone: "warm",
+    priceBand: "$20-$35",
+    processingTimeDays: 3,
+    personalization: true,
+    locale: "en-US",
+    category: "jewelry"
+  });
+
+  const { categories, attributes } = buildListingPack(input).taxonomy;
+  const values = attributes.map((item) => `${item.attribute}:${item.value}`);
+
+  assert.equal(categories[0].path, "Jewelry > Jewelry Storage > Ring Dishes");
+  assert.equal(categories[0].rank, 1);
+  assert.ok(categories.every((item, index) => index === 0 || item.score <= categories[index - 1].score));
+  assert.ok(values.includes("occasion:Wedding"));
+  assert.ok(values.includes("recipient:Bridesmaids"));
+  assert.ok(values.includes("primary_color:Green"));
+  assert.ok(values.includes("style:Minimalist"));
+});
+
+test("variations produce a priced table, options FAQ and comparison shot that round-trip", () => {
+  const base = {
+    shopName: "Copper Pine Studio",
+    productType: "ring dish",
+    targetAudience: "bridal party",
+    primaryKeyword: "personalized ring dish",
+    supportingKeywords: ["bridesmaid gift"],
+    materials: ["ceramic"],
+    tone: "warm" as const,
+    priceBand: "$20-$35",
+    processingTimeDays: 3,
+    personalization: false,
+    locale: "en-US" as const
+  };
+  const input = sanitizeListingInput({
+    ...base,
+    variations: [
+      { property: "Size", options: [{ name: "Small", price: 22 }, { name: "Large", price: 31.999 }] },
+      { property: "Color", options: [{ name: "Sage" }, { name: "Sand" }, { name: "Cream" }] }
+    ]
+  });
+
+  const pack = buildListingPack(input);
+  const plain = buildListingPack(sanitizeListingInput(base));
+
+  assert.deepEqual(pack.variationTable?.properties, ["Size", "Color"]);
+  assert.equal(pack.variationTable?.pricedBy, "Size");
+  assert.equal(pack.variationTable?.rows.length, 6);
+  assert.deepEqual(pack.variationTable?.rows[5], { options: ["Large", "Cream"], price: 32 });
+  assert.match(pack.faq[1].answer, /size \(Small, Large\) and color \(Sage, Sand, Cream\)/);
+  assert.match(pack.faq[1].answer, /Price depends on the size/);
+  assert.ok(pack.photoShotList.includes("Color or variation comparison grid"));
+  assert.equal(plain.variationTable, undefined);
+  assert.ok(!plain.photoShotList.includes("Color or variation comparison grid"));
+  assert.ok(!plain.faq.some((item) => item.question === "Which options can I choose?"));
+  assert.deepEqual(sanitizeListingInput(JSON.parse(JSON.stringify(input))), input);
+
+  assert.throws(
+    () =>
+      sanitizeListingInput({
+        ...base,
+        variations: [
+          { property: "Size", options: [{ name: "Small", price: 22 }] },
+          { property: "Color", options: [{ name: "Sage", price: 25 }] }
+        ]
+      }),
+    /invalid_variations/
+  );
+});
+
+test("applyPackOverrides validates edits, rescores the pack and keeps locked fields on rebuild", () => {
+  const input = sanitizeListingInput({
+    shopName: "Copper Pine Studio",
+    productType: "ring dish",
+    targetAudience: "bridal party",
+    primaryKeyword: "personalized ring dish",
+    supportingKeywords: ["engagement gift", "bridal shower gift", "ceramic tray"],
+    materials: ["ceramic", "glaze"],
+    tone: "warm",
+    priceBand: "$20-$35",
+    processingTimeDays: 3,
+    personalization: true,
+    locale: "en-US"
+  });
+  const pack = buildListingPack(input);
+  const tooManyTags = Array.from({ length: 14 }, (_, index) => `tag ${index}`);
+
+  assert.throws(() => sanitizePackOverrides({ title: "x".repeat(141) }), /invalid_title/);
+  assert.throws(() => sanitizePackOverrides({ tags: tooManyTags }), /invalid_tags/);
+  assert.throws(() => sanitizePackOverrides({ tags: ["handmade ceramic dish tray"] }), /invalid_tags/);
+  assert.throws(() => sanitizePackOverrides({ tags: ["Ring Dish", "ring dish"] }), /invalid_tags/);
+  assert.throws(() => sanitizePackOverrides({ tags: ["ring dish", "Ring Dishes!"] }), /invalid_tags/);
+  assert.throws(() => sanitizePackOverrides({ tags: ["!!!"] }), /invalid_tags/);
+  assert.deepEqual(sanitizePackOverrides({ tags: ["  Ring   Dish! "] }).tags, ["ring dish"]);
+  assert.throws(() => sanitizePackOverrides({ score: 100 }), /invalid_overrides/);
+
+  const overrides = sanitizePackOverrides({ title: "  Ring   Dish  ", tags: [...pack.tags.slice(3), "wedding favor"] });
+  const edited = applyPackOverrides(pack, input, overrides);
+
+  assert.equal(edited.title, "Ring Dish");
+  assert.equal(edited.tags.length, pack.tags.length - 2);
+  assert.deepEqual(edited.lockedFields, ["title", "tags"]);
+  assert.equal(edited.description, pack.description);
+  assert.ok(edited.score < pack.score);
+  assert.notDeepEqual(edited.recommendations, pack.recommendations);
+
+  const switched = applyListingVariant(edited, input, "v2");
+  assert.equal(switched.title, "Ring Dish");
+  assert.deepEqual(switched.tags, edited.tags);
+
+  const rebuilt = keepLockedFields(edited, buildListingPack({ ...input, shopName: "Clay Co" }), input);
+  assert.equal(rebuilt.title, "Ring Dish");
+  assert.deepEqual(rebuilt.tags, edited.tags);
+  assert.equal(rebuilt.score, edited.score);
+  assert.deepEqual(rebuilt.lockedFields, ["title", "tags"]);
+});
+
+test("title keyword placement uses the earliest primary or localized keyword match", () => {
+  const input = sanitizeListingInput({
+    shopName: "Copper Pine Studio",
+    productType: "ring dish",
+    targetAudience: "bridal party",
+    primaryKeyword: "personalized ring dish",
+    supportingKeywords: ["engagement gift"],
+    materials: ["ceramic"],
+    tone: "warm",
+    priceBand: "$20-$35",
+    processingTimeDays: 3,
+    personalization: true,
+    locale: "en-GB"
+  });
+  const title = "Personalised Ring Dish, Engagement Gift, Ceramic Tray, Also Sold As Personalized Ring Dish";
+  const placement = scoreListing(input, { title, tags: [] }).scoreBreakdown.find(
+    (factor) => factor.factor === "Title keyword placement"
+  );
+
+  assert.deepEqual(findTitleKeyword("a ring dish and a dish", ["dish", "ring dish", "bowl"]), { index: 2, length: 9 });
+  assert.equal(findTitleKeyword("ring dish", ["bowl"]), undefined);
+  assert.equal(placement?.earned, placement?.possible);
+  assert.equal(placement?.evidence, "Primary keyword starts at title character 1");
+});
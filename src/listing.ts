@@ -1,5 +1,32 @@
+import {
+  catalogFor,
+  normalizeLanguage,
+  type DescriptionSection,
+  type FaqEntry,
+  type ListingLanguage,
+  type TemplateCatalog,
+  type TemplateContext
+} from "./catalog.js";
+import { categoryContent, findCategoryRulePack } from "./categories.js";
+import {
+  applyCompliancePenalty,
+  countTitleWords,
+  lintCompliance,
+  MAX_TITLE_WORD_REPEATS,
+  type ComplianceFinding
+} from "./compliance.js";
+import { explainKeywordResearch, type KeywordResearchResult, type KeywordResearchRow } from "./keywords.js";
+import { localizeText, normalizeLocale, type ListingLocale } from "./locale.js";
+import { buildPricingAnalysis, normalizePricingInput, type PricingAnalysis, type PricingInput } from "./pricing.js";
+import { buildShippingPlan, type ShippingPlan, type ShippingProfile } from "./shipping.js";
+import type { ShopBrand } from "./shop.js";
+import { suggestTaxonomy, type TaxonomySuggestions } from "./taxonomy.js";
+import { analyzeText, type TextAnalysis } from "./text-analysis.js";
+
 export type ListingTone = "playful" | "minimal" | "luxury" | "warm";
 
+export const LISTING_TONES: ListingTone[] = ["playful", "minimal", "luxury", "warm"];
+
 export type ListingInput = {
   shopName: string;
   productType: string;
@@ -11,25 +38,180 @@ export type ListingInput = {
   priceBand: string;
   processingTimeDays: number;
   personalization: boolean;
-  includeUkSpelling: boolean;
+  locale: ListingLocale;
+  language?: ListingLanguage;
+  productKind?: ProductKind;
+  category?: string;
+  variantCount?: number;
+  variations?: ListingVariation[];
+  pricing?: PricingInput;
+  shipping?: ShippingProfile;
+  keywordResearch?: KeywordResearchRow[];
+  shop?: ShopBrand;
+};
+
+export type VariationOption = {
+  name: string;
+  price?: number;
+  quantity?: number;
+};
+
+export type ListingVariation = {
+  property: string;
+  options: VariationOption[];
+};
+
+export type VariationRow = {
+  options: string[];
+  price?: number;
+  quantity?: number;
+};
+
+export type VariationTable = {
+  properties: string[];
+  pricedBy?: string;
+  stockedBy?: string;
+  rows: VariationRow[];
+};
+
+export type ProductKind = "ready_to_ship" | "made_to_order" | "digital_download" | "printable";
+
+export type TitleStrategy = "keyword_first" | "benefit_first" | "audience_first" | "long_tail";
+
+export type ListingVariant = {
+  variantId: string;
+  rank: number;
+  strategy: TitleStrategy;
+  title: string;
+  titleLength: number;
+  tags: string[];
+  score: number;
+  rationale: string;
+};
+
+export type KeywordCoverageStatus = "tagged" | "split" | "title_only" | "dropped";
+
+export type KeywordCoverage = {
+  keyword: string;
+  source: "primary" | "supporting";
+  status: KeywordCoverageStatus;
+  tags: string[];
+  inTitle: boolean;
+  reason: string;
+};
+
+export type ScoreFactor = {
+  factor: string;
+  earned: number;
+  possible: number;
+  evidence: string;
+};
+
+export type ScoreRecommendation = {
+  rank: number;
+  factor: string;
+  pointsAvailable: number;
+  action: string;
+};
+
+export type ListingScore = {
+  score: number;
+  scoreBreakdown: ScoreFactor[];
+  recommendations: ScoreRecommendation[];
 };
 
 export type ListingPack = {
   generatedAt: string;
+  generatorVersion?: string;
   score: number;
+  scoreBreakdown: ScoreFactor[];
+  recommendations: ScoreRecommendation[];
+  compliance: ComplianceFinding[];
   title: string;
   tags: string[];
   highlights: string[];
   description: string;
+  descriptionSections?: DescriptionSection[];
+  descriptionAnalysis: TextAnalysis;
   faq: Array<{ question: string; answer: string }>;
   photoShotList: string[];
   launchChecklist: string[];
+  variants: ListingVariant[];
+  tagCoverage: KeywordCoverage[];
+  taxonomy: TaxonomySuggestions;
+  variationTable?: VariationTable;
+  pricing?: PricingAnalysis;
+  shipping?: ShippingPlan;
+  keywordResearch?: KeywordResearchResult[];
+  lockedFields?: PackOverrideField[];
 };
 
+export type LegacyListingPack = Partial<ListingPack> &
+  Pick<
+    ListingPack,
+    | "generatedAt"
+    | "score"
+    | "title"
+    | "tags"
+    | "highlights"
+    | "description"
+    | "faq"
+    | "photoShotList"
+    | "launchChecklist"
+  >;
+
+export type PackOverrideField =
+  | "title"
+  | "tags"
+  | "description"
+  | "highlights"
+  | "faq"
+  | "photoShotList"
+  | "launchChecklist";
+
+export type PackOverrides = Partial<Pick<ListingPack, PackOverrideField>>;
+
+export const PACK_OVERRIDE_FIELDS: PackOverrideField[] = [
+  "title",
+  "tags",
+  "description",
+  "highlights",
+  "faq",
+  "photoShotList",
+  "launchChecklist"
+];
+
 const MAX_KEYWORDS = 16;
-const MAX_MATERIALS = 12;
-const MAX_TAGS = 13;
-const MAX_TITLE_LENGTH = 140;
+const MAX_OVERRIDE_DESCRIPTION_LENGTH = 10000;
+const MAX_OVERRIDE_LINES = 30;
+const MAX_OVERRIDE_LINE_LENGTH = 600;
+const MAX_OVERRIDE_FAQ = 20;
+export const MAX_MATERIALS = 12;
+export const GENERATOR_VERSION = "1.4.0";
+export const MAX_TAGS = 13;
+export const MAX_TAG_LENGTH = 20;
+export const MAX_TITLE_LENGTH = 140;
+export const TITLE_LEAD_LENGTH = 40;
+const MAX_PHOTOS = 10;
+const MAX_VARIATION_PROPERTIES = 2;
+const MAX_VARIATION_OPTIONS = 70;
+const MAX_VARIATION_PRICE = 50000;
+const MAX_VARIATION_QUANTITY = 999;
+export const MAX_PROCESSING_DAYS = 45;
+const MAX_TRANSIT_DAYS = 60;
+const MAX_SHIPPING_REGIONS = 10;
+const MAX_SHIPPING_UPGRADES = 4;
+const MAX_RESEARCH_ROWS = 500;
+const MAX_SEARCHES = 100000000;
+const MAX_VARIANTS = 4;
+const DEFAULT_VARIANTS = 3;
+const TITLE_STRATEGIES: TitleStrategy[] = ["keyword_first", "benefit_first", "audience_first", "long_tail"];
+const TITLE_SUPPORTING_LIMITS: Record<TitleStrategy, number> = {
+  keyword_first: 1,
+  benefit_first: 2,
+  audience_first: 1,
+  long_tail: 4
+};
 
 function normalizePhrase(value: string, key: string, maxLength = 80): string {
   const trimmed = value.trim().replace(/\s+/g, " ");
@@ -39,35 +221,255 @@ function normalizePhrase(value: string, key: string, maxLength = 80): string {
   return trimmed;
 }
 
-function normalizeKeyword(value: string): string {
-  return value
-    .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9&\-\s]/gi, "")
-    .replace(/\s+/g, " ")
-    .trim();
+export function normalizeKeyword(value: string, language: ListingLanguage = "en"): string {
+  const lowered = value.trim().normalize("NFC").toLocaleLowerCase(language);
+  const stripped =
+    language === "en"
+      ? lowered.normalize("NFD").replace(/\p{M}/gu, "").replace(/[^a-z0-9&\-\s]/g, "")
+      : lowered.replace(/[^\p{L}\p{N}&\-\s]/gu, "");
+  return stripped.replace(/\s+/g, " ").trim();
 }
 
 function normalizeBoolean(value: boolean): boolean {
   return value === true;
 }
 
-function normalizeDays(value: number): number {
-  if (!Number.isInteger(value) || value < 1 || value > 45) {
-    throw new Error("invalid_processingTimeDays");
+function normalizeDays(value: number, key: string, minimum: number, maximum: number): number {
+  if (!Number.isInteger(value) || value < minimum || value > maximum) {
+    throw new Error(`invalid_${key}`);
+  }
+  return value;
+}
+
+function normalizeDayRange<T extends { minDays: number; maxDays: number }>(range: T): T {
+  const minDays = normalizeDays(range.minDays, "shipping", 1, MAX_TRANSIT_DAYS);
+  const maxDays = normalizeDays(range.maxDays, "shipping", minDays, MAX_TRANSIT_DAYS);
+  return { ...range, minDays, maxDays };
+}
+
+function normalizeShipping(value: ShippingProfile | undefined, kind: ProductKind): ShippingProfile | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  if (typeof value !== "object" || isDigitalKind(kind) || !Array.isArray(value.regions) || !value.regions.length) {
+    throw new Error("invalid_shipping");
+  }
+  if (value.regions.length > MAX_SHIPPING_REGIONS || (value.upgrades?.length ?? 0) > MAX_SHIPPING_UPGRADES) {
+    throw new Error("invalid_shipping");
+  }
+
+  const originCountry = normalizePhrase(String(value.originCountry ?? ""), "shipping", 60);
+  const regions = value.regions.map((region) =>
+    normalizeDayRange({
+      region: normalizePhrase(String(region?.region ?? ""), "shipping", 60),
+      minDays: region?.minDays,
+      maxDays: region?.maxDays
+    })
+  );
+  const upgrades = (value.upgrades ?? []).map((upgrade) => {
+    const normalized = normalizeDayRange({
+      name: normalizePhrase(String(upgrade?.name ?? ""), "shipping", 40),
+      minDays: upgrade?.minDays,
+      maxDays: upgrade?.maxDays
+    });
+    if (upgrade?.price == null) {
+      return normalized;
+    }
+    if (!Number.isFinite(upgrade.price) || upgrade.price < 0 || upgrade.price > MAX_VARIATION_PRICE) {
+      throw new Error("invalid_shipping");
+    }
+    return { ...normalized, price: Math.round(upgrade.price * 100) / 100 };
+  });
+
+  const threshold = value.freeShippingThreshold;
+  if (threshold != null && (!Number.isFinite(threshold) || threshold <= 0 || threshold > MAX_VARIATION_PRICE)) {
+    throw new Error("invalid_shipping");
+  }
+
+  return {
+    originCountry,
+    regions,
+    ...(threshold != null ? { freeShippingThreshold: Math.round(threshold * 100) / 100 } : {}),
+    ...(upgrades.length ? { upgrades } : {})
+  };
+}
+
+function normalizeProductKind(value: string | undefined, personalization: boolean): ProductKind {
+  if (value == null) {
+    return personalization ? "made_to_order" : "ready_to_ship";
+  }
+  const kind = value.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if (kind === "ready_to_ship" || kind === "made_to_order" || kind === "digital_download" || kind === "printable") {
+    return kind;
+  }
+  throw new Error("invalid_productKind");
+}
+
+function normalizeCategory(value: string | undefined): string | undefined {
+  if (value == null || !value.trim()) {
+    return undefined;
+  }
+  const rulePack = findCategoryRulePack(value);
+  if (!rulePack) {
+    throw new Error("invalid_category");
+  }
+  return rulePack.id;
+}
+
+function normalizeVariantCount(value: number | undefined): number {
+  if (value == null) {
+    return DEFAULT_VARIANTS;
+  }
+  if (!Number.isInteger(value) || value < 1 || value > MAX_VARIANTS) {
+    throw new Error("invalid_variantCount");
   }
   return value;
 }
 
+function normalizeVariationOption(option: VariationOption): VariationOption {
+  if (!option || typeof option !== "object" || typeof option.name !== "string") {
+    throw new Error("invalid_variations");
+  }
+  const normalized: VariationOption = { name: normalizePhrase(option.name, "variations", 20) };
+  if (option.price != null) {
+    if (!Number.isFinite(option.price) || option.price <= 0 || option.price > MAX_VARIATION_PRICE) {
+      throw new Error("invalid_variations");
+    }
+    normalized.price = Math.round(option.price * 100) / 100;
+  }
+  if (option.quantity != null) {
+    if (!Number.isInteger(option.quantity) || option.quantity < 0 || option.quantity > MAX_VARIATION_QUANTITY) {
+      throw new Error("invalid_variations");
+    }
+    normalized.quantity = option.quantity;
+  }
+  return normalized;
+}
+
+function normalizeRatio(value: number | undefined): number | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  if (typeof value !== "number" || !Number.isFinite(value) || value < 0 || value > 1) {
+    throw new Error("invalid_keywordResearch");
+  }
+  return Math.round(value * 1000) / 1000;
+}
+
+function normalizeKeywordResearch(
+  value: KeywordResearchRow[] | undefined,
+  language: ListingLanguage
+): KeywordResearchRow[] | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || !value.length || value.length > MAX_RESEARCH_ROWS) {
+    throw new Error("invalid_keywordResearch");
+  }
+
+  const rows = new Map<string, KeywordResearchRow>();
+  for (const row of value) {
+    const keyword = normalizeKeyword(normalizePhrase(String(row?.keyword ?? ""), "keywordResearch", 80), language);
+    const monthlySearches = row?.monthlySearches;
+    if (
+      !keyword ||
+      typeof monthlySearches !== "number" ||
+      !Number.isInteger(monthlySearches) ||
+      monthlySearches < 0 ||
+      monthlySearches > MAX_SEARCHES
+    ) {
+      throw new Error("invalid_keywordResearch");
+    }
+    const competition = normalizeRatio(row.competition) ?? 0.5;
+    const ctr = normalizeRatio(row.ctr);
+    const existing = rows.get(keyword);
+    if (!existing || existing.monthlySearches < monthlySearches) {
+      rows.set(keyword, { keyword, monthlySearches, competition, ...(ctr != null ? { ctr } : {}) });
+    }
+  }
+
+  return [...rows.values()];
+}
+
+function normalizeVariations(value: ListingVariation[] | undefined): ListingVariation[] | undefined {
+  if (value == null) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.length > MAX_VARIATION_PROPERTIES) {
+    throw new Error("invalid_variations");
+  }
+
+  const properties = new Set<string>();
+  const variations = value.map((variation) => {
+    if (!variation || typeof variation !== "object" || !Array.isArray(variation.options)) {
+      throw new Error("invalid_variations");
+    }
+    const property = normalizePhrase(String(variation.property ?? ""), "variations", 45);
+    const options = variation.options.map(normalizeVariationOption);
+    const names = new Set(options.map((option) => option.name.toLowerCase()));
+    if (properties.has(property.toLowerCase()) || !options.length || options.length > MAX_VARIATION_OPTIONS) {
+      throw new Error("invalid_variations");
+    }
+    if (names.size !== options.length) {
+      throw new Error("invalid_variations");
+    }
+    for (const key of ["price", "quantity"] as const) {
+      const set = options.filter((option) => option[key] != null).length;
+      if (set > 0 && set < options.length) {
+        throw new Error("invalid_variations");
+      }
+    }
+    properties.add(property.toLowerCase());
+    return { property, options };
+  });
+
+  if (
+    variations.filter((variation) => variation.options[0].price != null).length > 1 ||
+    variations.filter((variation) => variation.options[0].quantity != null).length > 1
+  ) {
+    throw new Error("invalid_variations");
+  }
+
+  return variations.length ? variations : undefined;
+}
+
+export function buildVariationTable(variations: ListingVariation[] | undefined): VariationTable | undefined {
+  if (!variations?.length) {
+    return undefined;
+  }
+
+  let rows: VariationRow[] = [{ options: [] }];
+  for (const variation of variations) {
+    rows = rows.flatMap((row) =>
+      variation.options.map((option) => ({
+        options: [...row.options, option.name],
+        price: option.price ?? row.price,
+        quantity: option.quantity ?? row.quantity
+      }))
+    );
+  }
+
+  return {
+    properties: variations.map((variation) => variation.property),
+    pricedBy: variations.find((variation) => variation.options[0].price != null)?.property,
+    stockedBy: variations.find((variation) => variation.options[0].quantity != null)?.property,
+    rows: rows.map(({ options, price, quantity }) => ({
+      options,
+      ...(price != null ? { price } : {}),
+      ...(quantity != null ? { quantity } : {})
+    }))
+  };
+}
+
 function normalizeTone(value: string): ListingTone {
-  const tone = value.trim().toLowerCase();
-  if (tone === "playful" || tone === "minimal" || tone === "luxury" || tone === "warm") {
-    return tone;
+  const tone = LISTING_TONES.find((candidate) => candidate === value.trim().toLowerCase());
+  if (!tone) {
+    throw new Error("invalid_tone");
   }
-  throw new Error("invalid_tone");
+  return tone;
 }
 
-function dedupePhrases(values: string[], maxCount: number, key: string): string[] {
+function dedupePhrases(values: string[], maxCount: number, key: string, language: ListingLanguage): string[] {
   if (!Array.isArray(values)) {
     throw new Error(`invalid_${key}`);
   }
@@ -79,7 +481,7 @@ function dedupePhrases(values: string[], maxCount: number, key: string): string[
     if (typeof value !== "string") {
       throw new Error(`invalid_${key}`);
     }
-    const normalized = normalizeKeyword(value);
+    const normalized = normalizeKeyword(value, language);
     if (!normalized || seen.has(normalized)) {
       continue;
     }
@@ -93,14 +495,22 @@ function dedupePhrases(values: string[], maxCount: number, key: string): string[
   return result;
 }
 
-function compactTitle(parts: string[]): string {
+function compactTitle(parts: string[], separator = " | "): string {
+  const seen = new Set<string>();
   const filtered = parts
     .map((part) => part.trim())
-    .filter((part) => part.length > 0);
+    .filter((part) => {
+      const key = part.toLowerCase();
+      if (!part || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
 
   let title = "";
   for (const part of filtered) {
-    const candidate = title ? `${title} | ${part}` : part;
+    const candidate = title ? `${title}${separator}${part}` : part;
     if (candidate.length > MAX_TITLE_LENGTH) {
       break;
     }
@@ -110,121 +520,607 @@ function compactTitle(parts: string[]): string {
   return title || filtered[0] || "Etsy listing";
 }
 
-function toTitleCase(value: string): string {
-  return value
+function languageOf(input: ListingInput): ListingLanguage {
+  return input.language ?? "en";
+}
+
+function localize(value: string, input: ListingInput): string {
+  return languageOf(input) === "en" ? localizeText(value, input.locale) : value;
+}
+
+function templateContext(input: ListingInput): TemplateContext {
+  const catalog = catalogFor(languageOf(input));
+  return {
+    input,
+    digital: isDigitalKind(input.productKind),
+    keyword: catalog.titleCase(localize(input.primaryKeyword, input)),
+    product: catalog.titleCase(localize(input.productType, input)),
+    audience: catalog.titleCase(localize(input.targetAudience, input))
+  };
+}
+
+function singularize(word: string, language: ListingLanguage): string {
+  if (word.length <= 3) {
+    return word;
+  }
+  if (language === "de") {
+    return word.replace(/(en|n|e|s)$/, "");
+  }
+  if (language === "fr") {
+    return word.replace(/[sx]$/, "");
+  }
+  if (language === "es") {
+    return word.replace(/([^aeiou])es$/, "$1").replace(/s$/, "");
+  }
+  if (/ies$/.test(word) && word.length > 4) {
+    return word.replace(/ies$/, "y");
+  }
+  if (/(ch|sh|x|z|ss)es$/.test(word)) {
+    return word.replace(/es$/, "");
+  }
+  if (/[^su]s$/.test(word) && !/is$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+export function tagFoldKey(tag: string, language: ListingLanguage = "en"): string {
+  return tag
     .split(" ")
     .filter(Boolean)
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .map((word) => singularize(word, language))
+    .sort()
     .join(" ");
 }
 
-function pushTag(tags: string[], candidate: string): void {
-  const normalized = normalizeKeyword(candidate);
-  if (!normalized) {
-    return;
+function splitTag(phrase: string): string[] {
+  if (phrase.length <= MAX_TAG_LENGTH) {
+    return [phrase];
   }
-  if (normalized.length > 20) {
-    return;
-  }
-  if (tags.includes(normalized)) {
-    return;
+
+  const parts: string[] = [];
+  let current = "";
+  for (const word of phrase.split(" ")) {
+    if (word.length > MAX_TAG_LENGTH) {
+      if (current) {
+        parts.push(current);
+      }
+      current = "";
+      continue;
+    }
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length > MAX_TAG_LENGTH) {
+      parts.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
   }
-  if (tags.length >= MAX_TAGS) {
-    return;
+  if (current) {
+    parts.push(current);
   }
-  tags.push(normalized);
+  return parts;
 }
 
-function buildTags(input: ListingInput): string[] {
-  const tags: string[] = [];
+function pushTag(tags: string[], candidate: string, input: ListingInput): void {
+  const language = languageOf(input);
+  const normalized = normalizeKeyword(localize(candidate, input), language);
+  for (const part of splitTag(normalized)) {
+    if (tags.length >= MAX_TAGS) {
+      return;
+    }
+    const key = tagFoldKey(part, language);
+    if (tags.some((tag) => tagFoldKey(tag, language) === key)) {
+      continue;
+    }
+    tags.push(part);
+  }
+}
 
-  const basePool = [
+function tagPool(input: ListingInput, strategy: TitleStrategy): string[] {
+  const language = languageOf(input);
+  const catalog = catalogFor(language);
+  const rulePack = findCategoryRulePack(input.category);
+  const seeds = rulePack ? categoryContent(rulePack, language).tagSeeds : [];
+  const benefit = catalog.tags.benefit(templateContext(input));
+  const productGift = catalog.tags.gift(input.productType);
+  const audienceGift = catalog.tags.gift(input.targetAudience);
+  if (strategy === "benefit_first") {
+    return [
+      benefit,
+      productGift,
+      input.primaryKeyword,
+      ...input.supportingKeywords,
+      ...seeds,
+      audienceGift,
+      input.productType,
+      input.targetAudience
+    ];
+  }
+  if (strategy === "audience_first") {
+    return [
+      audienceGift,
+      input.targetAudience,
+      input.primaryKeyword,
+      ...input.supportingKeywords,
+      ...seeds,
+      productGift,
+      input.productType,
+      benefit
+    ];
+  }
+  return [
     input.primaryKeyword,
     ...input.supportingKeywords,
-    `${input.productType} gift`,
-    `${input.targetAudience} gift`,
+    ...seeds,
+    productGift,
+    audienceGift,
     input.productType,
     input.targetAudience,
-    input.personalization ? "personalized gift" : "ready to ship",
-    "etsy seller"
+    benefit
   ];
+}
+
+function buildTags(input: ListingInput, strategy: TitleStrategy = "keyword_first"): string[] {
+  const catalog = catalogFor(languageOf(input));
+  const tags: string[] = [];
+
+  const basePool = tagPool(input, strategy);
 
   for (const phrase of basePool) {
-    pushTag(tags, phrase);
+    pushTag(tags, phrase, input);
   }
 
   const words = input.primaryKeyword.split(" ").filter((word) => word.length >= 3);
   for (const word of words) {
-    pushTag(tags, word);
-    pushTag(tags, `${word} decor`);
-    pushTag(tags, `${word} idea`);
-  }
-
-  const fallback = [
-    "small business",
-    "handmade",
-    "gift for her",
-    "gift for him",
-    "home decor",
-    "custom order"
-  ];
+    pushTag(tags, word, input);
+  }
 
-  for (const phrase of fallback) {
-    pushTag(tags, phrase);
+  const genericPool = [
+    catalog.tags.seller,
+    ...words.flatMap((word) => [catalog.tags.decor(word), catalog.tags.idea(word)]),
+    ...catalog.tags.fallback
+  ];
+  for (const phrase of genericPool) {
+    pushTag(tags, phrase, input);
   }
 
   return tags.slice(0, MAX_TAGS);
 }
 
-function toneLine(tone: ListingTone): string {
-  if (tone === "playful") {
-    return "written with energetic, friendly language and quick-read rhythm";
+function buildTitle(input: ListingInput, strategy: TitleStrategy): string {
+  const catalog = catalogFor(languageOf(input));
+  const context = templateContext(input);
+  const { keyword, product, audience } = context;
+  const benefit = localize(catalog.benefit(context), input);
+  const supporting = input.supportingKeywords.map((value) => catalog.titleCase(localize(value, input)));
+  const layout = (phrases: string[]): string => {
+    if (strategy === "benefit_first") {
+      return compactTitle([catalog.title.benefitGiftFor(benefit, audience), keyword, product, ...phrases], ", ");
+    }
+    if (strategy === "audience_first") {
+      return compactTitle([catalog.title.audienceGift(audience), keyword, benefit, product, ...phrases], " - ");
+    }
+    if (strategy === "long_tail") {
+      return compactTitle([keyword, ...phrases, product], ", ");
+    }
+    return compactTitle([
+      keyword,
+      product,
+      benefit,
+      catalog.title.giftFor(audience),
+      phrases[0] || catalog.title.fallback
+    ]);
+  };
+
+  const limit = TITLE_SUPPORTING_LIMITS[strategy];
+  const phrases: string[] = [];
+  for (const phrase of supporting) {
+    if (phrases.length >= limit) {
+      break;
+    }
+    const counts = countTitleWords(layout([...phrases, phrase]));
+    if ([...countTitleWords(phrase).keys()].every((word) => (counts.get(word) ?? 0) <= MAX_TITLE_WORD_REPEATS)) {
+      phrases.push(phrase);
+    }
   }
-  if (tone === "minimal") {
-    return "kept clean, concise, and practical for fast scanning";
+  return layout(phrases);
+}
+
+function variantRationale(input: ListingInput, strategy: TitleStrategy): string {
+  return catalogFor(languageOf(input)).variantRationale(templateContext(input), strategy, TITLE_LEAD_LENGTH);
+}
+
+function buildHighlights(input: ListingInput, tagCount: number): string[] {
+  return catalogFor(languageOf(input))
+    .highlights(templateContext(input), tagCount)
+    .map((line) => localize(line, input));
+}
+
+function buildVariants(
+  input: ListingInput,
+  count: number,
+  content: Pick<ListingPack, "description" | "faq">
+): ListingVariant[] {
+  const candidates = TITLE_STRATEGIES.map((strategy) => {
+    const title = buildTitle(input, strategy);
+    const tags = buildTags(input, strategy);
+    const highlights = buildHighlights(input, tags.length);
+    return {
+      strategy,
+      title,
+      tags,
+      score: scoreWithCompliance(input, { ...content, title, tags, highlights }).score,
+      rationale: variantRationale(input, strategy)
+    };
+  });
+
+  return candidates
+    .sort((a, b) => b.score - a.score)
+    .slice(0, count)
+    .map((candidate, index) => ({
+      variantId: `v${index + 1}`,
+      rank: index + 1,
+      strategy: candidate.strategy,
+      title: candidate.title,
+      titleLength: candidate.title.length,
+      tags: candidate.tags,
+      score: candidate.score,
+      rationale: localize(candidate.rationale, input)
+    }));
+}
+
+export function applyListingVariant(pack: ListingPack, input: ListingInput, variantId: string): ListingPack {
+  const variant = pack.variants.find((item) => item.variantId === variantId);
+  if (!variant) {
+    throw new Error("invalid_variantId");
   }
-  if (tone === "luxury") {
-    return "framed with premium cues and elevated craftsmanship language";
+
+  const locked = pack.lockedFields ?? [];
+  const title = locked.includes("title") ? pack.title : variant.title;
+  const tags = locked.includes("tags") ? pack.tags : variant.tags;
+  const tagCoverage = buildTagCoverage(input, { title, tags });
+  const keywordResearch = explainKeywordResearch(input, tagCoverage);
+  return {
+    ...pack,
+    ...scoreWithCompliance(input, { ...pack, title, tags }),
+    title,
+    tags,
+    tagCoverage,
+    ...(keywordResearch ? { keywordResearch } : {})
+  };
+}
+
+function overrideText(value: unknown, key: string, maxLength: number): string {
+  if (typeof value !== "string") {
+    throw new Error(`invalid_${key}`);
+  }
+  const trimmed = value.trim();
+  if (!trimmed || trimmed.length > maxLength) {
+    throw new Error(`invalid_${key}`);
+  }
+  return trimmed;
+}
+
+function overrideList(value: unknown, key: string, maxCount: number): string[] {
+  if (!Array.isArray(value) || value.length > maxCount) {
+    throw new Error(`invalid_${key}`);
+  }
+  return value.map((item) => overrideText(item, key, MAX_OVERRIDE_LINE_LENGTH).replace(/\s+/g, " "));
+}
+
+function overrideTags(value: unknown, language: ListingLanguage): string[] {
+  const tags = overrideList(value, "tags", MAX_TAGS).map((tag) => normalizeKeyword(tag, language));
+  const keys = tags.map((tag) => tagFoldKey(tag, language));
+  if (tags.some((tag) => !tag || tag.length > MAX_TAG_LENGTH) || new Set(keys).size !== keys.length) {
+    throw new Error("invalid_tags");
+  }
+  return tags;
+}
+
+function overrideFaq(value: unknown): ListingPack["faq"] {
+  if (!Array.isArray(value) || value.length > MAX_OVERRIDE_FAQ) {
+    throw new Error("invalid_faq");
+  }
+  return value.map((item) => {
+    if (!item || typeof item !== "object") {
+      throw new Error("invalid_faq");
+    }
+    const entry = item as Record<string, unknown>;
+    return {
+      question: overrideText(entry.question, "faq", MAX_OVERRIDE_LINE_LENGTH),
+      answer: overrideText(entry.answer, "faq", MAX_OVERRIDE_LINE_LENGTH)
+    };
+  });
+}
+
+export function sanitizePackOverrides(
+  overrides: Record<string, unknown>,
+  language: ListingLanguage = "en"
+): PackOverrides {
+  const fields = Object.keys(overrides);
+  if (!fields.length || fields.some((field) => !PACK_OVERRIDE_FIELDS.includes(field as PackOverrideField))) {
+    throw new Error("invalid_overrides");
   }
-  return "balanced for warmth, clarity, and trust";
+
+  return {
+    ...("title" in overrides
+      ? { title: overrideText(overrides.title, "title", MAX_TITLE_LENGTH).replace(/\s+/g, " ") }
+      : {}),
+    ...("tags" in overrides ? { tags: overrideTags(overrides.tags, language) } : {}),
+    ...("description" in overrides
+      ? { description: overrideText(overrides.description, "description", MAX_OVERRIDE_DESCRIPTION_LENGTH) }
+      : {}),
+    ...("highlights" in overrides
+      ? { highlights: overrideList(overrides.highlights, "highlights", MAX_OVERRIDE_LINES) }
+      : {}),
+    ...("faq" in overrides ? { faq: overrideFaq(overrides.faq) } : {}),
+    ...("photoShotList" in overrides
+      ? { photoShotList: overrideList(overrides.photoShotList, "photoShotList", MAX_OVERRIDE_LINES) }
+      : {}),
+    ...("launchChecklist" in overrides
+      ? { launchChecklist: overrideList(overrides.launchChecklist, "launchChecklist", MAX_OVERRIDE_LINES) }
+      : {})
+  };
+}
+
+export function applyPackOverrides(pack: ListingPack, input: ListingInput, overrides: PackOverrides): ListingPack {
+  const { descriptionSections, ...rest } = pack;
+  const merged = {
+    ...rest,
+    ...(descriptionSections && !("description" in overrides) ? { descriptionSections } : {}),
+    ...overrides
+  };
+  const tagCoverage = buildTagCoverage(input, merged);
+  const keywordResearch = explainKeywordResearch(input, tagCoverage);
+  return {
+    ...merged,
+    descriptionAnalysis: analyzeDescription(input, merged.description),
+    ...scoreWithCompliance(input, merged),
+    tagCoverage,
+    ...(keywordResearch ? { keywordResearch } : {}),
+    lockedFields: PACK_OVERRIDE_FIELDS.filter((field) => field in overrides || pack.lockedFields?.includes(field))
+  };
 }
 
-function britishSpelling(value: string, enabled: boolean): string {
-  if (!enabled) {
-    return value;
+export function keepLockedFields(previous: ListingPack, next: ListingPack, input: ListingInput): ListingPack {
+  const locked = previous.lockedFields ?? [];
+  if (!locked.length) {
+    return next;
   }
-  return value
-    .replace(/color/gi, "colour")
-    .replace(/favorite/gi, "favourite")
-    .replace(/customization/gi, "customisation")
-    .replace(/personalization/gi, "personalisation")
-    .replace(/organize/gi, "organise");
+  const overrides = Object.fromEntries(locked.map((field) => [field, previous[field]])) as PackOverrides;
+  return applyPackOverrides(next, input, overrides);
+}
+
+export function isDigitalKind(kind: ProductKind | undefined): boolean {
+  return kind === "digital_download" || kind === "printable";
 }
 
 function roundScore(value: number): number {
   return Math.max(0, Math.min(100, Math.round(value)));
 }
 
+export function findTitleKeyword(title: string, keywords: string[]): { index: number; length: number } | undefined {
+  return keywords
+    .filter(Boolean)
+    .map((keyword) => ({ index: title.indexOf(keyword), length: keyword.length }))
+    .filter((match) => match.index >= 0)
+    .sort((a, b) => a.index - b.index || b.length - a.length)[0];
+}
+
+type RubricEntry = ScoreFactor & { action: string };
+
+function buildRubric(input: ListingInput, listing: { title: string; tags: string[] }): RubricEntry[] {
+  const titleLower = listing.title.toLowerCase();
+  const localizedKeyword = localize(input.primaryKeyword, input).toLowerCase();
+  const keywordMatch = findTitleKeyword(titleLower, [input.primaryKeyword, localizedKeyword]);
+  const keywordIndex = keywordMatch?.index ?? -1;
+  const keywordFrontLoaded = keywordMatch ? keywordMatch.index + keywordMatch.length <= TITLE_LEAD_LENGTH : false;
+  const missingTags = Math.max(0, MAX_TAGS - listing.tags.length);
+  const missingKeywords = Math.max(0, 8 - input.supportingKeywords.length);
+  const materialPoints = Math.min(15, input.materials.length * 5);
+  const missingMaterials = Math.max(0, 3 - input.materials.length);
+  const digital = isDigitalKind(input.productKind);
+  const text = catalogFor(languageOf(input)).rubric;
+
+  return [
+    {
+      factor: "Tag coverage",
+      earned: Math.min(MAX_TAGS, listing.tags.length) * 2,
+      possible: MAX_TAGS * 2,
+      evidence: text.tagsEvidence(listing.tags.length, MAX_TAGS),
+      action: text.tagsAction(missingTags)
+    },
+    {
+      factor: "Supporting keywords",
+      earned: Math.min(8, input.supportingKeywords.length) * 2,
+      possible: 16,
+      evidence: text.keywordsEvidence(input.supportingKeywords.length),
+      action: text.keywordsAction(missingKeywords)
+    },
+    {
+      factor: "Title keyword placement",
+      earned: keywordFrontLoaded ? 20 : keywordIndex >= 0 ? 10 : 0,
+      possible: 20,
+      evidence: text.placementEvidence(keywordIndex >= 0 ? keywordIndex + 1 : undefined),
+      action: text.placementAction(input.primaryKeyword, TITLE_LEAD_LENGTH)
+    },
+    {
+      factor: "Personalization",
+      earned: input.personalization ? 14 : 8,
+      possible: 14,
+      evidence: text.personalizationEvidence(input.personalization),
+      action: text.personalizationAction
+    },
+    {
+      factor: "Materials",
+      earned: materialPoints,
+      possible: 15,
+      evidence: text.materialsEvidence(input.materials.length),
+      action: text.materialsAction(missingMaterials)
+    },
+    {
+      factor: "Processing time",
+      earned: digital || input.processingTimeDays <= 3 ? 9 : 3,
+      possible: 9,
+      evidence: text.processingEvidence(digital, input.processingTimeDays),
+      action: text.processingAction(3)
+    }
+  ];
+}
+
+function coverageReason(parts: string[], matched: string[], keyword: string, tagCount: number): string {
+  if (!parts.length) {
+    return `Every word is longer than ${MAX_TAG_LENGTH} characters`;
+  }
+  if (matched.length === parts.length) {
+    if (parts.length > 1) {
+      return `Split into ${parts.length} tags of ${MAX_TAG_LENGTH} characters or fewer`;
+    }
+    return matched[0] === keyword ? "Used as a tag" : `Folded into tag "${matched[0]}"`;
+  }
+  if (matched.length) {
+    return `${matched.length} of ${parts.length} split parts fit in the ${MAX_TAGS} tag slots`;
+  }
+  return tagCount >= MAX_TAGS
+    ? `All ${MAX_TAGS} tag slots were filled by higher-priority keywords`
+    : "Not used as a tag";
+}
+
+export function buildTagCoverage(input: ListingInput, listing: { title: string; tags: string[] }): KeywordCoverage[] {
+  const language = languageOf(input);
+  const tagsByKey = new Map(listing.tags.map((tag) => [tagFoldKey(tag, language), tag]));
+  const title = normalizeKeyword(listing.title, language);
+
+  return [input.primaryKeyword, ...input.supportingKeywords].map((keyword, index) => {
+    const localized = normalizeKeyword(localize(keyword, input), language);
+    const parts = splitTag(localized);
+    const matched = parts.flatMap((part) => tagsByKey.get(tagFoldKey(part, language)) ?? []);
+    const inTitle = title.includes(keyword) || title.includes(localized);
+    const status: KeywordCoverageStatus = matched.length
+      ? parts.length > 1
+        ? "split"
+        : "tagged"
+      : inTitle
+        ? "title_only"
+        : "dropped";
+
+    return {
+      keyword,
+      source: index === 0 ? "primary" : "supporting",
+      status,
+      tags: [...new Set(matched)],
+      inTitle,
+      reason: coverageReason(parts, matched, localized, listing.tags.length)
+    };
+  });
+}
+
+export function scoreListing(input: ListingInput, listing: { title: string; tags: string[] }): ListingScore {
+  const rubric = buildRubric(input, listing);
+  const recommendations = rubric
+    .filter((entry) => entry.earned < entry.possible)
+    .sort((a, b) => b.possible - b.earned - (a.possible - a.earned))
+    .map((entry, index) => ({
+      rank: index + 1,
+      factor: entry.factor,
+      pointsAvailable: entry.possible - entry.earned,
+      action: entry.action
+    }));
+
+  return {
+    score: roundScore(rubric.reduce((total, entry) => total + entry.earned, 0)),
+    scoreBreakdown: rubric.map(({ factor, earned, possible, evidence }) => ({ factor, earned, possible, evidence })),
+    recommendations
+  };
+}
+
+function brandDescriptionSections(
+  sections: DescriptionSection[],
+  catalog: TemplateCatalog,
+  shop: ShopBrand | undefined
+): DescriptionSection[] {
+  if (!shop) {
+    return sections;
+  }
+  const { policies, signaturePhrases } = shop;
+  const branded = sections.map((section) => {
+    if (section.id === "hook" && signaturePhrases.length) {
+      return { ...section, text: `${section.text} ${signaturePhrases.join(" ")}` };
+    }
+    if (section.id === "shipping" && policies.shipping) {
+      return { ...section, text: `${section.text} ${policies.shipping}` };
+    }
+    if (section.id === "care" && policies.care) {
+      return { ...section, text: policies.care };
+    }
+    return section;
+  });
+  return policies.returns
+    ? [...branded, { id: "returns", heading: catalog.shopPolicies.returnsHeading, text: policies.returns }]
+    : branded;
+}
+
+function shopPolicyFaq(catalog: TemplateCatalog, shop: ShopBrand | undefined): FaqEntry[] {
+  const policies = shop?.policies ?? {};
+  return [
+    ...(policies.shipping ? [{ question: catalog.shopPolicies.shippingQuestion, answer: policies.shipping }] : []),
+    ...(policies.care ? [{ question: catalog.shopPolicies.careQuestion, answer: policies.care }] : []),
+    ...(policies.returns ? [{ question: catalog.shopPolicies.returnsQuestion, answer: policies.returns }] : [])
+  ];
+}
+
+function joinDescriptionSections(sections: DescriptionSection[]): string {
+  return sections
+    .map((section) => (section.id === "hook" ? section.text : `${section.heading}\n${section.text}`))
+    .join("\n\n");
+}
+
+function analyzeDescription(input: ListingInput, description: string): TextAnalysis {
+  return analyzeText(description, localize(input.primaryKeyword, input), languageOf(input));
+}
+
+function scoreWithCompliance(
+  input: ListingInput,
+  listing: Pick<ListingPack, "title" | "tags" | "description" | "highlights" | "faq">
+): ListingScore & { compliance: ComplianceFinding[] } {
+  const compliance = lintCompliance(input, listing);
+  return { ...applyCompliancePenalty(scoreListing(input, listing), compliance), compliance };
+}
+
 export function sanitizeListingInput(input: ListingInput): ListingInput {
   const shopName = normalizePhrase(input.shopName, "shopName", 80);
   const productType = normalizePhrase(input.productType, "productType", 80).toLowerCase();
   const targetAudience = normalizePhrase(input.targetAudience, "targetAudience", 80).toLowerCase();
-  const primaryKeyword = normalizeKeyword(normalizePhrase(input.primaryKeyword, "primaryKeyword", 80));
+  const language = normalizeLanguage(input.language ?? "en");
+  const primaryKeyword = normalizeKeyword(normalizePhrase(input.primaryKeyword, "primaryKeyword", 80), language);
   if (!primaryKeyword) {
     throw new Error("invalid_primaryKeyword");
   }
 
-  const supportingKeywords = dedupePhrases(input.supportingKeywords, MAX_KEYWORDS, "supportingKeywords");
+  const supportingKeywords = dedupePhrases(input.supportingKeywords, MAX_KEYWORDS, "supportingKeywords", language);
   if (!supportingKeywords.length) {
     throw new Error("invalid_supportingKeywords");
   }
 
-  const materials = dedupePhrases(input.materials, MAX_MATERIALS, "materials");
+  const materials = dedupePhrases(input.materials, MAX_MATERIALS, "materials", language);
   const tone = normalizeTone(input.tone);
   const priceBand = normalizePhrase(input.priceBand, "priceBand", 80);
-  const processingTimeDays = normalizeDays(input.processingTimeDays);
   const personalization = normalizeBoolean(input.personalization);
-  const includeUkSpelling = normalizeBoolean(input.includeUkSpelling);
+  const productKind = normalizeProductKind(input.productKind, personalization);
+  const category = normalizeCategory(input.category);
+  const processingTimeDays = normalizeDays(
+    input.processingTimeDays,
+    "processingTimeDays",
+    isDigitalKind(productKind) ? 0 : 1,
+    MAX_PROCESSING_DAYS
+  );
+  const shipping = normalizeShipping(input.shipping, productKind);
+  const locale = normalizeLocale(input.locale);
+  const variantCount = normalizeVariantCount(input.variantCount);
+  const variations = normalizeVariations(input.variations);
+  const pricing = input.pricing == null ? undefined : normalizePricingInput(input.pricing);
+  const keywordResearch = normalizeKeywordResearch(input.keywordResearch, language);
 
   return {
     shopName,
@@ -237,136 +1133,141 @@ export function sanitizeListingInput(input: ListingInput): ListingInput {
     priceBand,
     processingTimeDays,
     personalization,
-    includeUkSpelling
+    locale,
+    language,
+    productKind,
+    category,
+    variantCount,
+    ...(variations ? { variations } : {}),
+    ...(pricing ? { pricing } : {}),
+    ...(shipping ? { shipping } : {}),
+    ...(keywordResearch ? { keywordResearch } : {}),
+    ...(input.shop ? { shop: input.shop } : {})
   };
 }
 
-export function parseKeywordCsv(csvText: string): string[] {
+export function parseKeywordCsv(csvText: string, language: ListingLanguage = "en"): string[] {
   if (typeof csvText !== "string") {
     throw new Error("invalid_keywordsCsv");
   }
 
   const values = csvText
     .split(/[\n,]/g)
-    .map((value) => normalizeKeyword(value))
+    .map((value) => normalizeKeyword(value, language))
     .filter((value) => value.length > 0);
 
   if (!values.length) {
     throw new Error("invalid_keywordsCsv");
   }
 
-  return dedupePhrases(values, MAX_KEYWORDS, "supportingKeywords");
+  return dedupePhrases(values, MAX_KEYWORDS, "supportingKeywords", language);
 }
 
-export function parseMaterialsCsv(csvText: string): string[] {
+export function parseMaterialsCsv(csvText: string, language: ListingLanguage = "en"): string[] {
   if (typeof csvText !== "string") {
     throw new Error("invalid_materialsCsv");
   }
 
   const values = csvText
     .split(/[\n,]/g)
-    .map((value) => normalizeKeyword(value))
+    .map((value) => normalizeKeyword(value, language))
     .filter((value) => value.length > 0);
 
-  return dedupePhrases(values, MAX_MATERIALS, "materials");
-}
-
-export function buildListingPack(input: ListingInput): ListingPack {
-  const title = compactTitle([
-    toTitleCase(input.primaryKeyword),
-    toTitleCase(input.productType),
-    input.personalization ? "Personalized" : "Ready to Ship",
-    `Gift for ${toTitleCase(input.targetAudience)}`,
-    toTitleCase(input.supportingKeywords[0] || "Etsy Bestseller")
-  ]);
-
-  const tags = buildTags(input);
-  const toneDescriptor = toneLine(input.tone);
-  const materialsLine = input.materials.length
-    ? `Materials include ${input.materials.slice(0, 5).join(", ")}.`
-    : "Materials are selected for durability and consistent finish.";
-
-  const baseDescription = [
-    `${toTitleCase(input.primaryKeyword)} from ${input.shopName} is built for ${input.targetAudience} buyers searching Etsy for a fast yes/no purchase decision.`,
-    `The copy is ${toneDescriptor}, with a ${input.priceBand} price anchor and ${input.processingTimeDays}-day processing promise.`,
-    materialsLine,
-    input.personalization
-      ? "Personalization is highlighted in the first fold so buyers know exactly what can be customized before checkout."
-      : "The listing emphasizes ready-to-ship speed to reduce hesitation and increase conversion from search traffic.",
-    "Use the photo order and FAQ below as-is to keep listing production under 15 minutes."
-  ].join(" ");
-
-  const description = britishSpelling(baseDescription, input.includeUkSpelling);
-
-  const highlights = [
-    `${toTitleCase(input.primaryKeyword)} headline tuned for Etsy search intent`,
-    `${tags.length} tags included with <=20 character constraint respected`,
-    `Tone set to ${input.tone} for consistent brand voice`,
-    `${input.processingTimeDays}-day processing expectation placed above the fold`,
-    input.personalization ? "Personalization CTA included in title and FAQ" : "Fast dispatch angle included in title and FAQ"
-  ].map((line) => britishSpelling(line, input.includeUkSpelling));
+  return dedupePhrases(values, MAX_MATERIALS, "materials", language);
+}
+
+export function backfillListingPack(input: ListingInput, pack: LegacyListingPack): ListingPack {
+  const scored = scoreWithCompliance(input, pack);
+  return {
+    ...pack,
+    scoreBreakdown: pack.scoreBreakdown ?? scored.scoreBreakdown,
+    recommendations: pack.recommendations ?? scored.recommendations,
+    compliance: pack.compliance ?? scored.compliance,
+    descriptionAnalysis: pack.descriptionAnalysis ?? analyzeDescription(input, pack.description),
+    variants: pack.variants ?? [],
+    tagCoverage: pack.tagCoverage ?? buildTagCoverage(input, pack),
+    taxonomy: pack.taxonomy ?? suggestTaxonomy(input)
+  };
+}
+
+export function buildListingPack(input: ListingInput, now = new Date()): ListingPack {
+  const language = languageOf(input);
+  const catalog = catalogFor(language);
+  const context = templateContext(input);
 
+  const descriptionSections = brandDescriptionSections(
+    catalog.description(context).map((section) => ({
+      ...section,
+      heading: localize(section.heading, input),
+      text: localize(section.text, input)
+    })),
+    catalog,
+    input.shop
+  );
+  const description = joinDescriptionSections(descriptionSections);
+
+  const rulePack = findCategoryRulePack(input.category);
+  const categoryRules = rulePack ? categoryContent(rulePack, language) : undefined;
+  const variationTable = buildVariationTable(input.variations);
+  const pricing = buildPricingAnalysis(input);
+  const shipping = buildShippingPlan(input, now);
+  const baseFaq = catalog.faq(context);
+  if (variationTable) {
+    baseFaq.splice(1, 0, catalog.variationFaq(context, variationTable));
+  }
+  if (shipping) {
+    baseFaq.splice(1, 0, ...catalog.shippingFaq(context, shipping));
+  }
   const faq = [
-    {
-      question: "How quickly can this order ship?",
-      answer: britishSpelling(
-        `Standard processing is ${input.processingTimeDays} day${input.processingTimeDays === 1 ? "" : "s"}. Rush requests can be discussed in messages before purchase.`,
-        input.includeUkSpelling
-      )
-    },
-    {
-      question: input.personalization ? "What personalization can I request?" : "Can I request a custom variation?",
-      answer: britishSpelling(
-        input.personalization
-          ? "Include names, dates, or short text in the personalization field. A preview can be requested before production."
-          : "Yes. Message the shop before checkout with size, color, or packaging requests and we will confirm availability.",
-        input.includeUkSpelling
-      )
-    },
-    {
-      question: "What should I include in my first product photo?",
-      answer: britishSpelling(
-        `Lead with a clean hero shot of the ${input.productType}, then show scale, materials, and one lifestyle image for ${input.targetAudience}.`,
-        input.includeUkSpelling
-      )
-    }
+    ...[...baseFaq, ...(categoryRules?.faq ?? [])].map((item) => ({
+      question: localize(item.question, input),
+      answer: localize(item.answer, input)
+    })),
+    ...shopPolicyFaq(catalog, input.shop)
   ];
+  const variants = buildVariants(input, input.variantCount ?? DEFAULT_VARIANTS, { description, faq });
+  const title = variants[0].title;
+  const tags = variants[0].tags;
+  const highlights = buildHighlights(input, tags.length);
+  const photoShotList = [...catalog.photoShotList(context), ...(categoryRules?.photoShots ?? [])]
+    .slice(0, MAX_PHOTOS)
+    .map((line) => localize(line, input));
+  const launchChecklist = catalog
+    .launchChecklist(context, photoShotList.length, categoryRules?.checklist ?? [])
+    .map((line) => localize(line, input));
 
-  const photoShotList = [
-    `${toTitleCase(input.productType)} on plain background (hero image)`,
-    "Close-up detail of texture and finish",
-    input.personalization ? "Personalized sample with realistic name/date" : "Ready-to-ship packaging and dispatch view",
-    "Scale reference in hand or beside common object",
-    `${toTitleCase(input.targetAudience)} lifestyle context shot`,
-    input.materials.length ? `Materials flat lay: ${input.materials.slice(0, 4).join(", ")}` : "Materials and components flat lay",
-    "Color or variation comparison grid",
-    "Gift-ready final presentation"
-  ].map((line) => britishSpelling(line, input.includeUkSpelling));
-
-  const launchChecklist = [
-    "Upload all 8 photos before publishing",
-    "Keep first 40 title characters keyword-dense",
-    "Place shipping timeline in description paragraph 1",
-    "Pin one buyer FAQ in shop announcement",
-    "Track clicks and favorites after 24 hours"
-  ].map((line) => britishSpelling(line, input.includeUkSpelling));
-
-  let score = 55;
-  score += Math.min(20, tags.length);
-  score += Math.min(8, input.supportingKeywords.length);
-  score += input.personalization ? 7 : 4;
-  score += input.materials.length >= 3 ? 6 : 2;
-  score += input.processingTimeDays <= 3 ? 4 : 1;
+  const { score, scoreBreakdown, recommendations, compliance } = scoreWithCompliance(input, {
+    title,
+    tags,
+    description,
+    highlights,
+    faq
+  });
+  const tagCoverage = buildTagCoverage(input, { title, tags });
+  const keywordResearch = explainKeywordResearch(input, tagCoverage);
 
   return {
-    generatedAt: new Date().toISOString(),
-    score: roundScore(score),
-    title: britishSpelling(title, input.includeUkSpelling),
+    generatedAt: now.toISOString(),
+    generatorVersion: GENERATOR_VERSION,
+    score,
+    scoreBreakdown,
+    recommendations,
+    compliance,
+    title,
     tags,
     highlights,
     description,
+    descriptionSections,
+    descriptionAnalysis: analyzeDescription(input, description),
     faq,
     photoShotList,
-    launchChecklist
+    launchChecklist,
+    variants,
+    tagCoverage,
+    taxonomy: suggestTaxonomy(input),
+    ...(variationTable ? { variationTable } : {}),
+    ...(pricing ? { pricing } : {}),
+    ...(shipping ? { shipping } : {}),
+    ...(keywordResearch ? { keywordResearch } : {})
   };
 }
@@ -0,0 +1,217 @@
+export type ListingLocale = "en-US" | "en-GB" | "en-AU" | "en-CA";
+
+export const LISTING_LOCALES: ListingLocale[] = ["en-US", "en-GB", "en-AU", "en-CA"];
+
+type SpellingRule = {
+  locales: ListingLocale[];
+  pairs: Array<[string, string]>;
+};
+
+const COMMONWEALTH: ListingLocale[] = ["en-GB", "en-AU", "en-CA"];
+const GB_AU: ListingLocale[] = ["en-GB", "en-AU"];
+
+const IZE_STEMS = [
+  "apolog",
+  "categor",
+  "character",
+  "custom",
+  "emphas",
+  "final",
+  "harmon",
+  "maxim",
+  "memorial",
+  "minim",
+  "modern",
+  "optim",
+  "organ",
+  "personal",
+  "priorit",
+  "real",
+  "recogn",
+  "sanit",
+  "special",
+  "standard",
+  "steril",
+  "summar",
+  "util",
+  "visual"
+];
+const IZE_SUFFIXES: Array<[string, string]> = [
+  ["ize", "ise"],
+  ["izes", "ises"],
+  ["ized", "ised"],
+  ["izing", "ising"],
+  ["izer", "iser"],
+  ["izers", "isers"],
+  ["ization", "isation"],
+  ["izations", "isations"]
+];
+
+const OUR_STEMS = [
+  "arm",
+  "behavi",
+  "col",
+  "fav",
+  "flav",
+  "harb",
+  "hon",
+  "hum",
+  "lab",
+  "neighb",
+  "od",
+  "sav",
+  "vap"
+];
+const OUR_SUFFIXES = ["", "s", "ed", "ing", "ful", "less", "ite", "ites", "way", "ways", "able"];
+
+const RE_WORDS = [
+  "center",
+  "centimeter",
+  "fiber",
+  "kilometer",
+  "liter",
+  "luster",
+  "millimeter",
+  "saber",
+  "somber",
+  "specter",
+  "theater"
+];
+
+const OGUE_WORDS = ["analog", "catalog", "dialog", "epilog", "monolog", "prolog"];
+
+function expandStems(stems: string[], suffixes: Array<[string, string]>): Array<[string, string]> {
+  return stems.flatMap((stem) => suffixes.map(([us, other]): [string, string] => [`${stem}${us}`, `${stem}${other}`]));
+}
+
+function withPlurals(pairs: Array<[string, string]>): Array<[string, string]> {
+  return pairs.flatMap(([us, other]): Array<[string, string]> => [
+    [us, other],
+    [`${us}s`, `${other}s`]
+  ]);
+}
+
+const SPELLING_RULES: SpellingRule[] = [
+  {
+    locales: GB_AU,
+    pairs: expandStems(IZE_STEMS, IZE_SUFFIXES)
+  },
+  {
+    locales: COMMONWEALTH,
+    pairs: OUR_STEMS.flatMap((stem) =>
+      OUR_SUFFIXES.map((suffix): [string, string] => [`${stem}or${suffix}`, `${stem}our${suffix}`])
+    )
+  },
+  {
+    locales: COMMONWEALTH,
+    pairs: withPlurals(RE_WORDS.map((word): [string, string] => [word, `${word.slice(0, -2)}re`])).concat([
+      ["centered", "centred"],
+      ["centerpiece", "centrepiece"],
+      ["centerpieces", "centrepieces"]
+    ])
+  },
+  {
+    locales: COMMONWEALTH,
+    pairs: withPlurals(OGUE_WORDS.map((word): [string, string] => [word, `${word}ue`]))
+  },
+  {
+    locales: COMMONWEALTH,
+    pairs: [
+      ["jewelry", "jewellery"],
+      ["jeweler", "jeweller"],
+      ["jewelers", "jewellers"],
+      ["gray", "grey"],
+      ["grays", "greys"],
+      ["pajamas", "pyjamas"],
+      ["mold", "mould"],
+      ["molds", "moulds"],
+      ["license", "licence"],
+      ["licenses", "licences"],
+      ["traveler", "traveller"],
+      ["travelers", "travellers"],
+      ["labeled", "labelled"],
+      ["labeling", "labelling"],
+      ["canceled", "cancelled"],
+      ["modeling", "modelling"]
+    ]
+  },
+  {
+    locales: GB_AU,
+    pairs: [
+      ["aluminum", "aluminium"],
+      ["cozy", "cosy"],
+      ["cozier", "cosier"],
+      ["coziest", "cosiest"],
+      ["fulfill", "fulfil"],
+      ["fulfillment", "fulfilment"],
+      ["mom", "mum"],
+      ["moms", "mums"]
+    ]
+  }
+];
+
+type LocaleDictionary = {
+  pattern: RegExp;
+  replacements: Map<string, string>;
+};
+
+const DICTIONARIES = new Map<ListingLocale, LocaleDictionary>();
+
+function dictionaryFor(locale: ListingLocale): LocaleDictionary | undefined {
+  if (locale === "en-US") {
+    return undefined;
+  }
+
+  const cached = DICTIONARIES.get(locale);
+  if (cached) {
+    return cached;
+  }
+
+  const replacements = new Map<string, string>();
+  for (const rule of SPELLING_RULES) {
+    if (!rule.locales.includes(locale)) {
+      continue;
+    }
+    for (const [us, other] of rule.pairs) {
+      replacements.set(us, other);
+    }
+  }
+
+  const words = [...replacements.keys()].sort((a, b) => b.length - a.length);
+  const dictionary = {
+    pattern: new RegExp(`\\b(${words.join("|")})\\b`, "gi"),
+    replacements
+  };
+  DICTIONARIES.set(locale, dictionary);
+  return dictionary;
+}
+
+function matchCase(source: string, replacement: string): string {
+  if (source.length > 1 && source === source.toUpperCase()) {
+    return replacement.toUpperCase();
+  }
+  if (source.charAt(0) === source.charAt(0).toUpperCase()) {
+    return replacement.charAt(0).toUpperCase() + replacement.slice(1);
+  }
+  return replacement;
+}
+
+export function normalizeLocale(value: string): ListingLocale {
+  const normalized = value.trim().replace("_", "-").toLowerCase();
+  const locale = LISTING_LOCALES.find((candidate) => candidate.toLowerCase() === normalized);
+  if (!locale) {
+    throw new Error("invalid_locale");
+  }
+  return locale;
+}
+
+export function localizeText(value: string, locale: ListingLocale): string {
+  const dictionary = dictionaryFor(locale);
+  if (!dictionary) {
+    return value;
+  }
+  return value.replace(dictionary.pattern, (match) => {
+    const replacement = dictionary.replacements.get(match.toLowerCase());
+    return replacement ? matchCase(match, replacement) : match;
+  });
+}
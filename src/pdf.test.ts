@@ -0,0 +1,53 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { renderPdf, type PdfBlock } from "./pdf.js";
+
+function objectOffsets(pdf: string): number[] {
+  const xref = pdf.slice(pdf.lastIndexOf("\nxref\n"));
+  return [...xref.matchAll(/^(\d{10}) 00000 n $/gm)].map((match) => Number(match[1]));
+}
+
+test("renderPdf writes a valid single-page document with an accurate xref table", () => {
+  const pdf = renderPdf(
+    [
+      { style: "title", text: "Custom Ring Dish (Gold) \\ Sage" },
+      { style: "heading", text: "Tags" },
+      { style: "bullet", text: "ring dish – gift “for her” → 12€" }
+    ],
+    { title: "Custom Ring Dish", createdAt: new Date("2026-10-19T09:00:00Z") }
+  ).toString("latin1");
+
+  assert.ok(pdf.startsWith("%PDF-1.4\n"));
+  assert.ok(pdf.endsWith("%%EOF\n"));
+  assert.match(pdf, /\/Count 1 >>/);
+  assert.match(pdf, /\(Custom Ring Dish \\\(Gold\\\) \\\\ Sage\) Tj/);
+  assert.match(pdf, /\(ring dish \x96 gift \x93for her\x94 -> 12\x80\) Tj/);
+  assert.match(pdf, /\/CreationDate \(D:20261019090000Z\)/);
+
+  const offsets = objectOffsets(pdf);
+  assert.equal(offsets.length, 7);
+  offsets.forEach((offset, index) => assert.ok(pdf.startsWith(`${index + 1} 0 obj`, offset)));
+  const startxref = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+  assert.ok(pdf.startsWith("xref", startxref));
+});
+
+test("renderPdf wraps long text, flows onto new pages and honours page breaks", () => {
+  const blocks: PdfBlock[] = [
+    { style: "heading", text: "Description" },
+    { style: "text", text: "Handmade ceramic ring dish with a gold rim. ".repeat(40) },
+    ...Array.from({ length: 80 }, (_, index): PdfBlock => ({ style: "bullet", text: `Checklist item ${index + 1}` })),
+    { style: "pageBreak" },
+    { style: "heading", text: "FAQ" }
+  ];
+  const pdf = renderPdf(blocks, { title: "Long pack" }).toString("latin1");
+  const pageCount = Number(pdf.match(/\/Count (\d+) >>/)?.[1]);
+
+  assert.ok(pageCount >= 3);
+  assert.match(pdf, new RegExp(`Page ${pageCount} of ${pageCount}`));
+  const lastPage = pdf.slice(pdf.lastIndexOf("\nstream\n"));
+  assert.match(lastPage, /\(FAQ\) Tj/);
+  assert.doesNotMatch(lastPage, /Checklist item/);
+  for (const match of pdf.matchAll(/\((Handmade[^)]*)\) Tj/g)) {
+    assert.ok(match[1].length < 110);
+  }
+});
@@ -0,0 +1,221 @@
+export type PdfBlock =
+  | { style: "title" | "heading" | "strong" | "text" | "small"; text: string }
+  | { style: "bullet"; text: string; level?: number }
+  | { style: "pageBreak" };
+
+export type PdfOptions = {
+  title: string;
+  createdAt?: Date;
+};
+
+type FontStyle = {
+  font: "F1" | "F2";
+  size: number;
+  leading: number;
+  spaceBefore: number;
+};
+
+type PlacedLine = {
+  font: FontStyle["font"];
+  size: number;
+  x: number;
+  y: number;
+  text: string;
+};
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 54;
+const FOOTER_Y = 30;
+const BULLET_INDENT = 14;
+
+const STYLES: Record<Exclude<PdfBlock["style"], "bullet" | "pageBreak">, FontStyle> = {
+  title: { font: "F2", size: 18, leading: 23, spaceBefore: 0 },
+  heading: { font: "F2", size: 12.5, leading: 17, spaceBefore: 14 },
+  strong: { font: "F2", size: 10, leading: 13.5, spaceBefore: 5 },
+  text: { font: "F1", size: 10, leading: 13.5, spaceBefore: 3 },
+  small: { font: "F1", size: 8.5, leading: 11.5, spaceBefore: 0 }
+};
+const BULLET_STYLE: FontStyle = { font: "F1", size: 10, leading: 13.5, spaceBefore: 1.5 };
+
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833,
+  722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556,
+  556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334,
+  260, 334, 584
+];
+const BOLD_WIDTH_FACTOR = 1.07;
+
+const WIN_ANSI: Record<string, number> = {
+  "€": 0x80,
+  "‚": 0x82,
+  "„": 0x84,
+  "…": 0x85,
+  "‘": 0x91,
+  "’": 0x92,
+  "“": 0x93,
+  "”": 0x94,
+  "•": 0x95,
+  "–": 0x96,
+  "—": 0x97,
+  "™": 0x99
+};
+
+function encodeWinAnsi(text: string): string {
+  return [...text.normalize("NFC")]
+    .map((char) => {
+      const code = char.codePointAt(0) ?? 63;
+      if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) {
+        return char;
+      }
+      if (char === "→") {
+        return "->";
+      }
+      return WIN_ANSI[char] != null ? String.fromCharCode(WIN_ANSI[char]) : "?";
+    })
+    .join("");
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+function textWidth(text: string, style: FontStyle): number {
+  const units = [...text].reduce((total, char) => {
+    const code = char.charCodeAt(0);
+    return total + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+  }, 0);
+  return (units / 1000) * style.size * (style.font === "F2" ? BOLD_WIDTH_FACTOR : 1);
+}
+
+function wrapText(text: string, style: FontStyle, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (textWidth(candidate, style) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) {
+      lines.push(current);
+    }
+    current = word;
+    while (textWidth(current, style) > maxWidth) {
+      let cut = current.length - 1;
+      while (cut > 1 && textWidth(current.slice(0, cut), style) > maxWidth) {
+        cut -= 1;
+      }
+      lines.push(current.slice(0, cut));
+      current = current.slice(cut);
+    }
+  }
+  if (current || !lines.length) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+function layoutPages(blocks: PdfBlock[]): PlacedLine[][] {
+  const pages: PlacedLine[][] = [[]];
+  const bottom = MARGIN;
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const newPage = () => {
+    pages.push([]);
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  blocks.forEach((block, index) => {
+    if (block.style === "pageBreak") {
+      if (pages[pages.length - 1].length) {
+        newPage();
+      }
+      return;
+    }
+
+    const style = block.style === "bullet" ? BULLET_STYLE : STYLES[block.style];
+    const indent = block.style === "bullet" ? BULLET_INDENT * (block.level ?? 1) : 0;
+    const lines = wrapText(encodeWinAnsi(block.text), style, PAGE_WIDTH - MARGIN * 2 - indent);
+    const next = blocks[index + 1];
+    const keepWithNext = block.style === "heading" && next && next.style !== "pageBreak" ? BULLET_STYLE.leading * 2 : 0;
+    const atTop = !pages[pages.length - 1].length;
+    const spaceBefore = atTop ? 0 : style.spaceBefore;
+
+    if (y - spaceBefore - style.leading * Math.min(lines.length, 2) - keepWithNext < bottom && !atTop) {
+      newPage();
+    } else {
+      y -= spaceBefore;
+    }
+
+    lines.forEach((line, lineIndex) => {
+      if (y - style.leading < bottom) {
+        newPage();
+      }
+      y -= style.leading;
+      const page = pages[pages.length - 1];
+      if (block.style === "bullet" && lineIndex === 0) {
+        page.push({ font: style.font, size: style.size, x: MARGIN + indent - 10, y, text: "\x95" });
+      }
+      page.push({ font: style.font, size: style.size, x: MARGIN + indent, y, text: line });
+    });
+  });
+
+  return pages;
+}
+
+function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+}
+
+export function renderPdf(blocks: PdfBlock[], options: PdfOptions): Buffer {
+  const pages = layoutPages(blocks);
+  const objects: string[] = [];
+  const fontIds = { F1: 3, F2: 4 };
+  const pageIds = pages.map((_, index) => 6 + index * 2);
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+  objects[5] =
+    `<< /Title (${escapePdfString(encodeWinAnsi(options.title))}) /Producer (Etsy Listing Sprint Assistant) ` +
+    `/CreationDate (${pdfDate(options.createdAt ?? new Date())}) >>`;
+
+  pages.forEach((lines, index) => {
+    const footer: PlacedLine = {
+      font: "F1",
+      size: 8,
+      x: MARGIN,
+      y: FOOTER_Y,
+      text: `Page ${index + 1} of ${pages.length}`
+    };
+    const stream = [...lines, footer]
+      .map(
+        (line) =>
+          `BT /${line.font} ${line.size} Tf ${line.x.toFixed(2)} ${line.y.toFixed(2)} Td (${escapePdfString(line.text)}) Tj ET`
+      )
+      .join("\n");
+    objects[pageIds[index]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 ${fontIds.F1} 0 R /F2 ${fontIds.F2} 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`;
+    objects[pageIds[index] + 1] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let output = "%PDF-1.4\n%\xE2\xE3\xCF\xD3\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = Buffer.byteLength(output, "latin1");
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(output, "latin1");
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(output, "latin1");
+}
@@ -0,0 +1,68 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildListingPack, sanitizeListingInput } from "./listing.js";
+import { parsePriceBand } from "./pricing.js";
+
+const base = {
+  shopName: "Copper Pine Studio",
+  productType: "ring dish",
+  targetAudience: "bridal party",
+  primaryKeyword: "personalized ring dish",
+  supportingKeywords: ["engagement gift"],
+  materials: ["ceramic"],
+  tone: "warm" as const,
+  priceBand: "$20-$35",
+  processingTimeDays: 3,
+  personalization: true,
+  locale: "en-US" as const
+};
+
+test("parsePriceBand reads amounts and currency from free text", () => {
+  assert.deepEqual(parsePriceBand("$20-$35"), { min: 20, max: 35, currency: "USD" });
+  assert.deepEqual(parsePriceBand("18,50 - 28 €"), { min: 18.5, max: 28, currency: "EUR" });
+  assert.deepEqual(parsePriceBand("£1,200"), { min: 1200, max: 1200, currency: "GBP" });
+  assert.deepEqual(parsePriceBand("CA$40 to CA$25"), { min: 25, max: 40, currency: "CAD" });
+  assert.equal(parsePriceBand("premium"), undefined);
+});
+
+test("buildListingPack computes Etsy fees, net margin and a price floor", () => {
+  const input = sanitizeListingInput({
+    ...base,
+    pricing: {
+      costs: { materials: 4, labor: 6, packaging: 1.5, shipping: 4.5 },
+      offsiteAds: true
+    }
+  });
+
+  const pricing = buildListingPack(input).pricing;
+
+  assert.ok(pricing);
+  assert.equal(pricing.totalCost, 16);
+  assert.deepEqual(pricing.atMax.fees, {
+    listing: 0.2,
+    transaction: 2.28,
+    paymentProcessing: 1.3,
+    offsiteAds: 5.25,
+    total: 9.03
+  });
+  assert.equal(pricing.atMax.netProfit, 9.97);
+  assert.equal(pricing.atMax.netMarginPercent, 28.5);
+  assert.equal(pricing.atMin.netProfit, -1.35);
+  assert.equal(pricing.profitable, false);
+  assert.equal(pricing.priceFloor, 36.16);
+  assert.ok(pricing.warnings.some((warning) => /loses money/.test(warning)));
+});
+
+test("fee table overrides replace the default Etsy rates", () => {
+  const input = sanitizeListingInput({
+    ...base,
+    pricing: { feeTable: { transactionRate: 0.05, paymentProcessingFixed: 0 }, targetMarginPercent: 20 }
+  });
+
+  const pricing = buildListingPack(input).pricing;
+
+  assert.equal(pricing?.atMin.fees.transaction, 1);
+  assert.equal(pricing?.atMin.fees.paymentProcessing, 0.6);
+  assert.equal(pricing?.atMin.fees.offsiteAds, 0);
+  assert.throws(() => sanitizeListingInput({ ...base, pricing: { feeTable: { transactionRate: 2 } } }), /invalid_feeTable/);
+});
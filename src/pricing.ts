@@ -0,0 +1,267 @@
+import type { ListingInput } from "./listing.js";
+
+export type FeeTable = {
+  listingFee: number;
+  transactionRate: number;
+  paymentProcessingRate: number;
+  paymentProcessingFixed: number;
+  offsiteAdsRate: number;
+};
+
+export type CostInputs = {
+  materials: number;
+  labor: number;
+  packaging: number;
+  shipping: number;
+};
+
+export type PricingInput = {
+  costs?: Partial<CostInputs>;
+  offsiteAds?: boolean;
+  targetMarginPercent?: number;
+  feeTable?: Partial<FeeTable>;
+};
+
+export type ResolvedPricingInput = {
+  costs: CostInputs;
+  offsiteAds: boolean;
+  targetMarginPercent: number;
+  feeTable: FeeTable;
+};
+
+export type PriceBand = {
+  min: number;
+  max: number;
+  currency: string;
+};
+
+export type FeeBreakdown = {
+  listing: number;
+  transaction: number;
+  paymentProcessing: number;
+  offsiteAds: number;
+  total: number;
+};
+
+export type PricePoint = {
+  price: number;
+  fees: FeeBreakdown;
+  netProfit: number;
+  netMarginPercent: number;
+};
+
+export type PricingAnalysis = {
+  band: PriceBand;
+  costs: CostInputs;
+  totalCost: number;
+  feeTable: FeeTable;
+  offsiteAds: boolean;
+  targetMarginPercent: number;
+  atMin: PricePoint;
+  atMax: PricePoint;
+  priceFloor: number;
+  profitable: boolean;
+  warnings: string[];
+};
+
+export const DEFAULT_FEE_TABLE: FeeTable = {
+  listingFee: 0.2,
+  transactionRate: 0.065,
+  paymentProcessingRate: 0.03,
+  paymentProcessingFixed: 0.25,
+  offsiteAdsRate: 0.15
+};
+
+const DEFAULT_TARGET_MARGIN_PERCENT = 30;
+const MAX_COST = 100000;
+const MAX_FIXED_FEE = 100;
+
+const CURRENCY_SYMBOLS: Array<[RegExp, string]> = [
+  [/\b(CA|C)\$/i, "CAD"],
+  [/\b(AU|A)\$/i, "AUD"],
+  [/£/, "GBP"],
+  [/€/, "EUR"],
+  [/\$/, "USD"]
+];
+
+const CURRENCY_CODES = ["USD", "GBP", "EUR", "CAD", "AUD"];
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function defaultCurrency(input: ListingInput): string {
+  if (input.language && input.language !== "en") {
+    return "EUR";
+  }
+  if (input.locale === "en-GB") {
+    return "GBP";
+  }
+  if (input.locale === "en-AU") {
+    return "AUD";
+  }
+  if (input.locale === "en-CA") {
+    return "CAD";
+  }
+  return "USD";
+}
+
+export function formatMoney(value: number, currency: string): string {
+  return `${value.toFixed(2)} ${currency}`;
+}
+
+export function listingCurrency(input: ListingInput): string {
+  return parsePriceBand(input.priceBand, defaultCurrency(input))?.currency ?? defaultCurrency(input);
+}
+
+export function parsePriceBand(priceBand: string, fallbackCurrency = "USD"): PriceBand | undefined {
+  const amounts = (priceBand.match(/\d{1,3}(?:,\d{3})+(?:\.\d{1,2})?(?!\d)|\d+(?:[.,]\d{1,2})?/g) ?? [])
+    .slice(0, 2)
+    .map((amount) => Number(/,\d{3}/.test(amount) ? amount.replace(/,/g, "") : amount.replace(",", ".")));
+  if (!amounts.length || amounts.some((amount) => !Number.isFinite(amount) || amount <= 0)) {
+    return undefined;
+  }
+
+  const code = CURRENCY_CODES.find((candidate) => new RegExp(`\\b${candidate}\\b`, "i").test(priceBand));
+  const symbol = CURRENCY_SYMBOLS.find(([pattern]) => pattern.test(priceBand))?.[1];
+
+  return {
+    min: Math.min(...amounts),
+    max: Math.max(...amounts),
+    currency: code ?? symbol ?? fallbackCurrency
+  };
+}
+
+function normalizeAmount(value: number | undefined, key: string, max: number): number {
+  if (value == null) {
+    return 0;
+  }
+  if (!Number.isFinite(value) || value < 0 || value > max) {
+    throw new Error(`invalid_${key}`);
+  }
+  return roundMoney(value);
+}
+
+function normalizeRate(value: number | undefined, fallback: number): number {
+  if (value == null) {
+    return fallback;
+  }
+  if (!Number.isFinite(value) || value < 0 || value >= 1) {
+    throw new Error("invalid_feeTable");
+  }
+  return value;
+}
+
+export function resolveFeeTable(overrides: Partial<FeeTable> = {}): FeeTable {
+  return {
+    listingFee: normalizeAmount(overrides.listingFee ?? DEFAULT_FEE_TABLE.listingFee, "feeTable", MAX_FIXED_FEE),
+    transactionRate: normalizeRate(overrides.transactionRate, DEFAULT_FEE_TABLE.transactionRate),
+    paymentProcessingRate: normalizeRate(overrides.paymentProcessingRate, DEFAULT_FEE_TABLE.paymentProcessingRate),
+    paymentProcessingFixed: normalizeAmount(
+      overrides.paymentProcessingFixed ?? DEFAULT_FEE_TABLE.paymentProcessingFixed,
+      "feeTable",
+      MAX_FIXED_FEE
+    ),
+    offsiteAdsRate: normalizeRate(overrides.offsiteAdsRate, DEFAULT_FEE_TABLE.offsiteAdsRate)
+  };
+}
+
+export function normalizePricingInput(value: PricingInput = {}): ResolvedPricingInput {
+  if (!value || typeof value !== "object") {
+    throw new Error("invalid_pricing");
+  }
+
+  const costs = value.costs ?? {};
+  const targetMarginPercent = value.targetMarginPercent ?? DEFAULT_TARGET_MARGIN_PERCENT;
+  if (!Number.isFinite(targetMarginPercent) || targetMarginPercent < 0 || targetMarginPercent >= 90) {
+    throw new Error("invalid_targetMarginPercent");
+  }
+
+  return {
+    costs: {
+      materials: normalizeAmount(costs.materials, "materialCost", MAX_COST),
+      labor: normalizeAmount(costs.labor, "laborCost", MAX_COST),
+      packaging: normalizeAmount(costs.packaging, "packagingCost", MAX_COST),
+      shipping: normalizeAmount(costs.shipping, "shippingCost", MAX_COST)
+    },
+    offsiteAds: value.offsiteAds === true,
+    targetMarginPercent,
+    feeTable: resolveFeeTable(value.feeTable)
+  };
+}
+
+function variableRate(feeTable: FeeTable, offsiteAds: boolean): number {
+  return feeTable.transactionRate + feeTable.paymentProcessingRate + (offsiteAds ? feeTable.offsiteAdsRate : 0);
+}
+
+export function calculateFees(price: number, feeTable: FeeTable, offsiteAds: boolean): FeeBreakdown {
+  const listing = feeTable.listingFee;
+  const transaction = roundMoney(price * feeTable.transactionRate);
+  const paymentProcessing = roundMoney(price * feeTable.paymentProcessingRate + feeTable.paymentProcessingFixed);
+  const offsite = offsiteAds ? roundMoney(price * feeTable.offsiteAdsRate) : 0;
+  return {
+    listing,
+    transaction,
+    paymentProcessing,
+    offsiteAds: offsite,
+    total: roundMoney(listing + transaction + paymentProcessing + offsite)
+  };
+}
+
+function pricePoint(price: number, totalCost: number, feeTable: FeeTable, offsiteAds: boolean): PricePoint {
+  const fees = calculateFees(price, feeTable, offsiteAds);
+  const netProfit = roundMoney(price - fees.total - totalCost);
+  return {
+    price,
+    fees,
+    netProfit,
+    netMarginPercent: Math.round((netProfit / price) * 1000) / 10
+  };
+}
+
+export function buildPricingAnalysis(input: ListingInput): PricingAnalysis | undefined {
+  const band = parsePriceBand(input.priceBand, defaultCurrency(input));
+  if (!band) {
+    return undefined;
+  }
+
+  const pricing = normalizePricingInput(input.pricing);
+  const { costs, feeTable } = pricing;
+  const totalCost = roundMoney(costs.materials + costs.labor + costs.packaging + costs.shipping);
+  const keepRate = 1 - variableRate(feeTable, pricing.offsiteAds) - pricing.targetMarginPercent / 100;
+  if (keepRate <= 0) {
+    throw new Error("invalid_targetMarginPercent");
+  }
+
+  const priceFloor =
+    Math.ceil(((totalCost + feeTable.listingFee + feeTable.paymentProcessingFixed) / keepRate) * 100) / 100;
+  const atMin = pricePoint(band.min, totalCost, feeTable, pricing.offsiteAds);
+  const atMax = pricePoint(band.max, totalCost, feeTable, pricing.offsiteAds);
+
+  const warnings: string[] = [];
+  if (totalCost === 0) {
+    warnings.push("No costs supplied; margins only account for Etsy fees.");
+  }
+  if (atMin.netProfit <= 0) {
+    warnings.push(`Selling at ${band.min.toFixed(2)} ${band.currency} loses money after fees and costs.`);
+  }
+  if (band.min < priceFloor) {
+    warnings.push(
+      `Minimum price is below the ${pricing.targetMarginPercent}% margin floor of ${priceFloor.toFixed(2)} ${band.currency}.`
+    );
+  }
+
+  return {
+    band,
+    costs,
+    totalCost,
+    feeTable,
+    offsiteAds: pricing.offsiteAds,
+    targetMarginPercent: pricing.targetMarginPercent,
+    atMin,
+    atMax,
+    priceFloor,
+    profitable: atMin.netProfit > 0,
+    warnings
+  };
+}
@@ -0,0 +1,400 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const SERVER_FILE = fileURLToPath(new URL("./server.js", import.meta.url));
+
+async function startServer(
+  state?: Record<string, unknown>,
+  env: Record<string, string> = {}
+): Promise<{ baseUrl: string; dataDir: string; stop: () => Promise<void> }> {
+  const dataDir = await mkdtemp(path.join(tmpdir(), "listing-server-"));
+  if (state) {
+    await writeFile(path.join(dataDir, "state.json"), JSON.stringify(state), "utf8");
+  }
+  const port = 20000 + Math.floor(Math.random() * 20000);
+  const child = spawn(process.execPath, [SERVER_FILE], {
+    env: {
+      ...process.env,
+      DATA_DIR: dataDir,
+      PORT: String(port),
+      HOST: "127.0.0.1",
+      METRICS_TOKEN: "metrics-test",
+      ...env
+    },
+    stdio: ["ignore", "pipe", "inherit"]
+  });
+  await new Promise<void>((resolve, reject) => {
+    child.once("exit", (code) => reject(new Error(`server exited with ${code}`)));
+    child.stdout.on("data", (chunk: Buffer) => {
+      if (chunk.toString().includes("listening")) {
+        resolve();
+      }
+    });
+  });
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    dataDir,
+    stop: async () => {
+      child.removeAllListeners("exit");
+      const exited = new Promise((resolve) => child.once("exit", resolve));
+      child.kill();
+      await exited;
+      await rm(dataDir, { recursive: true, force: true });
+    }
+  };
+}
+
+async function postJson(
+  baseUrl: string,
+  pathname: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+): Promise<{ status: number; body: Record<string, unknown> }> {
+  const response = await fetch(`${baseUrl}${pathname}`, {
+    method: "POST",
+    headers: { "content-type": "application/json", ...headers },
+    body: JSON.stringify(body)
+  });
+  return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+}
+
+test("loadState backfills packs saved by earlier generator versions", async () => {
+  const sessionId = "legacy-0000-session";
+  const server = await startServer({
+    sessions: {
+      [sessionId]: {
+        sessionId,
+        createdAt: "2025-01-01T00:00:00.000Z",
+        updatedAt: "2025-01-01T00:00:00.000Z",
+        source: "web",
+        selfTest: true,
+        input: {
+          shopName: "Copper Pine Studio",
+          productType: "ring dish",
+          targetAudience: "bridal party",
+          primaryKeyword: "ring dish",
+          supportingKeywords: ["engagement gift"],
+          materials: ["ceramic"],
+          tone: "warm",
+          priceBand: "$20-$35",
+          processingTimeDays: 3,
+          personalization: true,
+          includeUkSpelling: true
+        },
+        pack: {
+          generatedAt: "2025-01-01T00:00:00.000Z",
+          score: 80,
+          title: "Ring Dish",
+          tags: ["ring dish"],
+          highlights: [],
+          description: "A ring dish.",
+          faq: [],
+          photoShotList: [],
+          launchChecklist: []
+        },
+        paid: true,
+        paymentProof: {
+          submittedAt: "2025-01-01T00:00:00.000Z",
+          payerEmail: "Maker@example.com",
+          transactionId: "tx-legacy"
+        }
+      },
+      "broken-0000-session": {
+        sessionId: "broken-0000-session",
+        createdAt: "2025-01-01T00:00:00.000Z",
+        updatedAt: "2025-01-01T00:00:00.000Z",
+        source: "web",
+        selfTest: true,
+        input: { shopName: "Copper Pine Studio", productType: "ring dish" },
+        pack: { generatedAt: "2025-01-01T00:00:00.000Z", title: "Ring Dish", tags: [] },
+        paid: false
+      }
+    },
+    events: []
+  });
+
+  try {
+    const anonymous = await postJson(server.baseUrl, "/api/guest/claim", { sessionIds: [sessionId] });
+    assert.equal(anonymous.status, 401);
+    const signup = await postJson(server.baseUrl, "/api/auth/signup", {
+      email: "maker@example.com",
+      password: "long enough pw"
+    });
+    const headers = { authorization: `Bearer ${signup.body.token}` };
+    const unproven = await postJson(
+      server.baseUrl,
+      "/api/guest/claim",
+      { sessionIds: [sessionId], payerEmail: "maker@example.com", transactionId: "tx-other" },
+      headers
+    );
+    assert.deepEqual(unproven.body.claimed, { sessions: [], batches: [], shops: [] });
+    const claimed = await postJson(
+      server.baseUrl,
+      "/api/guest/claim",
+      { sessionIds: [sessionId], payerEmail: "maker@example.com", transactionId: "tx-legacy" },
+      headers
+    );
+    assert.deepEqual(claimed.body.claimed, { sessions: [sessionId], batches: [], shops: [] });
+    assert.equal("guestKey" in claimed.body, false);
+
+    const exported = await postJson(server.baseUrl, "/api/listings/export", { sessionId, format: "text" }, headers);
+    assert.equal(exported.status, 200);
+    assert.match(String(exported.body.content), /Ring Dish/i);
+    const document = await postJson(server.baseUrl, "/api/listings/export", { sessionId }, headers);
+    const pack = (document.body.export as { pack: Record<string, unknown> }).pack;
+    assert.equal(pack.title, "Ring Dish");
+    assert.equal(pack.description, "A ring dish.");
+    assert.equal(pack.generatedAt, "2025-01-01T00:00:00.000Z");
+    assert.equal(pack.score, 80);
+    assert.equal("generatorVersion" in pack, false);
+    assert.ok(Array.isArray(pack.scoreBreakdown) && Array.isArray(pack.tagCoverage));
+
+    const regenerated = await postJson(server.baseUrl, `/api/listings/${sessionId}/regenerate`, {}, headers);
+    assert.equal(regenerated.body.storedVersion, null);
+    assert.equal(regenerated.body.changed, true);
+
+    const quarantined = JSON.parse(await readFile(path.join(server.dataDir, "unmigrated-sessions.json"), "utf8"));
+    assert.deepEqual(Object.keys(quarantined), ["broken-0000-session"]);
+    const state = JSON.parse(await readFile(path.join(server.dataDir, "state.json"), "utf8"));
+    assert.deepEqual(Object.keys(state.sessions), [sessionId]);
+
+    const preview = await fetch(`${server.baseUrl}/quick-start/${sessionId}`, { headers });
+    assert.equal(preview.status, 200);
+  } finally {
+    await server.stop();
+  }
+});
+
+test("brief updates keep a bounded revision history", async () => {
+  const server = await startServer();
+
+  try {
+    const generated = await postJson(server.baseUrl, "/api/listings/generate", { productType: "ring dish" });
+    const sessionId = String(generated.body.sessionId);
+    const headers = { "x-guest-key": String(generated.body.guestKey) };
+    for (let days = 4; days <= 15; days += 1) {
+      const updated = await postJson(
+        server.baseUrl,
+        `/api/listings/${sessionId}/update`,
+        { input: { processingTimeDays: days } },
+        headers
+      );
+      assert.equal(updated.status, 200);
+    }
+
+    const response = await fetch(`${server.baseUrl}/api/listings/${sessionId}/revisions`, { headers });
+    const { revisions } = (await response.json()) as { revisions: Array<{ revision: number; current: boolean }> };
+    assert.equal(revisions.length, 11);
+    assert.equal(revisions[0].revision, 3);
+    assert.deepEqual(revisions.at(-1), { ...revisions.at(-1), revision: 13, current: true });
+  } finally {
+    await server.stop();
+  }
+});
+
+test("campaign brief updates keep the seasonal plan and paid sessions keep their product", async () => {
+  const server = await startServer();
+
+  try {
+    const planned = await postJson(server.baseUrl, "/api/campaigns/plan", {
+      productType: "ring dish",
+      supportingKeywordsCsv: "engagement gift",
+      eventId: "mothers_day"
+    });
+    const sessionId = String(planned.body.sessionId);
+    const headers = { "x-guest-key": String(planned.body.guestKey) };
+    const faq = (planned.body.pack as { faq: Array<{ question: string }> }).faq[0];
+    const updated = await postJson(
+      server.baseUrl,
+      `/api/listings/${sessionId}/update`,
+      { input: { supportingKeywords: ["trinket dish"] } },
+      headers
+    );
+    type Change = { field: string; addedItems?: string[]; removedItems?: string[] };
+    const changes = updated.body.inputChanges as Change[];
+
+    assert.equal(updated.status, 200);
+    assert.deepEqual(changes, [
+      {
+        ...changes[0],
+        field: "supportingKeywords",
+        addedItems: ["trinket dish"],
+        removedItems: ["engagement gift"]
+      }
+    ]);
+    assert.deepEqual((updated.body.pack as { faq: Array<{ question: string }> }).faq[0], faq);
+    assert.equal((updated.body.campaign as { event: { id: string } }).event.id, "mothers_day");
+
+    const french = await postJson(
+      server.baseUrl,
+      `/api/listings/${sessionId}/update`,
+      { input: { language: "fr" } },
+      headers
+    );
+    const keywords = (french.body.inputChanges as Change[]).find((change) => change.field === "supportingKeywords");
+    assert.deepEqual(keywords?.removedItems, ["mothers day gift", "gift for mom"]);
+    assert.deepEqual(keywords?.addedItems, ["fête des mères", "cadeau maman"]);
+
+    const proof = { sessionId, payerEmail: "buyer@example.com", transactionId: "tx-1" };
+    assert.equal((await postJson(server.baseUrl, "/api/billing/proof", proof, headers)).status, 200);
+    const locked = await postJson(
+      server.baseUrl,
+      `/api/listings/${sessionId}/update`,
+      { input: { primaryKeyword: "coffee mug", tone: "playful" } },
+      headers
+    );
+    assert.equal(locked.status, 409);
+    assert.deepEqual(locked.body, { error: "input_locked_after_payment", fields: ["primaryKeyword"] });
+    const toned = await postJson(
+      server.baseUrl,
+      `/api/listings/${sessionId}/update`,
+      { input: { tone: "playful" } },
+      headers
+    );
+    assert.equal(toned.status, 200);
+  } finally {
+    await server.stop();
+  }
+});
+
+test("unpaid previews leave out paid-only fields and cap tags across variants", async () => {
+  const server = await startServer();
+
+  try {
+    const generated = await postJson(server.baseUrl, "/api/listings/generate", {
+      productType: "ring dish",
+      supportingKeywordsCsv: "engagement gift, bridesmaid gift, ceramic dish, jewelry tray, trinket dish",
+      materialCost: 4,
+      laborCost: 6,
+      variantCount: 4,
+      variations: [{ property: "Size", options: ["Small", "Large"] }],
+      shipping: { originCountry: "US", regions: [{ region: "US", minDays: 3, maxDays: 5 }] }
+    });
+    const pack = generated.body.pack as Record<string, unknown> & {
+      tags: string[];
+      variants: Array<{ tags: string[] }>;
+    };
+    const shownTags = new Set(pack.variants.flatMap((variant) => variant.tags));
+
+    assert.equal(generated.status, 200);
+    for (const field of ["pricing", "shipping", "variationTable", "taxonomy", "descriptionAnalysis"]) {
+      assert.equal(field in pack, false, field);
+    }
+    assert.ok(pack.variants.length > 1);
+    assert.ok(shownTags.size <= 5);
+    assert.ok([...shownTags].every((tag) => pack.tags.includes(tag)));
+  } finally {
+    await server.stop();
+  }
+});
+
+test("clients cannot read, pay for or export another client's sessions, batches and shops", async () => {
+  const server = await startServer();
+
+  try {
+    const generated = await postJson(server.baseUrl, "/api/listings/generate", { productType: "ring dish" });
+    const sessionId = String(generated.body.sessionId);
+    const owner = { "x-guest-key": String(generated.body.guestKey) };
+    const batch = await postJson(server.baseUrl, "/api/listings/batch", { briefs: [{ productType: "mug" }] }, owner);
+    const batchId = String(batch.body.batchId);
+    assert.equal(batch.status, 200);
+    const shop = await postJson(server.baseUrl, "/api/shops", { name: "Copper Pine Studio" }, owner);
+    const shopId = String((shop.body.shop as { shopId: string }).shopId);
+    assert.equal(shop.status, 201);
+    assert.equal("owner" in (shop.body.shop as object), false);
+
+    const signup = await postJson(server.baseUrl, "/api/auth/signup", {
+      email: "other@example.com",
+      password: "long enough pw"
+    });
+    const guest = await postJson(server.baseUrl, "/api/listings/generate", { productType: "mug" });
+    const intruders: Array<Record<string, string>> = [
+      {},
+      { "x-guest-key": String(guest.body.guestKey) },
+      { authorization: `Bearer ${signup.body.token}` }
+    ];
+
+    for (const headers of intruders) {
+      const proof = { sessionId, payerEmail: "a@example.com", transactionId: "tx-1" };
+      assert.equal((await postJson(server.baseUrl, "/api/billing/checkout", { sessionId }, headers)).status, 404);
+      assert.equal((await postJson(server.baseUrl, "/api/billing/proof", proof, headers)).status, 404);
+      assert.equal((await postJson(server.baseUrl, "/api/listings/export", { sessionId }, headers)).status, 404);
+      assert.equal((await postJson(server.baseUrl, "/api/billing/checkout", { batchId }, headers)).status, 404);
+      assert.equal((await postJson(server.baseUrl, "/api/listings/batch/export", { batchId }, headers)).status, 404);
+      assert.equal((await fetch(`${server.baseUrl}/quick-start/${sessionId}`, { headers })).status, 404);
+      assert.equal((await fetch(`${server.baseUrl}/api/listings/batch/${batchId}`, { headers })).status, 404);
+      assert.equal((await fetch(`${server.baseUrl}/api/shops/${shopId}`, { headers })).status, 404);
+      assert.equal((await fetch(`${server.baseUrl}/api/shops/${shopId}`, { method: "DELETE", headers })).status, 404);
+      const shops = (await (await fetch(`${server.baseUrl}/api/shops`, { headers })).json()) as { shops: unknown[] };
+      assert.deepEqual(shops.shops, []);
+      const branded = await postJson(
+        server.baseUrl,
+        "/api/listings/generate",
+        { productType: "mug", shopId },
+        headers
+      );
+      assert.equal(branded.body.error, "invalid_shopId");
+    }
+
+    assert.equal((await postJson(server.baseUrl, "/api/billing/checkout", { sessionId }, owner)).status, 200);
+    assert.equal((await fetch(`${server.baseUrl}/api/listings/batch/${batchId}`, { headers: owner })).status, 200);
+    assert.equal((await fetch(`${server.baseUrl}/api/shops/${shopId}`, { headers: owner })).status, 200);
+  } finally {
+    await server.stop();
+  }
+});
+
+test("ownerless records from earlier versions stay locked until claimed", async () => {
+  const sessionId = "legacy-0000-session";
+  const server = await startServer(
+    {
+      shops: {
+        "legacy-0000-shop": {
+          shopId: "legacy-0000-shop",
+          name: "Legacy Shop",
+          policies: {},
+          signaturePhrases: [],
+          bannedWords: [],
+          createdAt: "2025-01-01T00:00:00.000Z",
+          updatedAt: "2025-01-01T00:00:00.000Z"
+        }
+      },
+      events: []
+    },
+    { ADMIN_EMAILS: "admin@example.com" }
+  );
+
+  try {
+    assert.equal((await fetch(`${server.baseUrl}/api/shops/legacy-0000-shop`)).status, 404);
+    const signup = async (email: string) => {
+      const account = await postJson(server.baseUrl, "/api/auth/signup", { email, password: "long enough pw" });
+      return { authorization: `Bearer ${account.body.token}` };
+    };
+    const maker = await signup("maker@example.com");
+    const refused = await postJson(server.baseUrl, "/api/guest/claim", { shopIds: ["legacy-0000-shop"] }, maker);
+    assert.deepEqual(refused.body.claimed, { sessions: [], batches: [], shops: [] });
+    assert.equal((await fetch(`${server.baseUrl}/api/shops/legacy-0000-shop`, { headers: maker })).status, 404);
+
+    const admin = await signup("admin@example.com");
+    const claimed = await postJson(
+      server.baseUrl,
+      "/api/guest/claim",
+      { shopIds: ["legacy-0000-shop", sessionId] },
+      admin
+    );
+    assert.deepEqual(claimed.body.claimed, { sessions: [], batches: [], shops: ["legacy-0000-shop"] });
+    assert.equal((await fetch(`${server.baseUrl}/api/shops/legacy-0000-shop`, { headers: admin })).status, 200);
+
+    const again = await postJson(server.baseUrl, "/api/guest/claim", { shopIds: ["legacy-0000-shop"] });
+    assert.equal(again.status, 401);
+    assert.equal((await fetch(`${server.baseUrl}/api/shops/legacy-0000-shop`)).status, 404);
+  } finally {
+    await server.stop();
+  }
+});
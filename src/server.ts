@@ -3,13 +3,54 @@ import { appendFile, mkdir, readFile, writeFile } from "node:fs/promises";
 import http from "node:http";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
+import { catalogFor, normalizeLanguage, type ListingLanguage } from "./catalog.js";
+import { listCategoryRulePacks } from "./categories.js";
+import { DEFAULT_FEE_TABLE, formatMoney, type FeeTable, type PricingInput } from "./pricing.js";
+import type { ShippingProfile } from "./shipping.js";
+import { parseCsv } from "./csv.js";
+import { buildEtsyCsv } from "./etsy-csv.js";
+import { renderPdf, type PdfBlock } from "./pdf.js";
+import { applyKeywordResearch, parseKeywordResearchCsv, type KeywordResearchRow } from "./keywords.js";
+import { campaignBriefInput, planCampaign, upcomingCampaigns, type CampaignSchedule } from "./campaign.js";
+import { auditListing, sanitizeExistingListing, type AuditReport, type ExistingListing } from "./audit.js";
 import {
+  API_KEY_PREFIX,
+  GUEST_KEY_PREFIX,
+  hashPassword,
+  hashSecret,
+  isIssuedSecret,
+  issueSecret,
+  LOGIN_TOKEN_PREFIX,
+  normalizeEmail,
+  parseCookies,
+  secretsMatch,
+  validatePassword,
+  verifyPassword
+} from "./auth.js";
+import { configureComplianceRules } from "./compliance.js";
+import { diffFields, type FieldChange } from "./diff.js";
+import { sanitizeShopProfile, shopBrand, withShopDefaults, type ShopProfile } from "./shop.js";
+import {
+  applyListingVariant,
+  applyPackOverrides,
+  backfillListingPack,
   buildListingPack,
+  GENERATOR_VERSION,
+  isDigitalKind,
+  keepLockedFields,
+  MAX_TAG_LENGTH,
+  MAX_TITLE_LENGTH,
+  PACK_OVERRIDE_FIELDS,
   parseKeywordCsv,
   parseMaterialsCsv,
   sanitizeListingInput,
+  sanitizePackOverrides,
   type ListingInput,
-  type ListingPack
+  type ListingPack,
+  type ListingVariation,
+  type PackOverrideField,
+  type PackOverrides,
+  type VariationOption
 } from "./listing.js";
 
 const HOST = process.env.HOST || "0.0.0.0";
@@ -19,9 +60,80 @@ const MAX_BODY_BYTES = 512 * 1024;
 const PUBLIC_BASE_URL = process.env.PUBLIC_BASE_URL || "http://etsy-listing.46.225.49.219.nip.io";
 const PAYMENT_URL = process.env.PAYMENT_URL || "https://buy.stripe.com/test_eVq6oH8mqf5WeQJ2jQ";
 const PRICE_USD = Number.parseFloat(process.env.PRICE_USD || "19");
+const MAX_BATCH_ROWS = 100;
+const MAX_SESSION_REVISIONS = 10;
+const METRICS_TOKEN = process.env.METRICS_TOKEN || "";
+const ADMIN_EMAILS = (process.env.ADMIN_EMAILS || "")
+  .split(",")
+  .map((email) => email.trim().toLowerCase())
+  .filter(Boolean);
+const LOGIN_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+const GUEST_COOKIE = "els_guest";
+const GUEST_COOKIE_MAX_AGE = 180 * 24 * 60 * 60;
+const MAX_API_KEYS = 20;
+const MAX_WORKSPACE_MEMBERS = 50;
+const EDITABLE_INPUT_FIELDS: Array<keyof ListingInput> = [
+  "shopName",
+  "productType",
+  "targetAudience",
+  "primaryKeyword",
+  "supportingKeywords",
+  "materials",
+  "tone",
+  "priceBand",
+  "processingTimeDays",
+  "personalization",
+  "locale",
+  "language",
+  "productKind",
+  "category",
+  "variantCount",
+  "variations",
+  "pricing",
+  "shipping",
+  "keywordResearch"
+];
+const PAID_LOCKED_INPUT_FIELDS: Array<keyof ListingInput> = [
+  "shopName",
+  "productType",
+  "primaryKeyword",
+  "language",
+  "productKind",
+  "category"
+];
+const TEXT_INPUT_FIELDS: Array<keyof ListingInput> = [
+  "shopName",
+  "productType",
+  "targetAudience",
+  "primaryKeyword",
+  "tone",
+  "priceBand",
+  "locale",
+  "language",
+  "productKind",
+  "category"
+];
+const CLEARABLE_INPUT_FIELDS: Array<keyof ListingInput> = [
+  "productKind",
+  "category",
+  "variantCount",
+  "variations",
+  "pricing",
+  "shipping",
+  "keywordResearch"
+];
+const QUICK_START_EXPORT_FORMATS: Record<string, string> = {
+  txt: "text",
+  csv: "csv",
+  md: "markdown",
+  html: "html",
+  pdf: "pdf"
+};
 
 const STATE_FILE = path.join(DATA_DIR, "state.json");
 const EVENTS_FILE = path.join(DATA_DIR, "events.jsonl");
+const UNMIGRATED_FILE = path.join(DATA_DIR, "unmigrated-sessions.json");
+const COMPLIANCE_FILE = process.env.COMPLIANCE_FILE || path.join(DATA_DIR, "compliance.json");
 const SITE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "../site");
 
 const STATIC_MIME: Record<string, string> = {
@@ -36,6 +148,11 @@ const STATIC_MIME: Record<string, string> = {
 type EventType =
   | "landing_view"
   | "brief_generated"
+  | "listing_audited"
+  | "campaign_planned"
+  | "listing_regenerated"
+  | "brief_updated"
+  | "listing_overridden"
   | "checkout_started"
   | "payment_evidence_submitted"
   | "listing_exported";
@@ -46,6 +163,7 @@ type BriefIntent =
   | "sample_cta"
   | "quick_start"
   | "no_js_quick_start"
+  | "batch_upload"
   | "unknown";
 
 type PaymentProof = {
@@ -56,6 +174,75 @@ type PaymentProof = {
   note?: string;
 };
 
+type ResourceOwner =
+  | { kind: "user"; userId: string }
+  | { kind: "workspace"; workspaceId: string }
+  | { kind: "guest"; guestKeyHash: string }
+  | { kind: "unclaimed" };
+
+type ClaimRequest = {
+  guestKeyHash?: string;
+  sessionIds: string[];
+  batchIds: string[];
+  shopIds: string[];
+  admin: boolean;
+  proof?: Pick<PaymentProof, "payerEmail" | "transactionId">;
+};
+
+type ApiKeyRecord = {
+  keyId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  createdAt: string;
+  lastUsedAt?: string;
+};
+
+type UserAccount = {
+  userId: string;
+  email: string;
+  name?: string;
+  passwordHash: string;
+  createdAt: string;
+  apiKeys: ApiKeyRecord[];
+};
+
+type Workspace = {
+  workspaceId: string;
+  name: string;
+  ownerId: string;
+  memberIds: string[];
+  createdAt: string;
+};
+
+type LoginToken = {
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+type Actor = {
+  user?: UserAccount;
+  loginTokenHash?: string;
+  guestKeyHash?: string;
+  issuedGuestKey?: string;
+  metrics: boolean;
+};
+
+type OwnedShop = ShopProfile & {
+  owner: ResourceOwner;
+};
+
+type SessionRevision = {
+  revision: number;
+  createdAt: string;
+  replacedAt: string;
+  input: ListingInput;
+  pack: ListingPack;
+  activeVariantId: string;
+  campaign?: CampaignSchedule;
+};
+
 type ListingSession = {
   sessionId: string;
   createdAt: string;
@@ -64,8 +251,34 @@ type ListingSession = {
   selfTest: boolean;
   input: ListingInput;
   pack: ListingPack;
+  activeVariantId: string;
+  paid: boolean;
+  paymentProof?: PaymentProof;
+  audit?: AuditReport;
+  campaign?: CampaignSchedule;
+  batchId?: string;
+  owner: ResourceOwner;
+  revision?: number;
+  revisedAt?: string;
+  revisions?: SessionRevision[];
+};
+
+type BatchRowError = {
+  row: number;
+  error: string;
+};
+
+type ListingBatch = {
+  batchId: string;
+  createdAt: string;
+  updatedAt: string;
+  source: string;
+  selfTest: boolean;
+  sessionIds: string[];
+  rowErrors: BatchRowError[];
   paid: boolean;
   paymentProof?: PaymentProof;
+  owner: ResourceOwner;
 };
 
 type EventRecord = {
@@ -80,6 +293,11 @@ type EventRecord = {
 
 type State = {
   sessions: Record<string, ListingSession>;
+  batches: Record<string, ListingBatch>;
+  shops: Record<string, OwnedShop>;
+  users: Record<string, UserAccount>;
+  workspaces: Record<string, Workspace>;
+  loginTokens: Record<string, LoginToken>;
   events: EventRecord[];
 };
 
@@ -92,6 +310,27 @@ type PreviewHiddenCounts = {
   photoShotList: number;
   launchChecklist: number;
 };
+type PreviewPack = Pick<
+  ListingPack,
+  | "generatedAt"
+  | "generatorVersion"
+  | "score"
+  | "scoreBreakdown"
+  | "recommendations"
+  | "compliance"
+  | "title"
+  | "tags"
+  | "highlights"
+  | "description"
+  | "descriptionSections"
+  | "faq"
+  | "photoShotList"
+  | "launchChecklist"
+  | "variants"
+  | "tagCoverage"
+  | "keywordResearch"
+  | "lockedFields"
+>;
 type PreviewMeta = {
   limited: true;
   hiddenCounts: PreviewHiddenCounts;
@@ -101,6 +340,11 @@ type PreviewMeta = {
 const EVENT_TYPES: EventType[] = [
   "landing_view",
   "brief_generated",
+  "listing_audited",
+  "campaign_planned",
+  "listing_regenerated",
+  "brief_updated",
+  "listing_overridden",
   "checkout_started",
   "payment_evidence_submitted",
   "listing_exported"
@@ -108,6 +352,11 @@ const EVENT_TYPES: EventType[] = [
 
 const state: State = {
   sessions: {},
+  batches: {},
+  shops: {},
+  users: {},
+  workspaces: {},
+  loginTokens: {},
   events: []
 };
 
@@ -139,6 +388,25 @@ function sendText(response: http.ServerResponse, statusCode: number, payload: st
   response.end(payload);
 }
 
+function sendCsv(response: http.ServerResponse, statusCode: number, fileName: string, payload: string): void {
+  response.writeHead(statusCode, {
+    "content-type": "text/csv; charset=utf-8",
+    "content-disposition": `attachment; filename="${fileName}"`,
+    "cache-control": "no-store"
+  });
+  response.end(payload);
+}
+
+function sendPdf(response: http.ServerResponse, statusCode: number, fileName: string, payload: Buffer): void {
+  response.writeHead(statusCode, {
+    "content-type": "application/pdf",
+    "content-disposition": `attachment; filename="${fileName}"`,
+    "content-length": payload.length,
+    "cache-control": "no-store"
+  });
+  response.end(payload);
+}
+
 function parseBoolean(value: unknown): boolean {
   if (value === true) {
     return true;
@@ -174,7 +442,8 @@ function normalizeBriefIntent(value: unknown): BriefIntent {
     normalized === "auto_preview" ||
     normalized === "sample_cta" ||
     normalized === "quick_start" ||
-    normalized === "no_js_quick_start"
+    normalized === "no_js_quick_start" ||
+    normalized === "batch_upload"
   ) {
     return normalized;
   }
@@ -220,6 +489,18 @@ function asOptionalInteger(payload: JsonObject, key: string): number | undefined
   return parsed;
 }
 
+function asOptionalNumber(payload: JsonObject, key: string): number | undefined {
+  const raw = payload[key];
+  if (raw == null || raw === "") {
+    return undefined;
+  }
+  const parsed = typeof raw === "number" ? raw : typeof raw === "string" ? Number(raw) : Number.NaN;
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`invalid_${key}`);
+  }
+  return parsed;
+}
+
 function asOptionalBoolean(payload: JsonObject, key: string): boolean | undefined {
   if (!(key in payload)) {
     return undefined;
@@ -235,10 +516,23 @@ function parseSessionId(payload: JsonObject): string {
   return sessionId;
 }
 
+function parseBatchId(payload: JsonObject): string {
+  const batchId = asRequiredString(payload, "batchId", 120);
+  if (!/^[a-zA-Z0-9-]{8,120}$/.test(batchId)) {
+    throw new Error("invalid_batchId");
+  }
+  return batchId;
+}
+
 function emptyCounts(): MetricsCounts {
   return {
     landing_view: 0,
     brief_generated: 0,
+    listing_audited: 0,
+    campaign_planned: 0,
+    listing_regenerated: 0,
+    brief_updated: 0,
+    listing_overridden: 0,
     checkout_started: 0,
     payment_evidence_submitted: 0,
     listing_exported: 0
@@ -435,10 +729,10 @@ function parseStringArray(payload: JsonObject, key: string, maxItems: number, ma
   return result;
 }
 
-function parseKeywords(payload: JsonObject): string[] {
+function parseKeywords(payload: JsonObject, language: ListingLanguage): string[] {
   const keywordsCsv = asOptionalString(payload, "supportingKeywordsCsv", 5000);
   if (keywordsCsv) {
-    return parseKeywordCsv(keywordsCsv);
+    return parseKeywordCsv(keywordsCsv, language);
   }
 
   if ("supportingKeywords" in payload) {
@@ -448,29 +742,35 @@ function parseKeywords(payload: JsonObject): string[] {
   return [];
 }
 
-function normalizeKeywordSeed(value: string): string {
+function normalizeKeywordSeed(value: string, language: ListingLanguage): string {
   return value
     .trim()
-    .toLowerCase()
-    .replace(/[^a-z0-9&\-\s]/g, " ")
+    .toLocaleLowerCase(language)
+    .replace(/[^\p{L}\p{N}&\-\s]/gu, " ")
     .replace(/\s+/g, " ")
     .trim();
 }
 
-function buildFallbackKeywords(primaryKeyword: string, productType: string, targetAudience: string): string[] {
+function buildFallbackKeywords(
+  primaryKeyword: string,
+  productType: string,
+  targetAudience: string,
+  language: ListingLanguage
+): string[] {
+  const { tags } = catalogFor(language);
   const candidates = [
     primaryKeyword,
-    `${primaryKeyword} gift`,
-    `${productType} gift`,
-    `${targetAudience} gift`,
+    tags.gift(primaryKeyword),
+    tags.gift(productType),
+    tags.gift(targetAudience),
     `${productType} etsy`,
-    "handmade gift"
+    tags.handmadeGift
   ];
 
   const result: string[] = [];
   const seen = new Set<string>();
   for (const candidate of candidates) {
-    const normalized = normalizeKeywordSeed(candidate);
+    const normalized = normalizeKeywordSeed(candidate, language);
     if (!normalized || normalized.length > 80 || seen.has(normalized)) {
       continue;
     }
@@ -485,10 +785,10 @@ function buildFallbackKeywords(primaryKeyword: string, productType: string, targ
   return result.slice(0, 8);
 }
 
-function parseMaterials(payload: JsonObject): string[] {
+function parseMaterials(payload: JsonObject, language: ListingLanguage): string[] {
   const materialsCsv = asOptionalString(payload, "materialsCsv", 3000);
   if (materialsCsv) {
-    return parseMaterialsCsv(materialsCsv);
+    return parseMaterialsCsv(materialsCsv, language);
   }
 
   if (!("materials" in payload)) {
@@ -498,44 +798,251 @@ function parseMaterials(payload: JsonObject): string[] {
   return parseStringArray(payload, "materials", 12, 80);
 }
 
-function parseGenerateInput(payload: JsonObject): {
+function parseKeywordResearch(payload: JsonObject): KeywordResearchRow[] | undefined {
+  const researchCsv = asOptionalString(payload, "keywordResearchCsv", 200000);
+  if (researchCsv) {
+    return parseKeywordResearchCsv(researchCsv);
+  }
+
+  const value = payload.keywordResearch;
+  if (value == null) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw new Error("invalid_keywordResearch");
+  }
+
+  return value.map((item) => {
+    if (!item || typeof item !== "object") {
+      throw new Error("invalid_keywordResearch");
+    }
+    const row = item as JsonObject;
+    return {
+      keyword: asOptionalString(row, "keyword", 80) || "",
+      monthlySearches: asOptionalInteger(row, "monthlySearches") ?? 0,
+      competition: asOptionalNumber(row, "competition") ?? 0.5,
+      ctr: asOptionalNumber(row, "ctr")
+    };
+  });
+}
+
+function parseVariationNumber(value: unknown): number | undefined {
+  if (value == null || value === "") {
+    return undefined;
+  }
+  const parsed = typeof value === "number" ? value : typeof value === "string" ? Number(value) : Number.NaN;
+  if (!Number.isFinite(parsed)) {
+    throw new Error("invalid_variations");
+  }
+  return parsed;
+}
+
+function parseVariationOption(value: unknown): VariationOption {
+  if (typeof value === "string") {
+    return { name: value };
+  }
+  if (!value || typeof value !== "object") {
+    throw new Error("invalid_variations");
+  }
+  const option = value as JsonObject;
+  if (typeof option.name !== "string") {
+    throw new Error("invalid_variations");
+  }
+  return {
+    name: option.name,
+    price: parseVariationNumber(option.price),
+    quantity: parseVariationNumber(option.quantity)
+  };
+}
+
+function parseVariations(payload: JsonObject): ListingVariation[] | undefined {
+  const value = payload.variations;
+  if (value == null) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw new Error("invalid_variations");
+  }
+
+  return value.map((item) => {
+    if (!item || typeof item !== "object") {
+      throw new Error("invalid_variations");
+    }
+    const variation = item as JsonObject;
+    if (typeof variation.property !== "string" || !Array.isArray(variation.options)) {
+      throw new Error("invalid_variations");
+    }
+    return {
+      property: variation.property,
+      options: variation.options.map(parseVariationOption)
+    };
+  });
+}
+
+function parseFeeTable(payload: JsonObject): Partial<FeeTable> | undefined {
+  const value = payload.feeTable;
+  if (value == null) {
+    return undefined;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("invalid_feeTable");
+  }
+  const table = value as JsonObject;
+  const feeTable: Partial<FeeTable> = {};
+  for (const key of Object.keys(DEFAULT_FEE_TABLE) as Array<keyof FeeTable>) {
+    if (table[key] == null) {
+      continue;
+    }
+    if (typeof table[key] !== "number") {
+      throw new Error("invalid_feeTable");
+    }
+    feeTable[key] = table[key] as number;
+  }
+  return feeTable;
+}
+
+function parsePricing(payload: JsonObject): PricingInput | undefined {
+  const pricing: PricingInput = {
+    costs: {
+      materials: asOptionalNumber(payload, "materialCost"),
+      labor: asOptionalNumber(payload, "laborCost"),
+      packaging: asOptionalNumber(payload, "packagingCost"),
+      shipping: asOptionalNumber(payload, "shippingCost")
+    },
+    offsiteAds: asOptionalBoolean(payload, "offsiteAds"),
+    targetMarginPercent: asOptionalNumber(payload, "targetMarginPercent"),
+    feeTable: parseFeeTable(payload)
+  };
+  const supplied =
+    Object.values(pricing.costs ?? {}).some((value) => value != null) ||
+    pricing.offsiteAds != null ||
+    pricing.targetMarginPercent != null ||
+    pricing.feeTable != null;
+  return supplied ? pricing : undefined;
+}
+
+function parseDayRange(value: JsonObject): { minDays: number; maxDays: number } {
+  const minDays = asOptionalInteger(value, "minDays");
+  const maxDays = asOptionalInteger(value, "maxDays") ?? minDays;
+  if (minDays == null || maxDays == null) {
+    throw new Error("invalid_shipping");
+  }
+  return { minDays, maxDays };
+}
+
+function parseShipping(payload: JsonObject): ShippingProfile | undefined {
+  const value = payload.shipping;
+  if (value == null) {
+    return undefined;
+  }
+  if (typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("invalid_shipping");
+  }
+  const shipping = value as JsonObject;
+  if (!Array.isArray(shipping.regions) || (shipping.upgrades != null && !Array.isArray(shipping.upgrades))) {
+    throw new Error("invalid_shipping");
+  }
+  const entries = (items: unknown[]) =>
+    items.map((item) => {
+      if (!item || typeof item !== "object") {
+        throw new Error("invalid_shipping");
+      }
+      return item as JsonObject;
+    });
+
+  return {
+    originCountry: asOptionalString(shipping, "originCountry", 60) || "",
+    regions: entries(shipping.regions).map((region) => ({
+      region: asOptionalString(region, "region", 60) || "",
+      ...parseDayRange(region)
+    })),
+    freeShippingThreshold: asOptionalNumber(shipping, "freeShippingThreshold"),
+    upgrades: entries((shipping.upgrades as unknown[] | undefined) ?? []).map((upgrade) => ({
+      name: asOptionalString(upgrade, "name", 40) || "",
+      ...parseDayRange(upgrade),
+      price: asOptionalNumber(upgrade, "price")
+    }))
+  };
+}
+
+function findShopProfile(payload: JsonObject, actor: Actor): ShopProfile | undefined {
+  const shopId = asOptionalString(payload, "shopId", 120);
+  if (!shopId) {
+    return undefined;
+  }
+  const shop = findShop(shopId, actor);
+  if (!shop) {
+    throw new Error("invalid_shopId");
+  }
+  return shop;
+}
+
+function parseGenerateInput(
+  body: JsonObject,
+  actor: Actor
+): {
   input: ListingInput;
   source: string;
   selfTest: boolean;
   briefIntent: BriefIntent;
 } {
+  const shop = findShopProfile(body, actor);
+  const payload = shop ? withShopDefaults(body, shop) : body;
   const shopName = asOptionalString(payload, "shopName", 80) || "Your Etsy Shop";
   const productType = asRequiredString(payload, "productType", 80);
   const targetAudience = asOptionalString(payload, "targetAudience", 80) || "etsy shoppers";
   const primaryKeyword = asOptionalString(payload, "primaryKeyword", 80) || productType;
-  const parsedSupportingKeywords = parseKeywords(payload);
+  const language = normalizeLanguage(asOptionalString(payload, "language", 10) || "en");
+  const parsedSupportingKeywords = parseKeywords(payload, language);
+  const keywordResearch = parseKeywordResearch(payload);
   const supportingKeywords = parsedSupportingKeywords.length
     ? parsedSupportingKeywords
-    : buildFallbackKeywords(primaryKeyword, productType, targetAudience);
-  const materials = parseMaterials(payload);
+    : keywordResearch?.length
+      ? keywordResearch.map((row) => row.keyword)
+      : buildFallbackKeywords(primaryKeyword, productType, targetAudience, language);
+  const materials = parseMaterials(payload, language);
   const tone = ((asOptionalString(payload, "tone", 20) || "warm").toLowerCase() as ListingInput["tone"]);
   const priceBand = asOptionalString(payload, "priceBand", 80) || "$20-$45";
-  const processingTimeDays = asOptionalInteger(payload, "processingTimeDays") ?? 3;
-  const personalization = asOptionalBoolean(payload, "personalization") ?? true;
+  const productKind = asOptionalString(payload, "productKind", 30) as ListingInput["productKind"];
+  const category = asOptionalString(payload, "category", 40);
+  const digital = isDigitalKind(productKind);
+  const processingTimeDays = asOptionalInteger(payload, "processingTimeDays") ?? (digital ? 0 : 3);
+  const personalization = asOptionalBoolean(payload, "personalization") ?? !digital;
   const includeUkSpelling = asOptionalBoolean(payload, "includeUkSpelling") ?? false;
+  const locale = asOptionalString(payload, "locale", 10) || (includeUkSpelling ? "en-GB" : "en-US");
+  const variantCount = asOptionalInteger(payload, "variantCount");
+  const variations = parseVariations(payload);
+  const pricing = parsePricing(payload);
+  const shipping = parseShipping(payload);
 
   const source = normalizeSource(payload.source, "web");
   const selfTest = parseBoolean(payload.selfTest);
   const briefIntent = normalizeBriefIntent(payload.briefIntent);
 
-  const input = sanitizeListingInput({
-    shopName,
-    productType,
-    targetAudience,
-    primaryKeyword,
-    supportingKeywords,
-    materials,
-    tone,
-    priceBand,
-    processingTimeDays,
-    personalization,
-    includeUkSpelling
-  });
+  const input = applyKeywordResearch(
+    sanitizeListingInput({
+      shopName,
+      productType,
+      targetAudience,
+      primaryKeyword,
+      supportingKeywords,
+      materials,
+      tone,
+      priceBand,
+      processingTimeDays,
+      personalization,
+      locale: locale as ListingInput["locale"],
+      language,
+      productKind,
+      category,
+      variantCount,
+      variations,
+      pricing,
+      shipping,
+      keywordResearch,
+      shop: shop ? shopBrand(shop) : undefined
+    })
+  );
 
   return {
     input,
@@ -545,6 +1052,98 @@ function parseGenerateInput(payload: JsonObject): {
   };
 }
 
+const BATCH_CSV_COLUMNS: Record<string, string> = {
+  ...Object.fromEntries(
+    [
+      "shopName",
+      "shopId",
+      "productType",
+      "targetAudience",
+      "primaryKeyword",
+      "supportingKeywordsCsv",
+      "materialsCsv",
+      "keywordResearchCsv",
+      "tone",
+      "priceBand",
+      "processingTimeDays",
+      "productKind",
+      "category",
+      "personalization",
+      "includeUkSpelling",
+      "locale",
+      "language",
+      "variantCount",
+      "materialCost",
+      "laborCost",
+      "packagingCost",
+      "shippingCost",
+      "offsiteAds",
+      "targetMarginPercent"
+    ].map((key) => [key.toLowerCase(), key])
+  ),
+  keywords: "supportingKeywordsCsv",
+  supportingkeywords: "supportingKeywordsCsv",
+  materials: "materialsCsv"
+};
+
+function parseBatchRows(payload: JsonObject): JsonObject[] {
+  const briefsCsv = asOptionalString(payload, "briefsCsv", MAX_BODY_BYTES);
+  let rows: JsonObject[];
+  if (briefsCsv) {
+    const [header, ...lines] = parseCsv(briefsCsv);
+    const keys = header.map((name) => BATCH_CSV_COLUMNS[name.toLowerCase().replace(/[^a-z0-9]/g, "")]);
+    rows = lines.map((cells) =>
+      Object.fromEntries(cells.flatMap((cell, index) => (keys[index] && cell ? [[keys[index], cell]] : [])))
+    );
+  } else if (Array.isArray(payload.briefs)) {
+    rows = payload.briefs.map((brief) =>
+      brief && typeof brief === "object" && !Array.isArray(brief) ? (brief as JsonObject) : {}
+    );
+  } else {
+    throw new Error("invalid_briefs");
+  }
+
+  if (!rows.length || rows.length > MAX_BATCH_ROWS) {
+    throw new Error("invalid_briefs");
+  }
+  return rows;
+}
+
+function deriveProductType(title: string): string {
+  const lead = title.split(/\s[|,\-–:]\s|[|,]/)[0]?.trim() || title;
+  return lead.slice(0, 80).trim();
+}
+
+function parseAuditInput(
+  payload: JsonObject,
+  actor: Actor
+): ReturnType<typeof parseGenerateInput> & {
+  listing: ExistingListing;
+} {
+  const title = asRequiredString(payload, "title", 400);
+  const tags = "tags" in payload ? parseStringArray(payload, "tags", 40, 80) : [];
+  const language = normalizeLanguage(asOptionalString(payload, "language", 10) || "en");
+  const listing = sanitizeExistingListing({
+    title,
+    tags,
+    description: asOptionalString(payload, "description", 20000) || "",
+    materials: parseMaterials(payload, language)
+  });
+
+  const briefPayload: JsonObject = {
+    ...payload,
+    productType: asOptionalString(payload, "productType", 80) || deriveProductType(listing.title)
+  };
+  if (!("supportingKeywords" in payload) && !asOptionalString(payload, "supportingKeywordsCsv", 5000) && tags.length) {
+    briefPayload.supportingKeywords = tags;
+  }
+
+  return {
+    ...parseGenerateInput(briefPayload, actor),
+    listing
+  };
+}
+
 function previewDescription(description: string): string {
   const boundary = description.search(/[.!?](\s|$)/);
   const sentence = boundary >= 0 ? description.slice(0, boundary + 1).trim() : description.trim();
@@ -553,7 +1152,7 @@ function previewDescription(description: string): string {
 }
 
 function buildPreviewPack(pack: ListingPack): {
-  previewPack: ListingPack;
+  previewPack: PreviewPack;
   preview: PreviewMeta;
 } {
   const tagPreviewCount = Math.min(pack.tags.length, 5);
@@ -570,7 +1169,8 @@ function buildPreviewPack(pack: ListingPack): {
     launchChecklist: Math.max(0, pack.launchChecklist.length - checklistPreviewCount)
   };
 
-  const previewTags = pack.tags.slice(0, tagPreviewCount);
+  const shownTags = new Set(pack.tags.slice(0, tagPreviewCount));
+  const previewTags = [...shownTags];
   if (hiddenCounts.tags > 0) {
     previewTags.push("unlock full pack");
   }
@@ -582,7 +1182,7 @@ function buildPreviewPack(pack: ListingPack): {
 
   const previewPhotoShotList = pack.photoShotList.slice(0, photoPreviewCount);
   if (hiddenCounts.photoShotList > 0) {
-    previewPhotoShotList.push("Unlock the full 8-shot plan after checkout.");
+    previewPhotoShotList.push(`Unlock the full ${pack.photoShotList.length}-shot plan after checkout.`);
   }
 
   const previewChecklist = pack.launchChecklist.slice(0, checklistPreviewCount);
@@ -592,119 +1192,1015 @@ function buildPreviewPack(pack: ListingPack): {
 
   return {
     previewPack: {
-      ...pack,
+      generatedAt: pack.generatedAt,
+      generatorVersion: pack.generatorVersion,
+      score: pack.score,
+      scoreBreakdown: pack.scoreBreakdown,
+      recommendations: pack.recommendations,
+      compliance: pack.compliance,
+      title: pack.title,
       tags: previewTags,
       highlights: previewHighlights,
       description: previewDescription(pack.description),
+      ...(pack.descriptionSections
+        ? { descriptionSections: pack.descriptionSections.filter((section) => section.id === "hook") }
+        : {}),
       faq: pack.faq.slice(0, faqPreviewCount),
       photoShotList: previewPhotoShotList,
-      launchChecklist: previewChecklist
+      launchChecklist: previewChecklist,
+      variants: pack.variants.map((variant) => ({
+        ...variant,
+        tags: variant.tags.filter((tag) => shownTags.has(tag))
+      })),
+      tagCoverage: pack.tagCoverage.map((item) => ({
+        ...item,
+        tags: item.tags.filter((tag) => shownTags.has(tag))
+      })),
+      ...(pack.keywordResearch
+        ? {
+            keywordResearch: pack.keywordResearch.map((item) => ({
+              ...item,
+              tags: item.tags.filter((tag) => shownTags.has(tag))
+            }))
+          }
+        : {}),
+      ...(pack.lockedFields ? { lockedFields: pack.lockedFields } : {})
     },
     preview: {
       limited: true,
       hiddenCounts,
-      lockMessage: "Checkout unlocks the full listing pack plus TXT/JSON export."
+      lockMessage: "Checkout unlocks the full listing pack plus TXT/JSON/CSV export."
     }
   };
 }
 
-function buildExportText(session: ListingSession): string {
-  const lines: string[] = [];
-  lines.push("Etsy Listing Sprint Assistant Export");
-  lines.push(`Session: ${session.sessionId}`);
-  lines.push(`Generated: ${new Date().toISOString()}`);
-  lines.push(`Shop: ${session.input.shopName}`);
-  lines.push(`Product: ${session.input.productType}`);
-  lines.push(`Score: ${session.pack.score}`);
-  lines.push("");
-  lines.push("TITLE");
-  lines.push(session.pack.title);
-  lines.push("");
-  lines.push("TAGS");
-  for (const tag of session.pack.tags) {
-    lines.push(`- ${tag}`);
-  }
-  lines.push("");
-  lines.push("HIGHLIGHTS");
-  for (const highlight of session.pack.highlights) {
-    lines.push(`- ${highlight}`);
-  }
-  lines.push("");
-  lines.push("DESCRIPTION");
-  lines.push(session.pack.description);
-  lines.push("");
-  lines.push("FAQ");
-  for (const item of session.pack.faq) {
-    lines.push(`Q: ${item.question}`);
-    lines.push(`A: ${item.answer}`);
-  }
-  lines.push("");
-  lines.push("PHOTO SHOT LIST");
-  for (const item of session.pack.photoShotList) {
-    lines.push(`- ${item}`);
-  }
-  lines.push("");
-  lines.push("LAUNCH CHECKLIST");
-  for (const item of session.pack.launchChecklist) {
-    lines.push(`- ${item}`);
-  }
-  return lines.join("\n");
+function buildExportDocument(session: ListingSession): JsonObject {
+  return {
+    input: session.input,
+    pack: session.pack,
+    activeVariantId: session.activeVariantId,
+    audit: session.audit,
+    campaign: session.campaign
+  };
 }
 
-function escapeHtml(value: string): string {
-  return value
-    .replace(/&/g, "&amp;")
-    .replace(/</g, "&lt;")
-    .replace(/>/g, "&gt;")
-    .replace(/"/g, "&quot;")
-    .replace(/'/g, "&#39;");
+type ExportBlock =
+  | { kind: "paragraph"; text: string; limit?: number }
+  | { kind: "bullets"; items: string[]; limit?: number }
+  | { kind: "numbered"; items: Array<{ text: string; details?: string[] }> }
+  | { kind: "checklist"; items: string[] }
+  | { kind: "table"; columns: string[]; rows: string[][] }
+  | { kind: "faq"; items: Array<{ question: string; answer: string }> }
+  | { kind: "warnings"; items: string[] };
+
+type ExportSection = {
+  heading: string;
+  blocks: ExportBlock[];
+  startsListingCopy?: boolean;
+};
+
+type ExportOutline = {
+  title: string;
+  meta: Array<[string, string]>;
+  sections: ExportSection[];
+};
+
+function buildExportOutline(session: ListingSession): ExportOutline {
+  const { pack } = session;
+  const sections: ExportSection[] = [];
+
+  sections.push({
+    heading: "Score breakdown",
+    blocks: [
+      {
+        kind: "bullets",
+        items: pack.scoreBreakdown.map(
+          (factor) => `${factor.factor}: ${factor.earned}/${factor.possible} (${factor.evidence})`
+        )
+      }
+    ]
+  });
+  sections.push({
+    heading: "Recommendations",
+    blocks: pack.recommendations.length
+      ? [
+          {
+            kind: "numbered",
+            items: pack.recommendations.map((item) => ({ text: `${item.action} (+${item.pointsAvailable})` }))
+          }
+        ]
+      : [{ kind: "bullets", items: ["None. Every scoring factor is maxed out."] }]
+  });
+  if (pack.compliance?.length) {
+    sections.push({
+      heading: "Compliance",
+      blocks: [
+        {
+          kind: "bullets",
+          items: pack.compliance.map(
+            (finding) => `[${finding.severity}] ${finding.fields.join(", ")}: ${finding.message}`
+          )
+        }
+      ]
+    });
+  }
+  if (session.audit) {
+    sections.push({
+      heading: "Audit findings",
+      blocks: [
+        { kind: "paragraph", text: `Original listing score: ${session.audit.listingScore}` },
+        {
+          kind: "bullets",
+          items: session.audit.findings.length
+            ? session.audit.findings.map((finding) => `[${finding.severity}] ${finding.field}: ${finding.message}`)
+            : ["No rule violations found."]
+        }
+      ]
+    });
+  }
+  if (session.campaign) {
+    const campaign = session.campaign;
+    sections.push({
+      heading: `Campaign: ${campaign.event.name} (${campaign.event.date})`,
+      blocks: [
+        {
+          kind: "bullets",
+          items: [
+            ...campaign.timeline.map(
+              (milestone) => `${milestone.date}: ${milestone.action}${milestone.passed ? " [passed]" : ""}`
+            ),
+            ...campaign.orderBy.map(
+              (row) => `Order by ${row.orderBy}: ${row.region} (${row.service})${row.passed ? " [passed]" : ""}`
+            )
+          ]
+        },
+        { kind: "warnings", items: campaign.warnings }
+      ]
+    });
+  }
+  sections.push({
+    heading: "Title",
+    blocks: [{ kind: "paragraph", text: pack.title, limit: MAX_TITLE_LENGTH }],
+    startsListingCopy: true
+  });
+  sections.push({
+    heading: "Title and tag variants",
+    blocks: [
+      {
+        kind: "numbered",
+        items: pack.variants.map((variant) => {
+          const marker = variant.variantId === session.activeVariantId ? " [ACTIVE]" : "";
+          return {
+            text: `${variant.variantId} ${variant.strategy}${marker} (score ${variant.score})`,
+            details: [
+              `Title (${variant.titleLength} chars): ${variant.title}`,
+              `Tags: ${variant.tags.join(", ")}`,
+              `Why: ${variant.rationale}`
+            ]
+          };
+        })
+      }
+    ]
+  });
+  sections.push({
+    heading: "Tags",
+    blocks: [{ kind: "bullets", items: pack.tags, limit: MAX_TAG_LENGTH }]
+  });
+  if (pack.variationTable) {
+    const table = pack.variationTable;
+    sections.push({
+      heading: "Variations",
+      blocks: [
+        {
+          kind: "table",
+          columns: [...table.properties, "Price", "Quantity"],
+          rows: table.rows.map((row) => [
+            ...row.options,
+            row.price != null ? row.price.toFixed(2) : "-",
+            row.quantity != null ? String(row.quantity) : "-"
+          ])
+        }
+      ]
+    });
+  }
+  if (pack.pricing) {
+    const pricing = pack.pricing;
+    const money = (value: number) => formatMoney(value, pricing.band.currency);
+    sections.push({
+      heading: "Pricing and fees",
+      blocks: [
+        { kind: "paragraph", text: `Price band: ${money(pricing.band.min)} - ${money(pricing.band.max)}` },
+        {
+          kind: "paragraph",
+          text: `Costs: materials ${money(pricing.costs.materials)}, labor ${money(pricing.costs.labor)}, packaging ${money(pricing.costs.packaging)}, shipping ${money(pricing.costs.shipping)} (total ${money(pricing.totalCost)})`
+        },
+        ...[pricing.atMin, pricing.atMax].map(
+          (point): ExportBlock => ({
+            kind: "paragraph",
+            text: `At ${money(point.price)}: listing ${money(point.fees.listing)}, transaction ${money(point.fees.transaction)}, payment processing ${money(point.fees.paymentProcessing)}, offsite ads ${money(point.fees.offsiteAds)} -> net ${money(point.netProfit)} (${point.netMarginPercent}% margin)`
+          })
+        ),
+        {
+          kind: "paragraph",
+          text: `Recommended price floor (${pricing.targetMarginPercent}% margin): ${money(pricing.priceFloor)}`
+        },
+        { kind: "bullets", items: pricing.warnings }
+      ]
+    });
+  }
+  if (pack.shipping) {
+    const shipping = pack.shipping;
+    sections.push({
+      heading: "Estimated delivery by region",
+      blocks: [
+        { kind: "paragraph", text: `Ships from: ${shipping.originCountry}` },
+        ...(shipping.freeShippingThreshold != null
+          ? [
+              {
+                kind: "paragraph" as const,
+                text: `Free shipping over: ${formatMoney(shipping.freeShippingThreshold, shipping.currency)}`
+              }
+            ]
+          : []),
+        {
+          kind: "bullets",
+          items: [...shipping.estimates, ...shipping.upgrades].map((estimate) => {
+            const price = estimate.price != null ? `, +${formatMoney(estimate.price, shipping.currency)}` : "";
+            return `${estimate.region} (${estimate.service}): ${estimate.deliveryDays[0]}-${estimate.deliveryDays[1]} business days (${estimate.processingDays} processing + ${estimate.transitDays[0]}-${estimate.transitDays[1]} transit${price})`;
+          })
+        }
+      ]
+    });
+    sections.push({
+      heading: "Holiday order-by dates",
+      blocks: [
+        {
+          kind: "bullets",
+          items: shipping.holidayOrderBy.map(
+            (row) => `${row.holiday} (${row.date}), ${row.region}: order by ${row.orderBy}${row.passed ? " [passed]" : ""}`
+          )
+        }
+      ]
+    });
+  }
+  sections.push({
+    heading: "Category and attributes",
+    blocks: [
+      ...(pack.taxonomy.categories.length
+        ? [
+            {
+              kind: "numbered" as const,
+              items: pack.taxonomy.categories.map((category) => ({
+                text: `${category.path} (matched: ${category.matchedTerms.join(", ")})`
+              }))
+            }
+          ]
+        : [{ kind: "bullets" as const, items: ["No category match. Pick the closest Etsy category manually."] }]),
+      {
+        kind: "bullets",
+        items: pack.taxonomy.attributes.map(
+          (item) => `${item.attribute}: ${item.value} (matched: ${item.matchedTerms.join(", ")})`
+        )
+      }
+    ]
+  });
+  sections.push({
+    heading: "Keyword coverage",
+    blocks: [
+      {
+        kind: "bullets",
+        items: pack.tagCoverage.map((item) => {
+          const tags = item.tags.length ? ` -> ${item.tags.join(", ")}` : "";
+          return `[${item.status}] ${item.keyword}${tags} (${item.reason}${item.inTitle ? "; in title" : ""})`;
+        })
+      }
+    ]
+  });
+  if (pack.keywordResearch) {
+    sections.push({
+      heading: "Keyword research",
+      blocks: [
+        {
+          kind: "numbered",
+          items: pack.keywordResearch.map((item) => ({ text: `${item.keyword} (${item.reason})` }))
+        }
+      ]
+    });
+  }
+  sections.push({ heading: "Highlights", blocks: [{ kind: "bullets", items: pack.highlights }] });
+  sections.push({ heading: "Description", blocks: [{ kind: "paragraph", text: pack.description }] });
+  if (pack.descriptionAnalysis) {
+    const analysis = pack.descriptionAnalysis;
+    sections.push({
+      heading: "Readability",
+      blocks: [
+        {
+          kind: "bullets",
+          items: [
+            `Flesch reading ease: ${analysis.fleschReadingEase} (${analysis.readingLevel.replace(/_/g, " ")})`,
+            `Sentences: ${analysis.sentences}, average ${analysis.averageSentenceLength} words, longest ${analysis.longestSentence}`,
+            `Passive voice: ${analysis.passiveVoice} sentence${analysis.passiveVoice === 1 ? "" : "s"}`,
+            `Keyword density: "${analysis.keyword}" ${analysis.keywordCount}x, ${analysis.keywordDensity}%`,
+            `Search snippet: ${analysis.snippet}`
+          ]
+        },
+        ...(analysis.suggestions.length ? [{ kind: "warnings" as const, items: analysis.suggestions }] : [])
+      ]
+    });
+  }
+  sections.push({ heading: "FAQ", blocks: [{ kind: "faq", items: pack.faq }] });
+  sections.push({ heading: "Photo shot list", blocks: [{ kind: "checklist", items: pack.photoShotList }] });
+  sections.push({ heading: "Launch checklist", blocks: [{ kind: "checklist", items: pack.launchChecklist }] });
+
+  return {
+    title: "Etsy Listing Sprint Assistant Export",
+    meta: [
+      ["Session", session.sessionId],
+      ["Generated", new Date().toISOString()],
+      ["Shop", session.input.shopName],
+      ["Product", session.input.productType],
+      ["Score", String(pack.score)],
+      ...(session.input.shop?.brandVoice ? [["Brand voice", session.input.shop.brandVoice] as [string, string]] : [])
+    ],
+    sections
+  };
 }
 
-function renderStringList(values: string[]): string {
-  return values.map((value) => `<li>${escapeHtml(value)}</li>`).join("");
+function renderTextBlock(block: ExportBlock): string[] {
+  if (block.kind === "paragraph") {
+    return [block.text];
+  }
+  if (block.kind === "numbered") {
+    return block.items.flatMap((item, index) => [
+      `${index + 1}. ${item.text}`,
+      ...(item.details ?? []).map((detail) => `   ${detail}`)
+    ]);
+  }
+  if (block.kind === "table") {
+    return [block.columns, ...block.rows].map((row) => row.join(" | "));
+  }
+  if (block.kind === "faq") {
+    return block.items.flatMap((item) => [`Q: ${item.question}`, `A: ${item.answer}`]);
+  }
+  if (block.kind === "warnings") {
+    return block.items.map((item) => `! ${item}`);
+  }
+  return block.items.map((item) => `- ${item}`);
 }
 
-function createListingSession(input: ListingInput, source: string, selfTest: boolean): {
-  session: ListingSession;
-  previewPack: ListingPack;
-  preview: PreviewMeta;
-} {
-  const sessionId = randomUUID();
-  const timestamp = new Date().toISOString();
-  const pack = buildListingPack(input);
-  const { previewPack, preview } = buildPreviewPack(pack);
+function buildExportText(session: ListingSession): string {
+  const outline = buildExportOutline(session);
+  return [
+    outline.title,
+    ...outline.meta.map(([label, value]) => `${label}: ${value}`),
+    ...outline.sections.flatMap((section) => [
+      "",
+      section.heading.toUpperCase(),
+      ...section.blocks.flatMap(renderTextBlock)
+    ])
+  ].join("\n");
+}
 
-  const session: ListingSession = {
-    sessionId,
-    createdAt: timestamp,
-    updatedAt: timestamp,
-    source,
-    selfTest,
-    input,
-    pack,
-    paid: false
-  };
+function renderPdfBlock(block: ExportBlock): PdfBlock[] {
+  if (block.kind === "paragraph") {
+    return block.text.split(/\n+/).map((line) => ({ style: "text", text: line }));
+  }
+  if (block.kind === "numbered") {
+    return block.items.flatMap((item, index): PdfBlock[] => [
+      { style: "text", text: `${index + 1}. ${item.text}` },
+      ...(item.details ?? []).map((detail): PdfBlock => ({ style: "bullet", text: detail, level: 2 }))
+    ]);
+  }
+  if (block.kind === "table") {
+    return [
+      { style: "strong", text: block.columns.join(" | ") },
+      ...block.rows.map((row): PdfBlock => ({ style: "text", text: row.join(" | ") }))
+    ];
+  }
+  if (block.kind === "faq") {
+    return block.items.flatMap((item): PdfBlock[] => [
+      { style: "strong", text: item.question },
+      { style: "text", text: item.answer }
+    ]);
+  }
+  if (block.kind === "warnings") {
+    return block.items.map((item) => ({ style: "strong", text: `Warning: ${item}` }));
+  }
+  if (block.kind === "checklist") {
+    return block.items.map((item) => ({ style: "text", text: `[  ]  ${item}` }));
+  }
+  return block.items.map((item) => ({ style: "bullet", text: item }));
+}
 
-  state.sessions[sessionId] = session;
-  return { session, previewPack, preview };
+function buildExportPdf(session: ListingSession): Buffer {
+  const outline = buildExportOutline(session);
+  const blocks: PdfBlock[] = [
+    { style: "title", text: outline.title },
+    ...outline.meta.map(([label, value]): PdfBlock => ({ style: "small", text: `${label}: ${value}` })),
+    ...outline.sections.flatMap((section): PdfBlock[] => [
+      ...(section.startsListingCopy ? [{ style: "pageBreak" as const }] : []),
+      { style: "heading", text: section.heading },
+      ...section.blocks.flatMap(renderPdfBlock)
+    ])
+  ];
+  return renderPdf(blocks, { title: session.pack.title });
 }
 
-function renderQuickStartPage(session: ListingSession): string {
-  const { previewPack, preview } = buildPreviewPack(session.pack);
-  const pack = session.paid ? session.pack : previewPack;
-  const checkoutHref = `/quick-start/${session.sessionId}/checkout`;
-  const proofAction = `/quick-start/${session.sessionId}/proof`;
-  const exportHref = `/quick-start/${session.sessionId}/export.txt`;
-  const previewSummary = session.paid
-    ? "Full pack unlocked."
-    : `Limited preview shown. ${preview.lockMessage}`;
-  const paymentStatus = session.paid
-    ? `Payment proof submitted for ${escapeHtml(session.paymentProof?.payerEmail || "this session")}.`
-    : "Submit payment proof to unlock full pack + export.";
+function escapeMarkdownCell(value: string): string {
+  return value.replace(/\|/g, "\\|");
+}
 
-  return `<!doctype html>
-<html lang="en">
-  <head>
+function renderMarkdownBlock(block: ExportBlock): string {
+  if (block.kind === "paragraph") {
+    return block.text.replace(/(?<!\n)\n(?!\n)/g, "  \n");
+  }
+  if (block.kind === "numbered") {
+    return block.items
+      .map((item, index) =>
+        [`${index + 1}. ${item.text}`, ...(item.details ?? []).map((detail) => `   - ${detail}`)].join("\n")
+      )
+      .join("\n");
+  }
+  if (block.kind === "table") {
+    return [
+      `| ${block.columns.map(escapeMarkdownCell).join(" | ")} |`,
+      `| ${block.columns.map(() => "---").join(" | ")} |`,
+      ...block.rows.map((row) => `| ${row.map(escapeMarkdownCell).join(" | ")} |`)
+    ].join("\n");
+  }
+  if (block.kind === "faq") {
+    return block.items.map((item) => `**${item.question}**\n\n${item.answer}`).join("\n\n");
+  }
+  if (block.kind === "warnings") {
+    return block.items.map((item) => `> **Warning:** ${item}`).join("\n>\n");
+  }
+  if (block.kind === "checklist") {
+    return block.items.map((item) => `- [ ] ${item}`).join("\n");
+  }
+  return block.items.map((item) => `- ${item}`).join("\n");
+}
+
+function buildExportMarkdown(session: ListingSession): string {
+  const outline = buildExportOutline(session);
+  return [
+    `# ${outline.title}`,
+    outline.meta.map(([label, value]) => `- **${label}:** ${value}`).join("\n"),
+    ...outline.sections.map((section) =>
+      [`## ${section.heading}`, ...section.blocks.flatMap((block) => renderMarkdownBlock(block) || [])].join("\n\n")
+    )
+  ].join("\n\n") + "\n";
+}
+
+function renderCharCount(text: string, limit: number | undefined): string {
+  if (limit == null) {
+    return "";
+  }
+  const over = text.length > limit ? " over" : "";
+  return ` <span class="count${over}">${text.length}/${limit}</span>`;
+}
+
+function renderHtmlBlock(block: ExportBlock): string {
+  if (block.kind === "paragraph") {
+    const paragraphs = block.text.split(/\n{2,}/).map((text) => escapeHtml(text).replace(/\n/g, "<br />"));
+    return paragraphs
+      .map((text, index) => `<p>${text}${index ? "" : renderCharCount(block.text, block.limit)}</p>`)
+      .join("");
+  }
+  if (block.kind === "numbered") {
+    const items = block.items.map((item) => {
+      const details = item.details?.length ? `<ul>${renderStringList(item.details)}</ul>` : "";
+      return `<li>${escapeHtml(item.text)}${details}</li>`;
+    });
+    return `<ol>${items.join("")}</ol>`;
+  }
+  if (block.kind === "table") {
+    const head = block.columns.map((column) => `<th>${escapeHtml(column)}</th>`).join("");
+    const rows = block.rows.map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`);
+    return `<table><thead><tr>${head}</tr></thead><tbody>${rows.join("")}</tbody></table>`;
+  }
+  if (block.kind === "faq") {
+    return block.items
+      .map((item) => `<dl><dt>${escapeHtml(item.question)}</dt><dd>${escapeHtml(item.answer)}</dd></dl>`)
+      .join("");
+  }
+  if (block.kind === "warnings") {
+    return block.items.map((item) => `<p class="warning">${escapeHtml(item)}</p>`).join("");
+  }
+  if (block.kind === "checklist") {
+    const items = block.items.map((item) => `<li><label><input type="checkbox" /> ${escapeHtml(item)}</label></li>`);
+    return `<ul class="checklist">${items.join("")}</ul>`;
+  }
+  if (!block.items.length) {
+    return "";
+  }
+  const items = block.items.map((item) => `<li>${escapeHtml(item)}${renderCharCount(item, block.limit)}</li>`);
+  return `<ul>${items.join("")}</ul>`;
+}
+
+function buildExportHtml(session: ListingSession): string {
+  const outline = buildExportOutline(session);
+  const meta = outline.meta
+    .map(([label, value]) => `<span><strong>${escapeHtml(label)}:</strong> ${escapeHtml(value)}</span>`)
+    .join("");
+  const sections = outline.sections
+    .map((section) => {
+      const blocks = section.blocks.map(renderHtmlBlock).join("");
+      return `<section><h2>${escapeHtml(section.heading)}</h2>${blocks}</section>`;
+    })
+    .join("\n      ");
+
+  return `<!doctype html>
+<html lang="${session.input.language ?? "en"}">
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(session.pack.title)}</title>
+    <style>
+      body { margin: 0; padding: 1.5rem; color: #2a1f18; font-family: Georgia, serif; line-height: 1.45; }
+      main { max-width: 820px; margin: 0 auto; }
+      h1 { margin: 0 0 0.4rem; font-size: 1.5rem; }
+      h2 { margin: 1.4rem 0 0.5rem; padding-bottom: 0.2rem; border-bottom: 1px solid #e8c9b3; font-size: 1.1rem; }
+      .meta { display: flex; flex-wrap: wrap; gap: 0.4rem 1.2rem; font-size: 0.88rem; color: #684b3e; }
+      section { break-inside: avoid; }
+      p, li, dd { font-size: 0.95rem; }
+      ul, ol { margin: 0.3rem 0; padding-left: 1.3rem; }
+      .checklist { list-style: none; padding-left: 0; }
+      .checklist input { width: 1rem; height: 1rem; margin-right: 0.4rem; vertical-align: -0.15rem; }
+      .count { margin-left: 0.35rem; padding: 0 0.35rem; border-radius: 6px; background: #f3e4d8; font-family: "Courier New", monospace; font-size: 0.8rem; }
+      .count.over { background: #b9472b; color: #fff; }
+      .warning { padding: 0.4rem 0.6rem; border-left: 3px solid #b9472b; background: #fff3ea; }
+      table { border-collapse: collapse; font-size: 0.9rem; }
+      th, td { padding: 0.25rem 0.6rem; border: 1px solid #e8c9b3; text-align: left; }
+      dt { font-weight: 700; margin-top: 0.5rem; }
+      dd { margin: 0.2rem 0 0; }
+      @media print { body { padding: 0; } h2 { break-after: avoid; } }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>${escapeHtml(outline.title)}</h1>
+      <p class="meta">${meta}</p>
+      ${sections}
+    </main>
+  </body>
+</html>
+`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+function renderStringList(values: string[]): string {
+  return values.map((value) => `<li>${escapeHtml(value)}</li>`).join("");
+}
+
+function headerValue(request: http.IncomingMessage, name: string): string | undefined {
+  const value = request.headers[name];
+  return (Array.isArray(value) ? value[0] : value)?.trim() || undefined;
+}
+
+function findUserByCredential(credential: string): { user: UserAccount; loginTokenHash?: string } | undefined {
+  const credentialHash = hashSecret(credential);
+  if (credential.startsWith(API_KEY_PREFIX)) {
+    for (const user of Object.values(state.users)) {
+      const apiKey = user.apiKeys.find((key) => key.keyHash === credentialHash);
+      if (apiKey) {
+        apiKey.lastUsedAt = new Date().toISOString();
+        return { user };
+      }
+    }
+    return undefined;
+  }
+
+  const token = state.loginTokens[credentialHash];
+  const user = token && Date.parse(token.expiresAt) > Date.now() ? state.users[token.userId] : undefined;
+  return user ? { user, loginTokenHash: credentialHash } : undefined;
+}
+
+function authenticate(request: http.IncomingMessage): Actor | undefined {
+  const credential =
+    headerValue(request, "authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1] ?? headerValue(request, "x-api-key");
+  const headerGuestKey = headerValue(request, "x-guest-key");
+  if (headerGuestKey && !isIssuedSecret(headerGuestKey, GUEST_KEY_PREFIX)) {
+    return undefined;
+  }
+  const cookieGuestKey = parseCookies(headerValue(request, "cookie"))[GUEST_COOKIE];
+  const guestKey =
+    headerGuestKey ?? (cookieGuestKey && isIssuedSecret(cookieGuestKey, GUEST_KEY_PREFIX) ? cookieGuestKey : undefined);
+  const actor: Actor = { metrics: false, ...(guestKey ? { guestKeyHash: hashSecret(guestKey) } : {}) };
+  if (!credential) {
+    return actor;
+  }
+  if (METRICS_TOKEN && secretsMatch(credential, METRICS_TOKEN)) {
+    return { ...actor, metrics: true };
+  }
+
+  const found = findUserByCredential(credential);
+  if (!found) {
+    return undefined;
+  }
+  return { ...actor, ...found, metrics: ADMIN_EMAILS.includes(found.user.email) };
+}
+
+function requireMetricsAccess(actor: Actor, response: http.ServerResponse): boolean {
+  if (!actor.metrics) {
+    sendJson(response, actor.user ? 403 : 401, {
+      error: actor.user ? "forbidden" : "authentication_required"
+    });
+  }
+  return actor.metrics;
+}
+
+function requireUser(actor: Actor, response: http.ServerResponse): UserAccount | undefined {
+  if (!actor.user) {
+    sendJson(response, 401, {
+      error: "authentication_required"
+    });
+  }
+  return actor.user;
+}
+
+function isWorkspaceMember(workspaceId: string, user: UserAccount | undefined): boolean {
+  return Boolean(user && state.workspaces[workspaceId]?.memberIds.includes(user.userId));
+}
+
+function canAccess(actor: Actor, owner: ResourceOwner): boolean {
+  if (owner.kind === "unclaimed") {
+    return false;
+  }
+  if (owner.kind === "guest") {
+    return owner.guestKeyHash === actor.guestKeyHash;
+  }
+  if (owner.kind === "user") {
+    return owner.userId === actor.user?.userId;
+  }
+  return isWorkspaceMember(owner.workspaceId, actor.user);
+}
+
+function findSession(sessionId: string, actor: Actor): ListingSession | undefined {
+  const session = state.sessions[sessionId];
+  return session && canAccess(actor, session.owner) ? session : undefined;
+}
+
+function findBatch(batchId: string, actor: Actor): ListingBatch | undefined {
+  const batch = state.batches[batchId];
+  return batch && canAccess(actor, batch.owner) ? batch : undefined;
+}
+
+function findShop(shopId: string, actor: Actor): OwnedShop | undefined {
+  const shop = state.shops[shopId];
+  return shop && canAccess(actor, shop.owner) ? shop : undefined;
+}
+
+function assignOwner(actor: Actor, payload: JsonObject, response: http.ServerResponse): ResourceOwner {
+  const workspaceId = asOptionalString(payload, "workspaceId", 120);
+  if (workspaceId) {
+    if (!isWorkspaceMember(workspaceId, actor.user)) {
+      throw new Error("invalid_workspaceId");
+    }
+    return { kind: "workspace", workspaceId };
+  }
+  if (actor.user) {
+    return { kind: "user", userId: actor.user.userId };
+  }
+
+  if (!actor.guestKeyHash) {
+    const guestKey = issueSecret(GUEST_KEY_PREFIX);
+    const secure = PUBLIC_BASE_URL.startsWith("https:") ? "; Secure" : "";
+    actor.guestKeyHash = hashSecret(guestKey);
+    actor.issuedGuestKey = guestKey;
+    response.setHeader(
+      "set-cookie",
+      `${GUEST_COOKIE}=${guestKey}; Path=/; Max-Age=${GUEST_COOKIE_MAX_AGE}; HttpOnly; SameSite=Lax${secure}`
+    );
+  }
+  return { kind: "guest", guestKeyHash: actor.guestKeyHash };
+}
+
+function issuedGuestKey(actor: Actor): { guestKey?: string } {
+  return actor.issuedGuestKey ? { guestKey: actor.issuedGuestKey } : {};
+}
+
+function publicApiKey({ keyHash: _keyHash, ...apiKey }: ApiKeyRecord): Omit<ApiKeyRecord, "keyHash"> {
+  return apiKey;
+}
+
+function publicUser(user: UserAccount) {
+  return {
+    userId: user.userId,
+    email: user.email,
+    ...(user.name ? { name: user.name } : {}),
+    createdAt: user.createdAt,
+    apiKeys: user.apiKeys.map(publicApiKey)
+  };
+}
+
+function publicWorkspace(workspace: Workspace) {
+  return {
+    workspaceId: workspace.workspaceId,
+    name: workspace.name,
+    ownerId: workspace.ownerId,
+    members: workspace.memberIds.flatMap((userId) => {
+      const member = state.users[userId];
+      return member ? [{ userId, email: member.email, ...(member.name ? { name: member.name } : {}) }] : [];
+    }),
+    createdAt: workspace.createdAt
+  };
+}
+
+function findUserByEmail(email: string): UserAccount | undefined {
+  return Object.values(state.users).find((user) => user.email === email);
+}
+
+function memberWorkspaces(user: UserAccount): Workspace[] {
+  return Object.values(state.workspaces)
+    .filter((workspace) => workspace.memberIds.includes(user.userId))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function issueLoginToken(user: UserAccount): { token: string; expiresAt: string } {
+  const now = Date.now();
+  for (const [tokenHash, record] of Object.entries(state.loginTokens)) {
+    if (Date.parse(record.expiresAt) <= now) {
+      delete state.loginTokens[tokenHash];
+    }
+  }
+  const token = issueSecret(LOGIN_TOKEN_PREFIX);
+  const expiresAt = new Date(now + LOGIN_TOKEN_TTL_MS).toISOString();
+  state.loginTokens[hashSecret(token)] = { userId: user.userId, createdAt: new Date(now).toISOString(), expiresAt };
+  return { token, expiresAt };
+}
+
+function publicOwner(owner: ResourceOwner): Omit<ResourceOwner, "guestKeyHash"> {
+  return owner.kind === "guest" ? { kind: "guest" } : owner;
+}
+
+function publicShop({ owner: _owner, ...shop }: OwnedShop): ShopProfile {
+  return shop;
+}
+
+function parseClaimIds(value: unknown, key: string): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (
+    !Array.isArray(value) ||
+    value.length > MAX_BATCH_ROWS ||
+    value.some((id) => typeof id !== "string" || !/^[a-zA-Z0-9-]{8,120}$/.test(id))
+  ) {
+    throw new Error(`invalid_${key}`);
+  }
+  return value as string[];
+}
+
+function provesPayment(request: ClaimRequest, paymentProof: PaymentProof | undefined): boolean {
+  return Boolean(
+    request.proof &&
+      paymentProof &&
+      paymentProof.payerEmail.trim().toLowerCase() === request.proof.payerEmail.trim().toLowerCase() &&
+      secretsMatch(request.proof.transactionId, paymentProof.transactionId)
+  );
+}
+
+function claimResources(
+  request: ClaimRequest,
+  owner: ResourceOwner
+): { sessions: string[]; batches: string[]; shops: string[] } {
+  const claim = <T extends { owner: ResourceOwner }>(
+    items: Record<string, T>,
+    unclaimedIds: string[],
+    verified: (item: T) => boolean
+  ) =>
+    Object.entries(items).flatMap(([id, item]) => {
+      const guestOwned = item.owner.kind === "guest" && item.owner.guestKeyHash === request.guestKeyHash;
+      const legacyOwned = item.owner.kind === "unclaimed" && unclaimedIds.includes(id) && verified(item);
+      if (!guestOwned && !legacyOwned) {
+        return [];
+      }
+      item.owner = owner;
+      return [id];
+    });
+  const paid = (item: { paymentProof?: PaymentProof }) => request.admin || provesPayment(request, item.paymentProof);
+  const batches = claim(state.batches, request.batchIds, paid);
+  const batchSessionIds = batches.flatMap((batchId) => state.batches[batchId].sessionIds);
+  return {
+    sessions: [
+      ...claim(state.sessions, request.sessionIds, paid),
+      ...claim(state.sessions, batchSessionIds, () => true)
+    ],
+    batches,
+    shops: claim(state.shops, request.shopIds, () => request.admin)
+  };
+}
+
+function markUnclaimed<T extends { owner: ResourceOwner }>(items: Record<string, T>): Record<string, T> {
+  for (const item of Object.values(items)) {
+    item.owner ??= { kind: "unclaimed" };
+  }
+  return items;
+}
+
+function createListingSession(
+  input: ListingInput,
+  source: string,
+  selfTest: boolean,
+  owner: ResourceOwner,
+  pack: ListingPack = buildListingPack(input)
+): {
+  session: ListingSession;
+  previewPack: PreviewPack;
+  preview: PreviewMeta;
+} {
+  const sessionId = randomUUID();
+  const timestamp = new Date().toISOString();
+  const { previewPack, preview } = buildPreviewPack(pack);
+
+  const session: ListingSession = {
+    sessionId,
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    source,
+    selfTest,
+    input,
+    pack,
+    activeVariantId: pack.variants[0]?.variantId ?? "v1",
+    paid: false,
+    owner
+  };
+
+  state.sessions[sessionId] = session;
+  return { session, previewPack, preview };
+}
+
+function regenerateSessionPack(session: ListingSession): ListingPack {
+  const generatedAt = new Date(session.pack.generatedAt);
+  const eventId = session.campaign?.event.id;
+  const pack = eventId
+    ? planCampaign(campaignBriefInput(session.input, eventId), eventId, generatedAt).pack
+    : buildListingPack(session.input, generatedAt);
+  const selected = pack.variants.some((variant) => variant.variantId === session.activeVariantId)
+    ? applyListingVariant(pack, session.input, session.activeVariantId)
+    : pack;
+  return keepLockedFields(session.pack, selected, session.input);
+}
+
+function parseInputChanges(payload: JsonObject): JsonObject {
+  const value = payload.input;
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("invalid_input");
+  }
+  const changes = value as JsonObject;
+  const keys = Object.keys(changes);
+  if (!keys.length || keys.some((key) => !EDITABLE_INPUT_FIELDS.includes(key as keyof ListingInput))) {
+    throw new Error("invalid_input");
+  }
+  for (const key of keys as Array<keyof ListingInput>) {
+    const value = changes[key];
+    const invalid =
+      value === null
+        ? !CLEARABLE_INPUT_FIELDS.includes(key)
+        : TEXT_INPUT_FIELDS.includes(key) && typeof value !== "string";
+    if (invalid) {
+      throw new Error(`invalid_${key}`);
+    }
+  }
+  return changes;
+}
+
+function parsePackOverrides(payload: JsonObject, session: ListingSession): {
+  overrides: PackOverrides | undefined;
+  unlock: PackOverrideField[];
+} {
+  const value = payload.overrides;
+  if (value != null && (typeof value !== "object" || Array.isArray(value))) {
+    throw new Error("invalid_overrides");
+  }
+  const unlock = "unlock" in payload ? parseStringArray(payload, "unlock", PACK_OVERRIDE_FIELDS.length, 20) : [];
+  if (unlock.some((field) => !PACK_OVERRIDE_FIELDS.includes(field as PackOverrideField))) {
+    throw new Error("invalid_unlock");
+  }
+  if (value == null && !unlock.length) {
+    throw new Error("invalid_overrides");
+  }
+
+  return {
+    overrides: value == null ? undefined : sanitizePackOverrides(value as JsonObject, session.input.language),
+    unlock: unlock as PackOverrideField[]
+  };
+}
+
+function applyInputChanges(input: ListingInput, changes: JsonObject): ListingInput {
+  const merged: Record<string, unknown> = { ...input };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
+    }
+  }
+  const sanitized = sanitizeListingInput(merged as ListingInput);
+  return "keywordResearch" in changes ? applyKeywordResearch(sanitized) : sanitized;
+}
+
+type SessionRevisionPlan = Pick<ListingSession, "input" | "pack" | "campaign">;
+
+function planRevision(session: ListingSession, changes: JsonObject): SessionRevisionPlan {
+  if (session.campaign) {
+    const brief = applyInputChanges(campaignBriefInput(session.input, session.campaign.event.id), changes);
+    const { input, pack, ...campaign } = planCampaign(brief, session.campaign.event.id);
+    return { input, pack, campaign };
+  }
+  const input = applyInputChanges(session.input, changes);
+  return { input, pack: buildListingPack(input) };
+}
+
+function reviseSession(session: ListingSession, next: SessionRevisionPlan): void {
+  const timestamp = new Date().toISOString();
+  const revision = session.revision ?? 1;
+  session.revisions = [
+    ...(session.revisions ?? []),
+    {
+      revision,
+      createdAt: session.revisedAt ?? session.createdAt,
+      replacedAt: timestamp,
+      input: session.input,
+      pack: session.pack,
+      activeVariantId: session.activeVariantId,
+      ...(session.campaign ? { campaign: session.campaign } : {})
+    }
+  ].slice(-MAX_SESSION_REVISIONS);
+
+  session.pack = keepLockedFields(session.pack, next.pack, next.input);
+  session.input = next.input;
+  if (next.campaign) {
+    session.campaign = next.campaign;
+  }
+  session.activeVariantId = session.pack.variants[0]?.variantId ?? "v1";
+  session.revision = revision + 1;
+  session.revisedAt = timestamp;
+  session.updatedAt = timestamp;
+}
+
+function listSessionRevisions(session: ListingSession): Array<{
+  revision: number;
+  createdAt: string;
+  current: boolean;
+  title: string;
+  score: number;
+  inputChanges: FieldChange[];
+  packChanges: FieldChange[];
+}> {
+  const visible = (pack: ListingPack) => (session.paid ? pack : buildPreviewPack(pack).previewPack);
+  const revisions = [
+    ...(session.revisions ?? []),
+    {
+      revision: session.revision ?? 1,
+      createdAt: session.revisedAt ?? session.createdAt,
+      input: session.input,
+      pack: session.pack
+    }
+  ];
+
+  return revisions.map((item, index) => {
+    const previous = revisions[index - 1];
+    return {
+      revision: item.revision,
+      createdAt: item.createdAt,
+      current: index === revisions.length - 1,
+      title: item.pack.title,
+      score: item.pack.score,
+      inputChanges: previous ? diffFields(previous.input, item.input) : [],
+      packChanges: previous ? diffFields(visible(previous.pack), visible(item.pack)) : []
+    };
+  });
+}
+
+function renderQuickStartPage(session: ListingSession): string {
+  const { previewPack, preview } = buildPreviewPack(session.pack);
+  const pack = session.paid ? session.pack : previewPack;
+  const checkoutHref = `/quick-start/${session.sessionId}/checkout`;
+  const proofAction = `/quick-start/${session.sessionId}/proof`;
+  const exportHref = `/quick-start/${session.sessionId}/export.txt`;
+  const csvHref = `/quick-start/${session.sessionId}/export.csv`;
+  const markdownHref = `/quick-start/${session.sessionId}/export.md`;
+  const printHref = `/quick-start/${session.sessionId}/export.html`;
+  const pdfHref = `/quick-start/${session.sessionId}/export.pdf`;
+  const previewSummary = session.paid
+    ? "Full pack unlocked."
+    : `Limited preview shown. ${preview.lockMessage}`;
+  const paymentStatus = session.paid
+    ? `Payment proof submitted for ${escapeHtml(session.paymentProof?.payerEmail || "this session")}.`
+    : "Submit payment proof to unlock full pack + export.";
+
+  return `<!doctype html>
+<html lang="en">
+  <head>
     <meta charset="utf-8" />
     <meta name="viewport" content="width=device-width, initial-scale=1" />
     <title>Etsy Listing Quick Start</title>
@@ -771,7 +2267,9 @@ function renderQuickStartPage(session: ListingSession): string {
         </form>
         ${
           session.paid
-            ? `<p><a class="cta" href="${exportHref}">Download Export</a></p>`
+            ? `<p><a class="cta" href="${exportHref}">Download Export</a></p>
+        <p><a class="cta" href="${csvHref}">Download Etsy CSV</a></p>
+        <p class="small">Also available as <a href="${markdownHref}">Markdown</a>, <a href="${pdfHref}">PDF</a> or a <a href="${printHref}">printable page</a>.</p>`
             : `<p class="small">Export unlocks after proof is accepted.</p>`
         }
         <p class="small"><a href="/">Return to app version</a></p>
@@ -781,13 +2279,84 @@ function renderQuickStartPage(session: ListingSession): string {
 </html>`;
 }
 
+function migrateSession(session: ListingSession): ListingSession {
+  const pack: Partial<ListingPack> = session.pack;
+  if (
+    pack.scoreBreakdown &&
+    pack.recommendations &&
+    pack.variants &&
+    pack.tagCoverage &&
+    pack.compliance &&
+    pack.descriptionAnalysis &&
+    pack.taxonomy &&
+    session.activeVariantId
+  ) {
+    return session;
+  }
+
+  const { includeUkSpelling, ...stored } = session.input as ListingInput & { includeUkSpelling?: boolean };
+  const input = sanitizeListingInput({ ...stored, locale: stored.locale ?? (includeUkSpelling ? "en-GB" : "en-US") });
+  const next = backfillListingPack(input, session.pack);
+  return {
+    ...session,
+    input,
+    pack: next,
+    activeVariantId: session.activeVariantId ?? next.variants[0]?.variantId ?? "v1"
+  };
+}
+
+function migrateSessions(sessions: Record<string, ListingSession>): {
+  migrated: Record<string, ListingSession>;
+  failed: Record<string, ListingSession>;
+} {
+  const migrated: Record<string, ListingSession> = {};
+  const failed: Record<string, ListingSession> = {};
+  for (const [sessionId, session] of Object.entries(sessions)) {
+    try {
+      migrated[sessionId] = migrateSession(session);
+    } catch {
+      failed[sessionId] = session;
+    }
+  }
+  return { migrated, failed };
+}
+
+async function quarantineSessions(sessions: Record<string, ListingSession>): Promise<void> {
+  if (!Object.keys(sessions).length) {
+    return;
+  }
+  const quarantined = await readFile(UNMIGRATED_FILE, "utf8").then(
+    (raw) => JSON.parse(raw) as Record<string, ListingSession>,
+    () => ({})
+  );
+  await writeFile(UNMIGRATED_FILE, JSON.stringify({ ...quarantined, ...sessions }), "utf8");
+  console.error(`Moved ${Object.keys(sessions).length} sessions that could not be migrated to ${UNMIGRATED_FILE}`);
+}
+
 async function loadState(): Promise<void> {
   await mkdir(DATA_DIR, { recursive: true });
   try {
     const raw = await readFile(STATE_FILE, "utf8");
     const parsed = JSON.parse(raw) as Partial<State>;
     if (parsed.sessions && typeof parsed.sessions === "object") {
-      state.sessions = parsed.sessions as Record<string, ListingSession>;
+      const { migrated, failed } = migrateSessions(parsed.sessions as Record<string, ListingSession>);
+      await quarantineSessions(failed);
+      state.sessions = markUnclaimed(migrated);
+    }
+    if (parsed.batches && typeof parsed.batches === "object") {
+      state.batches = markUnclaimed(parsed.batches as Record<string, ListingBatch>);
+    }
+    if (parsed.shops && typeof parsed.shops === "object") {
+      state.shops = markUnclaimed(parsed.shops as Record<string, OwnedShop>);
+    }
+    if (parsed.users && typeof parsed.users === "object") {
+      state.users = parsed.users as Record<string, UserAccount>;
+    }
+    if (parsed.workspaces && typeof parsed.workspaces === "object") {
+      state.workspaces = parsed.workspaces as Record<string, Workspace>;
+    }
+    if (parsed.loginTokens && typeof parsed.loginTokens === "object") {
+      state.loginTokens = parsed.loginTokens as Record<string, LoginToken>;
     }
     if (Array.isArray(parsed.events)) {
       state.events = parsed.events.filter((event): event is EventRecord => {
@@ -808,14 +2377,22 @@ const server = http.createServer(async (request, response) => {
   if (method === "OPTIONS" && pathname.startsWith("/api/")) {
     response.writeHead(204, {
       "access-control-allow-origin": "*",
-      "access-control-allow-methods": "GET,POST,OPTIONS",
-      "access-control-allow-headers": "content-type"
+      "access-control-allow-methods": "GET,POST,PUT,DELETE,OPTIONS",
+      "access-control-allow-headers": "content-type,authorization,x-api-key,x-guest-key"
     });
     response.end();
     return;
   }
 
   try {
+    const actor = authenticate(request);
+    if (!actor) {
+      sendJson(response, 401, {
+        error: "invalid_credentials"
+      });
+      return;
+    }
+
     if (method === "GET" && pathname === "/api/health") {
       sendJson(response, 200, {
         status: "ok",
@@ -825,7 +2402,21 @@ const server = http.createServer(async (request, response) => {
       return;
     }
 
+    if (method === "GET" && pathname === "/api/categories") {
+      sendJson(response, 200, {
+        categories: listCategoryRulePacks().map((pack) => ({
+          id: pack.id,
+          label: pack.label,
+          aliases: pack.aliases
+        }))
+      });
+      return;
+    }
+
     if (method === "GET" && pathname === "/api/metrics") {
+      if (!requireMetricsAccess(actor, response)) {
+        return;
+      }
       sendJson(response, 200, {
         generatedAt: new Date().toISOString(),
         totals: {
@@ -838,6 +2429,9 @@ const server = http.createServer(async (request, response) => {
     }
 
     if (method === "GET" && pathname === "/api/metrics/daily") {
+      if (!requireMetricsAccess(actor, response)) {
+        return;
+      }
       const selfTestFilter = readSelfTestQuery(url);
       sendJson(response, 200, {
         generatedAt: new Date().toISOString(),
@@ -848,6 +2442,9 @@ const server = http.createServer(async (request, response) => {
     }
 
     if (method === "GET" && pathname === "/api/paid-proof/count") {
+      if (!requireMetricsAccess(actor, response)) {
+        return;
+      }
       const selfTestFilter = readSelfTestQuery(url);
       const paymentCounts = state.events.filter((event) => {
         if (event.eventType !== "payment_evidence_submitted") {
@@ -873,8 +2470,8 @@ const server = http.createServer(async (request, response) => {
         payload.source = "web_form";
       }
 
-      const { input, source, selfTest, briefIntent } = parseGenerateInput(payload);
-      const { session } = createListingSession(input, source, selfTest);
+      const { input, source, selfTest, briefIntent } = parseGenerateInput(payload, actor);
+      const { session } = createListingSession(input, source, selfTest, assignOwner(actor, payload, response));
 
       await recordEvent("brief_generated", {
         source,
@@ -898,7 +2495,7 @@ const server = http.createServer(async (request, response) => {
     const quickStartSessionMatch = pathname.match(/^\/quick-start\/([a-zA-Z0-9-]{8,120})$/);
     if (method === "GET" && quickStartSessionMatch) {
       const sessionId = quickStartSessionMatch[1];
-      const session = state.sessions[sessionId];
+      const session = findSession(sessionId, actor);
       if (!session) {
         sendHtml(response, 404, "<h1>Session not found</h1><p><a href=\"/\">Return to app</a></p>");
         return;
@@ -910,7 +2507,7 @@ const server = http.createServer(async (request, response) => {
     const quickStartCheckoutMatch = pathname.match(/^\/quick-start\/([a-zA-Z0-9-]{8,120})\/checkout$/);
     if (method === "GET" && quickStartCheckoutMatch) {
       const sessionId = quickStartCheckoutMatch[1];
-      const session = state.sessions[sessionId];
+      const session = findSession(sessionId, actor);
       if (!session) {
         sendHtml(response, 404, "<h1>Session not found</h1><p><a href=\"/\">Return to app</a></p>");
         return;
@@ -936,7 +2533,7 @@ const server = http.createServer(async (request, response) => {
     const quickStartProofMatch = pathname.match(/^\/quick-start\/([a-zA-Z0-9-]{8,120})\/proof$/);
     if (method === "POST" && quickStartProofMatch) {
       const sessionId = quickStartProofMatch[1];
-      const session = state.sessions[sessionId];
+      const session = findSession(sessionId, actor);
       if (!session) {
         sendHtml(response, 404, "<h1>Session not found</h1><p><a href=\"/\">Return to app</a></p>");
         return;
@@ -978,10 +2575,10 @@ const server = http.createServer(async (request, response) => {
       return;
     }
 
-    const quickStartExportMatch = pathname.match(/^\/quick-start\/([a-zA-Z0-9-]{8,120})\/export\.txt$/);
+    const quickStartExportMatch = pathname.match(/^\/quick-start\/([a-zA-Z0-9-]{8,120})\/export\.(txt|csv|md|html|pdf)$/);
     if (method === "GET" && quickStartExportMatch) {
       const sessionId = quickStartExportMatch[1];
-      const session = state.sessions[sessionId];
+      const session = findSession(sessionId, actor);
       if (!session) {
         sendHtml(response, 404, "<h1>Session not found</h1><p><a href=\"/\">Return to app</a></p>");
         return;
@@ -1004,21 +2601,342 @@ const server = http.createServer(async (request, response) => {
         selfTest,
         sessionId,
         details: {
-          format: "text",
+          format: QUICK_START_EXPORT_FORMATS[quickStartExportMatch[2]],
           tags: session.pack.tags.length,
           score: session.pack.score,
           route: "no_js_quick_start"
         }
       });
 
+      if (quickStartExportMatch[2] === "csv") {
+        sendCsv(response, 200, `etsy-listing-${sessionId.slice(0, 8)}.csv`, buildEtsyCsv([session]));
+        return;
+      }
+
+      if (quickStartExportMatch[2] === "pdf") {
+        sendPdf(response, 200, `etsy-listing-${sessionId.slice(0, 8)}.pdf`, buildExportPdf(session));
+        return;
+      }
+
+      if (quickStartExportMatch[2] === "html") {
+        sendHtml(response, 200, buildExportHtml(session));
+        return;
+      }
+
+      if (quickStartExportMatch[2] === "md") {
+        sendText(response, 200, buildExportMarkdown(session));
+        return;
+      }
+
       sendText(response, 200, buildExportText(session));
       return;
     }
 
+    if (method === "POST" && pathname === "/api/auth/signup") {
+      const payload = await parseBody(request);
+      const email = normalizeEmail(payload.email);
+      const password = validatePassword(payload.password);
+      const name = asOptionalString(payload, "name", 80);
+      if (findUserByEmail(email)) {
+        sendJson(response, 409, {
+          error: "email_taken"
+        });
+        return;
+      }
+
+      const user: UserAccount = {
+        userId: randomUUID(),
+        email,
+        ...(name ? { name } : {}),
+        passwordHash: await hashPassword(password),
+        createdAt: new Date().toISOString(),
+        apiKeys: []
+      };
+      state.users[user.userId] = user;
+      const login = issueLoginToken(user);
+      await saveState();
+      sendJson(response, 201, { user: publicUser(user), ...login });
+      return;
+    }
+
+    if (method === "POST" && pathname === "/api/auth/login") {
+      const payload = await parseBody(request);
+      const email = normalizeEmail(payload.email);
+      const password = typeof payload.password === "string" ? payload.password : "";
+      const user = findUserByEmail(email);
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        sendJson(response, 401, {
+          error: "invalid_credentials"
+        });
+        return;
+      }
+
+      const login = issueLoginToken(user);
+      await saveState();
+      sendJson(response, 200, { user: publicUser(user), ...login });
+      return;
+    }
+
+    if (method === "POST" && pathname === "/api/auth/logout") {
+      if (!requireUser(actor, response)) {
+        return;
+      }
+      if (actor.loginTokenHash) {
+        delete state.loginTokens[actor.loginTokenHash];
+        await saveState();
+      }
+      sendJson(response, 200, { loggedOut: true });
+      return;
+    }
+
+    if (method === "GET" && pathname === "/api/auth/me") {
+      const user = requireUser(actor, response);
+      if (!user) {
+        return;
+      }
+      sendJson(response, 200, {
+        user: publicUser(user),
+        workspaces: memberWorkspaces(user).map(publicWorkspace)
+      });
+      return;
+    }
+
+    if (pathname === "/api/auth/api-keys" && (method === "GET" || method === "POST")) {
+      const user = requireUser(actor, response);
+      if (!user) {
+        return;
+      }
+      if (method === "GET") {
+        sendJson(response, 200, { apiKeys: user.apiKeys.map(publicApiKey) });
+        return;
+      }
+
+      const payload = await parseBody(request);
+      const name = asOptionalString(payload, "name", 80) || "API key";
+      if (user.apiKeys.length >= MAX_API_KEYS) {
+        throw new Error("invalid_apiKeys");
+      }
+      const key = issueSecret(API_KEY_PREFIX);
+      const apiKey: ApiKeyRecord = {
+        keyId: randomUUID(),
+        name,
+        prefix: key.slice(0, API_KEY_PREFIX.length + 6),
+        keyHash: hashSecret(key),
+        createdAt: new Date().toISOString()
+      };
+      user.apiKeys.push(apiKey);
+      await saveState();
+      sendJson(response, 201, { apiKey: publicApiKey(apiKey), key });
+      return;
+    }
+
+    const apiKeyMatch = pathname.match(/^\/api\/auth\/api-keys\/([a-zA-Z0-9-]{8,120})$/);
+    if (method === "DELETE" && apiKeyMatch) {
+      const user = requireUser(actor, response);
+      if (!user) {
+        return;
+      }
+      const keyId = apiKeyMatch[1];
+      if (!user.apiKeys.some((apiKey) => apiKey.keyId === keyId)) {
+        sendJson(response, 404, {
+          error: "api_key_not_found"
+        });
+        return;
+      }
+      user.apiKeys = user.apiKeys.filter((apiKey) => apiKey.keyId !== keyId);
+      await saveState();
+      sendJson(response, 200, { keyId, deleted: true });
+      return;
+    }
+
+    if (pathname === "/api/workspaces" && (method === "GET" || method === "POST")) {
+      const user = requireUser(actor, response);
+      if (!user) {
+        return;
+      }
+      if (method === "GET") {
+        sendJson(response, 200, { workspaces: memberWorkspaces(user).map(publicWorkspace) });
+        return;
+      }
+
+      const payload = await parseBody(request);
+      const workspace: Workspace = {
+        workspaceId: randomUUID(),
+        name: asRequiredString(payload, "name", 80),
+        ownerId: user.userId,
+        memberIds: [user.userId],
+        createdAt: new Date().toISOString()
+      };
+      state.workspaces[workspace.workspaceId] = workspace;
+      await saveState();
+      sendJson(response, 201, { workspace: publicWorkspace(workspace) });
+      return;
+    }
+
+    const workspaceMembersMatch = pathname.match(
+      /^\/api\/workspaces\/([a-zA-Z0-9-]{8,120})\/members(?:\/([a-zA-Z0-9-]{8,120}))?$/
+    );
+    if (workspaceMembersMatch && (method === "POST" || method === "DELETE")) {
+      const user = requireUser(actor, response);
+      if (!user) {
+        return;
+      }
+      const workspace = state.workspaces[workspaceMembersMatch[1]];
+      if (!workspace || !workspace.memberIds.includes(user.userId)) {
+        sendJson(response, 404, {
+          error: "workspace_not_found"
+        });
+        return;
+      }
+
+      if (method === "POST" && !workspaceMembersMatch[2]) {
+        if (workspace.ownerId !== user.userId) {
+          sendJson(response, 403, {
+            error: "forbidden"
+          });
+          return;
+        }
+        const member = findUserByEmail(normalizeEmail((await parseBody(request)).email));
+        if (!member) {
+          sendJson(response, 404, {
+            error: "user_not_found"
+          });
+          return;
+        }
+        if (!workspace.memberIds.includes(member.userId)) {
+          if (workspace.memberIds.length >= MAX_WORKSPACE_MEMBERS) {
+            throw new Error("invalid_members");
+          }
+          workspace.memberIds.push(member.userId);
+          await saveState();
+        }
+        sendJson(response, 200, { workspace: publicWorkspace(workspace) });
+        return;
+      }
+
+      const memberId = workspaceMembersMatch[2];
+      if (method === "DELETE" && memberId) {
+        if (workspace.ownerId !== user.userId && memberId !== user.userId) {
+          sendJson(response, 403, {
+            error: "forbidden"
+          });
+          return;
+        }
+        if (memberId === workspace.ownerId) {
+          throw new Error("invalid_userId");
+        }
+        if (!workspace.memberIds.includes(memberId)) {
+          sendJson(response, 404, {
+            error: "user_not_found"
+          });
+          return;
+        }
+        workspace.memberIds = workspace.memberIds.filter((userId) => userId !== memberId);
+        await saveState();
+        sendJson(response, 200, { workspace: publicWorkspace(workspace) });
+        return;
+      }
+    }
+
+    if (method === "POST" && pathname === "/api/guest/claim") {
+      const { guestKey, sessionIds, batchIds, shopIds, ...payload } = await parseBody(request);
+      if (!requireUser(actor, response)) {
+        return;
+      }
+      if (guestKey !== undefined && (typeof guestKey !== "string" || !isIssuedSecret(guestKey, GUEST_KEY_PREFIX))) {
+        throw new Error("invalid_guestKey");
+      }
+      const payerEmail = asOptionalString(payload, "payerEmail", 160);
+      const transactionId = asOptionalString(payload, "transactionId", 120);
+      const claimRequest: ClaimRequest = {
+        guestKeyHash: typeof guestKey === "string" ? hashSecret(guestKey) : actor.guestKeyHash,
+        sessionIds: parseClaimIds(sessionIds, "sessionIds"),
+        batchIds: parseClaimIds(batchIds, "batchIds"),
+        shopIds: parseClaimIds(shopIds, "shopIds"),
+        admin: actor.metrics,
+        ...(payerEmail && transactionId ? { proof: { payerEmail, transactionId } } : {})
+      };
+      const legacyClaim = [claimRequest.sessionIds, claimRequest.batchIds, claimRequest.shopIds].some(
+        (ids) => ids.length
+      );
+      if (!claimRequest.guestKeyHash && !legacyClaim) {
+        throw new Error("invalid_guestKey");
+      }
+
+      const owner = assignOwner(actor, payload, response);
+      const claimed = claimResources(claimRequest, owner);
+      await saveState();
+      if (actor.guestKeyHash && claimRequest.guestKeyHash === actor.guestKeyHash) {
+        response.setHeader("set-cookie", `${GUEST_COOKIE}=; Path=/; Max-Age=0; HttpOnly; SameSite=Lax`);
+      }
+      sendJson(response, 200, { owner: publicOwner(owner), claimed });
+      return;
+    }
+
+    if (method === "GET" && pathname === "/api/shops") {
+      sendJson(response, 200, {
+        shops: Object.values(state.shops)
+          .filter((shop) => canAccess(actor, shop.owner))
+          .sort((a, b) => a.name.localeCompare(b.name))
+          .map(publicShop)
+      });
+      return;
+    }
+
+    if (method === "POST" && pathname === "/api/shops") {
+      const { workspaceId, ...payload } = await parseBody(request);
+      const now = new Date().toISOString();
+      const shop: OwnedShop = {
+        shopId: randomUUID(),
+        ...sanitizeShopProfile(payload),
+        createdAt: now,
+        updatedAt: now,
+        owner: assignOwner(actor, workspaceId === undefined ? {} : { workspaceId }, response)
+      };
+      state.shops[shop.shopId] = shop;
+      await saveState();
+      sendJson(response, 201, { shop: publicShop(shop), ...issuedGuestKey(actor) });
+      return;
+    }
+
+    const shopMatch = pathname.match(/^\/api\/shops\/([a-zA-Z0-9-]{8,120})$/);
+    if (shopMatch && (method === "GET" || method === "PUT" || method === "DELETE")) {
+      const shop = findShop(shopMatch[1], actor);
+      if (!shop) {
+        sendJson(response, 404, {
+          error: "shop_not_found"
+        });
+        return;
+      }
+
+      if (method === "GET") {
+        sendJson(response, 200, { shop: publicShop(shop) });
+        return;
+      }
+
+      if (method === "DELETE") {
+        delete state.shops[shop.shopId];
+        await saveState();
+        sendJson(response, 200, { shopId: shop.shopId, deleted: true });
+        return;
+      }
+
+      const updated: OwnedShop = {
+        ...shop,
+        ...sanitizeShopProfile(await parseBody(request), shop),
+        updatedAt: new Date().toISOString()
+      };
+      state.shops[shop.shopId] = updated;
+      await saveState();
+      sendJson(response, 200, { shop: publicShop(updated) });
+      return;
+    }
+
     if (method === "POST" && pathname === "/api/listings/generate") {
       const payload = await parseBody(request);
-      const { input, source, selfTest, briefIntent } = parseGenerateInput(payload);
-      const { session, previewPack, preview } = createListingSession(input, source, selfTest);
+      const { input, source, selfTest, briefIntent } = parseGenerateInput(payload, actor);
+      const owner = assignOwner(actor, payload, response);
+      const { session, previewPack, preview } = createListingSession(input, source, selfTest, owner);
 
       await recordEvent("brief_generated", {
         source,
@@ -1028,12 +2946,270 @@ const server = http.createServer(async (request, response) => {
           score: session.pack.score,
           tags: session.pack.tags.length,
           tone: input.tone,
+          complianceFindings: session.pack.compliance.length,
+          briefIntent
+        }
+      });
+
+      sendJson(response, 200, {
+        sessionId: session.sessionId,
+        ...issuedGuestKey(actor),
+        warnings: session.pack.compliance.map((finding) => `[${finding.severity}] ${finding.message}`),
+        pack: previewPack,
+        preview,
+        paywall: {
+          priceUsd: PRICE_USD,
+          paymentUrl: PAYMENT_URL,
+          unlockAction: "full_listing_pack_and_export"
+        }
+      });
+      return;
+    }
+
+    if (method === "POST" && pathname === "/api/listings/batch") {
+      const payload = await parseBody(request);
+      const rows = parseBatchRows(payload);
+      const source = normalizeSource(payload.source, "web");
+      const selfTest = parseBoolean(payload.selfTest);
+      const owner = assignOwner(actor, payload, response);
+      const batchId = randomUUID();
+      const sessions: Array<{ row: number; sessionId: string; title: string; score: number }> = [];
+      const rowErrors: BatchRowError[] = [];
+
+      for (const [index, row] of rows.entries()) {
+        let parsed: ReturnType<typeof parseGenerateInput>;
+        try {
+          parsed = parseGenerateInput({ ...row, source, selfTest, briefIntent: "batch_upload" }, actor);
+        } catch (error) {
+          rowErrors.push({ row: index + 1, error: safeErrorCode(error) });
+          continue;
+        }
+
+        const { session } = createListingSession(parsed.input, source, selfTest, owner);
+        session.batchId = batchId;
+        sessions.push({
+          row: index + 1,
+          sessionId: session.sessionId,
+          title: session.pack.title,
+          score: session.pack.score
+        });
+
+        await recordEvent("brief_generated", {
+          source,
+          selfTest,
+          sessionId: session.sessionId,
+          details: {
+            score: session.pack.score,
+            tags: session.pack.tags.length,
+            tone: parsed.input.tone,
+            briefIntent: parsed.briefIntent,
+            batchId,
+            row: index + 1
+          }
+        });
+      }
+
+      if (!sessions.length) {
+        sendJson(response, 400, {
+          error: "invalid_briefs",
+          rowErrors
+        });
+        return;
+      }
+
+      const timestamp = new Date().toISOString();
+      state.batches[batchId] = {
+        batchId,
+        createdAt: timestamp,
+        updatedAt: timestamp,
+        source,
+        selfTest,
+        sessionIds: sessions.map((item) => item.sessionId),
+        rowErrors,
+        paid: false,
+        owner
+      };
+      await saveState();
+
+      sendJson(response, 200, {
+        batchId,
+        ...issuedGuestKey(actor),
+        sessions,
+        rowErrors,
+        paywall: {
+          priceUsd: PRICE_USD * sessions.length,
+          paymentUrl: PAYMENT_URL,
+          unlockAction: "batch_listing_packs_and_export"
+        }
+      });
+      return;
+    }
+
+    const batchMatch = pathname.match(/^\/api\/listings\/batch\/([a-zA-Z0-9-]{8,120})$/);
+    if (method === "GET" && batchMatch) {
+      const batch = findBatch(batchMatch[1], actor);
+      if (!batch) {
+        sendJson(response, 404, {
+          error: "batch_not_found"
+        });
+        return;
+      }
+
+      sendJson(response, 200, {
+        batchId: batch.batchId,
+        createdAt: batch.createdAt,
+        paid: batch.paid,
+        sessions: batch.sessionIds.flatMap((sessionId) => {
+          const session = state.sessions[sessionId];
+          return session
+            ? [{ sessionId, title: session.pack.title, score: session.pack.score, paid: session.paid }]
+            : [];
+        }),
+        rowErrors: batch.rowErrors
+      });
+      return;
+    }
+
+    if (method === "POST" && pathname === "/api/listings/batch/export") {
+      const payload = await parseBody(request);
+      const batchId = parseBatchId(payload);
+      const batch = findBatch(batchId, actor);
+      if (!batch) {
+        sendJson(response, 404, {
+          error: "batch_not_found"
+        });
+        return;
+      }
+
+      if (!batch.paid) {
+        sendJson(response, 402, {
+          error: "payment_required",
+          checkoutMode: "payment_link",
+          paymentUrl: PAYMENT_URL,
+          priceUsd: PRICE_USD * batch.sessionIds.length
+        });
+        return;
+      }
+
+      const source = normalizeSource(payload.source, batch.source);
+      const selfTest = parseBoolean(payload.selfTest) || batch.selfTest;
+      const format = asOptionalString(payload, "format", 20) || "json";
+      const sessions = batch.sessionIds.flatMap((sessionId) => state.sessions[sessionId] ?? []);
+
+      await recordEvent("listing_exported", {
+        source,
+        selfTest,
+        sessionId: null,
+        details: {
+          format,
+          batchId,
+          documents: sessions.length
+        }
+      });
+
+      if (format === "csv") {
+        sendJson(response, 200, {
+          batchId,
+          format: "csv",
+          fileName: `etsy-batch-${batchId.slice(0, 8)}.csv`,
+          content: buildEtsyCsv(sessions)
+        });
+        return;
+      }
+
+      if (format === "text") {
+        sendJson(response, 200, {
+          batchId,
+          format: "text",
+          fileName: `etsy-batch-${batchId.slice(0, 8)}.txt`,
+          content: sessions.map((session) => buildExportText(session)).join(`\n\n${"=".repeat(72)}\n\n`)
+        });
+        return;
+      }
+
+      sendJson(response, 200, {
+        batchId,
+        format: "json",
+        fileName: `etsy-batch-${batchId.slice(0, 8)}.json`,
+        export: {
+          batchId,
+          documents: sessions.map((session) => ({ sessionId: session.sessionId, ...buildExportDocument(session) }))
+        }
+      });
+      return;
+    }
+
+    if (method === "GET" && pathname === "/api/campaigns/events") {
+      sendJson(response, 200, { events: upcomingCampaigns(new Date()) });
+      return;
+    }
+
+    if (method === "POST" && pathname === "/api/campaigns/plan") {
+      const payload = await parseBody(request);
+      const { input, source, selfTest, briefIntent } = parseGenerateInput(payload, actor);
+      const eventId = asRequiredString(payload, "eventId", 40);
+      const { input: seasonalInput, pack, ...campaign } = planCampaign(input, eventId);
+      const owner = assignOwner(actor, payload, response);
+      const { session, previewPack, preview } = createListingSession(seasonalInput, source, selfTest, owner, pack);
+      session.campaign = campaign;
+
+      await recordEvent("campaign_planned", {
+        source,
+        selfTest,
+        sessionId: session.sessionId,
+        details: {
+          eventId: campaign.event.id,
+          eventDate: campaign.event.date,
+          warnings: campaign.warnings.length,
+          score: session.pack.score,
+          briefIntent
+        }
+      });
+
+      sendJson(response, 200, {
+        sessionId: session.sessionId,
+        ...issuedGuestKey(actor),
+        campaign,
+        pack: previewPack,
+        preview,
+        paywall: {
+          priceUsd: PRICE_USD,
+          paymentUrl: PAYMENT_URL,
+          unlockAction: "full_listing_pack_and_export"
+        }
+      });
+      return;
+    }
+
+    if (method === "POST" && pathname === "/api/listings/audit") {
+      const payload = await parseBody(request);
+      const { input, source, selfTest, briefIntent, listing } = parseAuditInput(payload, actor);
+      const { suggestedPack, ...report } = auditListing(listing, input);
+      const owner = assignOwner(actor, payload, response);
+      const { session, previewPack, preview } = createListingSession(input, source, selfTest, owner, suggestedPack);
+      session.audit = report;
+
+      await recordEvent("listing_audited", {
+        source,
+        selfTest,
+        sessionId: session.sessionId,
+        details: {
+          findings: report.findings.length,
+          errors: report.findings.filter((finding) => finding.severity === "error").length,
+          listingScore: report.listingScore,
+          score: session.pack.score,
           briefIntent
         }
       });
 
       sendJson(response, 200, {
         sessionId: session.sessionId,
+        ...issuedGuestKey(actor),
+        audit: {
+          listingScore: report.listingScore,
+          passed: report.passed,
+          findings: report.findings
+        },
         pack: previewPack,
         preview,
         paywall: {
@@ -1045,10 +3221,226 @@ const server = http.createServer(async (request, response) => {
       return;
     }
 
+    if (method === "POST" && pathname === "/api/listings/variant") {
+      const payload = await parseBody(request);
+      const sessionId = parseSessionId(payload);
+      const session = findSession(sessionId, actor);
+      if (!session) {
+        sendJson(response, 404, {
+          error: "session_not_found"
+        });
+        return;
+      }
+
+      const variantId = asRequiredString(payload, "variantId", 20);
+      session.pack = applyListingVariant(session.pack, session.input, variantId);
+      session.activeVariantId = variantId;
+      session.updatedAt = new Date().toISOString();
+      await saveState();
+
+      sendJson(response, 200, {
+        sessionId,
+        activeVariantId: variantId,
+        pack: session.paid ? session.pack : buildPreviewPack(session.pack).previewPack
+      });
+      return;
+    }
+
+    const regenerateMatch = pathname.match(/^\/api\/listings\/([a-zA-Z0-9-]{8,120})\/regenerate$/);
+    if (method === "POST" && regenerateMatch) {
+      const payload = await parseBody(request);
+      const session = findSession(regenerateMatch[1], actor);
+      if (!session) {
+        sendJson(response, 404, {
+          error: "session_not_found"
+        });
+        return;
+      }
+
+      const apply = asOptionalBoolean(payload, "apply") ?? false;
+      const storedVersion = session.pack.generatorVersion ?? null;
+      const pack = regenerateSessionPack(session);
+      const visible = (value: ListingPack) => (session.paid ? value : buildPreviewPack(value).previewPack);
+      const changes = diffFields(visible(session.pack), visible(pack));
+
+      if (apply) {
+        session.pack = pack;
+        session.activeVariantId = pack.variants.some((variant) => variant.variantId === session.activeVariantId)
+          ? session.activeVariantId
+          : (pack.variants[0]?.variantId ?? "v1");
+        session.updatedAt = new Date().toISOString();
+        await recordEvent("listing_regenerated", {
+          source: normalizeSource(payload.source, session.source),
+          selfTest: parseBoolean(payload.selfTest) || session.selfTest,
+          sessionId: session.sessionId,
+          details: {
+            fromVersion: storedVersion,
+            toVersion: GENERATOR_VERSION,
+            changes: changes.length
+          }
+        });
+      }
+
+      sendJson(response, 200, {
+        sessionId: session.sessionId,
+        storedVersion,
+        generatorVersion: GENERATOR_VERSION,
+        changed: changes.length > 0,
+        applied: apply,
+        changes,
+        ...(apply ? { pack: visible(session.pack), activeVariantId: session.activeVariantId } : {})
+      });
+      return;
+    }
+
+    const updateMatch = pathname.match(/^\/api\/listings\/([a-zA-Z0-9-]{8,120})\/update$/);
+    if (method === "POST" && updateMatch) {
+      const payload = await parseBody(request);
+      const session = findSession(updateMatch[1], actor);
+      if (!session) {
+        sendJson(response, 404, {
+          error: "session_not_found"
+        });
+        return;
+      }
+
+      const changes = parseInputChanges(payload);
+      const lockedFields = session.paid
+        ? Object.keys(changes).filter((key) => PAID_LOCKED_INPUT_FIELDS.includes(key as keyof ListingInput))
+        : [];
+      if (lockedFields.length) {
+        sendJson(response, 409, {
+          error: "input_locked_after_payment",
+          fields: lockedFields
+        });
+        return;
+      }
+
+      const next = planRevision(session, changes);
+      const inputChanges = diffFields(session.input, next.input);
+      if (inputChanges.length) {
+        reviseSession(session, next);
+        await recordEvent("brief_updated", {
+          source: normalizeSource(payload.source, session.source),
+          selfTest: parseBoolean(payload.selfTest) || session.selfTest,
+          sessionId: session.sessionId,
+          details: {
+            revision: session.revision,
+            fields: [...new Set(inputChanges.map((change) => change.field.split(/[.[]/)[0]))],
+            score: session.pack.score
+          }
+        });
+      }
+
+      const { previewPack, preview } = buildPreviewPack(session.pack);
+      sendJson(response, 200, {
+        sessionId: session.sessionId,
+        revision: session.revision ?? 1,
+        changed: inputChanges.length > 0,
+        inputChanges,
+        paid: session.paid,
+        ...(session.campaign ? { campaign: session.campaign } : {}),
+        pack: session.paid ? session.pack : previewPack,
+        ...(session.paid ? {} : { preview })
+      });
+      return;
+    }
+
+    const overrideMatch = pathname.match(/^\/api\/listings\/([a-zA-Z0-9-]{8,120})\/override$/);
+    if (method === "POST" && overrideMatch) {
+      const payload = await parseBody(request);
+      const session = findSession(overrideMatch[1], actor);
+      if (!session) {
+        sendJson(response, 404, {
+          error: "session_not_found"
+        });
+        return;
+      }
+
+      const { overrides, unlock } = parsePackOverrides(payload, session);
+      const overridden = overrides ? applyPackOverrides(session.pack, session.input, overrides) : session.pack;
+      const pack: ListingPack = {
+        ...overridden,
+        lockedFields: (overridden.lockedFields ?? []).filter((field) => !unlock.includes(field))
+      };
+      const visible = (value: ListingPack) => (session.paid ? value : buildPreviewPack(value).previewPack);
+      const changes = diffFields(visible(session.pack), visible(pack));
+
+      session.pack = pack;
+      session.updatedAt = new Date().toISOString();
+      await recordEvent("listing_overridden", {
+        source: normalizeSource(payload.source, session.source),
+        selfTest: parseBoolean(payload.selfTest) || session.selfTest,
+        sessionId: session.sessionId,
+        details: {
+          fields: Object.keys(overrides ?? {}),
+          unlocked: unlock,
+          score: pack.score
+        }
+      });
+
+      sendJson(response, 200, {
+        sessionId: session.sessionId,
+        lockedFields: pack.lockedFields,
+        score: pack.score,
+        changes,
+        pack: visible(pack)
+      });
+      return;
+    }
+
+    const revisionsMatch = pathname.match(/^\/api\/listings\/([a-zA-Z0-9-]{8,120})\/revisions$/);
+    if (method === "GET" && revisionsMatch) {
+      const session = findSession(revisionsMatch[1], actor);
+      if (!session) {
+        sendJson(response, 404, {
+          error: "session_not_found"
+        });
+        return;
+      }
+
+      sendJson(response, 200, {
+        sessionId: session.sessionId,
+        currentRevision: session.revision ?? 1,
+        paid: session.paid,
+        revisions: listSessionRevisions(session)
+      });
+      return;
+    }
+
     if (method === "POST" && pathname === "/api/billing/checkout") {
       const payload = await parseBody(request);
+      if ("batchId" in payload) {
+        const batchId = parseBatchId(payload);
+        const batch = findBatch(batchId, actor);
+        if (!batch) {
+          sendJson(response, 404, {
+            error: "batch_not_found"
+          });
+          return;
+        }
+
+        const priceUsd = PRICE_USD * batch.sessionIds.length;
+        await recordEvent("checkout_started", {
+          source: normalizeSource(payload.source, batch.source),
+          selfTest: parseBoolean(payload.selfTest) || batch.selfTest,
+          sessionId: null,
+          details: {
+            priceUsd,
+            batchId
+          }
+        });
+
+        sendJson(response, 200, {
+          checkoutMode: "payment_link",
+          paymentUrl: PAYMENT_URL,
+          priceUsd
+        });
+        return;
+      }
+
       const sessionId = parseSessionId(payload);
-      const session = state.sessions[sessionId];
+      const session = findSession(sessionId, actor);
       if (!session) {
         sendJson(response, 404, {
           error: "session_not_found"
@@ -1078,8 +3470,61 @@ const server = http.createServer(async (request, response) => {
 
     if (method === "POST" && pathname === "/api/billing/proof") {
       const payload = await parseBody(request);
+      if ("batchId" in payload) {
+        const batchId = parseBatchId(payload);
+        const batch = findBatch(batchId, actor);
+        if (!batch) {
+          sendJson(response, 404, {
+            error: "batch_not_found"
+          });
+          return;
+        }
+
+        const payerEmail = asRequiredString(payload, "payerEmail", 160);
+        const transactionId = asRequiredString(payload, "transactionId", 120);
+        const evidenceUrl = asOptionalString(payload, "evidenceUrl", 300);
+        const note = asOptionalString(payload, "note", 400);
+
+        batch.paid = true;
+        batch.updatedAt = new Date().toISOString();
+        batch.paymentProof = {
+          submittedAt: batch.updatedAt,
+          payerEmail,
+          transactionId,
+          evidenceUrl,
+          note
+        };
+        for (const sessionId of batch.sessionIds) {
+          const session = state.sessions[sessionId];
+          if (session) {
+            session.paid = true;
+            session.updatedAt = batch.updatedAt;
+            session.paymentProof = batch.paymentProof;
+          }
+        }
+
+        await recordEvent("payment_evidence_submitted", {
+          source: normalizeSource(payload.source, batch.source),
+          selfTest: parseBoolean(payload.selfTest) || batch.selfTest,
+          sessionId: null,
+          details: {
+            transactionId,
+            payerEmail,
+            batchId,
+            sessions: batch.sessionIds.length
+          }
+        });
+
+        sendJson(response, 200, {
+          status: "accepted",
+          batchId,
+          unlocked: true
+        });
+        return;
+      }
+
       const sessionId = parseSessionId(payload);
-      const session = state.sessions[sessionId];
+      const session = findSession(sessionId, actor);
       if (!session) {
         sendJson(response, 404, {
           error: "session_not_found"
@@ -1125,7 +3570,7 @@ const server = http.createServer(async (request, response) => {
     if (method === "POST" && pathname === "/api/listings/export") {
       const payload = await parseBody(request);
       const sessionId = parseSessionId(payload);
-      const session = state.sessions[sessionId];
+      const session = findSession(sessionId, actor);
       if (!session) {
         sendJson(response, 404, {
           error: "session_not_found"
@@ -1158,6 +3603,41 @@ const server = http.createServer(async (request, response) => {
         }
       });
 
+      if (format === "pdf") {
+        sendPdf(response, 200, `etsy-listing-${sessionId.slice(0, 8)}.pdf`, buildExportPdf(session));
+        return;
+      }
+
+      if (format === "markdown") {
+        sendJson(response, 200, {
+          sessionId,
+          format: "markdown",
+          fileName: `etsy-listing-${sessionId.slice(0, 8)}.md`,
+          content: buildExportMarkdown(session)
+        });
+        return;
+      }
+
+      if (format === "html") {
+        sendJson(response, 200, {
+          sessionId,
+          format: "html",
+          fileName: `etsy-listing-${sessionId.slice(0, 8)}.html`,
+          content: buildExportHtml(session)
+        });
+        return;
+      }
+
+      if (format === "csv") {
+        sendJson(response, 200, {
+          sessionId,
+          format: "csv",
+          fileName: `etsy-listing-${sessionId.slice(0, 8)}.csv`,
+          content: buildEtsyCsv([session])
+        });
+        return;
+      }
+
       if (format === "text") {
         sendJson(response, 200, {
           sessionId,
@@ -1172,10 +3652,7 @@ const server = http.createServer(async (request, response) => {
         sessionId,
         format: "json",
         fileName: `etsy-listing-${sessionId.slice(0, 8)}.json`,
-        export: {
-          input: session.input,
-          pack: session.pack
-        }
+        export: buildExportDocument(session)
       });
       return;
     }
@@ -1210,8 +3687,19 @@ const server = http.createServer(async (request, response) => {
   }
 });
 
+async function loadComplianceRules(): Promise<void> {
+  let raw: string;
+  try {
+    raw = await readFile(COMPLIANCE_FILE, "utf8");
+  } catch {
+    return;
+  }
+  configureComplianceRules(JSON.parse(raw));
+}
+
 async function main(): Promise<void> {
   await loadState();
+  await loadComplianceRules();
   server.listen(PORT, HOST, () => {
     console.log(`etsy-listing-sprint-assistant listening on http://${HOST}:${PORT}`);
   });
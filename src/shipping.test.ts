@@ -0,0 +1,83 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { addBusinessDays, isoDate, upcomingEvents } from "./calendar.js";
+import { buildListingPack, sanitizeListingInput } from "./listing.js";
+import { buildShippingPlan } from "./shipping.js";
+
+const input = sanitizeListingInput({
+  shopName: "Copper Pine Studio",
+  productType: "ring dish",
+  targetAudience: "bridal party",
+  primaryKeyword: "personalized ring dish",
+  supportingKeywords: ["engagement gift"],
+  materials: ["ceramic"],
+  tone: "warm",
+  priceBand: "$20-$35",
+  processingTimeDays: 3,
+  personalization: true,
+  locale: "en-US",
+  shipping: {
+    originCountry: "United States",
+    regions: [
+      { region: "United States", minDays: 2, maxDays: 5 },
+      { region: "Canada", minDays: 6, maxDays: 10 }
+    ],
+    freeShippingThreshold: 35,
+    upgrades: [{ name: "Priority", minDays: 1, maxDays: 3, price: 9.5 }]
+  }
+});
+
+test("addBusinessDays skips weekends in both directions", () => {
+  assert.equal(isoDate(addBusinessDays(new Date("2026-12-25T12:00:00Z"), -5)), "2026-12-18");
+  assert.equal(isoDate(addBusinessDays(new Date("2026-10-16T00:00:00Z"), 1)), "2026-10-19");
+  assert.deepEqual(
+    upcomingEvents(new Date("2026-10-19T00:00:00Z")).map((item) => item.event.id),
+    ["halloween", "christmas", "valentines_day", "mothers_day", "fathers_day"]
+  );
+});
+
+test("buildShippingPlan estimates delivery by region and holiday order-by dates", () => {
+  const plan = buildShippingPlan(input, new Date("2026-10-19T09:00:00Z"));
+
+  assert.ok(plan);
+  assert.equal(plan.currency, "USD");
+  assert.deepEqual(plan.estimates[1].deliveryDays, [9, 13]);
+  assert.deepEqual(plan.upgrades[0], {
+    region: "United States",
+    service: "Priority",
+    processingDays: 3,
+    transitDays: [1, 3],
+    deliveryDays: [4, 6],
+    price: 9.5
+  });
+  const christmasCanada = plan.holidayOrderBy.find((row) => row.holiday === "Christmas" && row.region === "Canada");
+  assert.deepEqual(christmasCanada, {
+    holiday: "Christmas",
+    date: "2026-12-25",
+    region: "Canada",
+    orderBy: "2026-12-08",
+    passed: false
+  });
+  assert.equal(plan.holidayOrderBy.find((row) => row.holiday === "Halloween")?.passed, false);
+});
+
+test("shipping profiles add FAQ entries and reject invalid transit ranges", () => {
+  const pack = buildListingPack(input);
+  const questions = pack.faq.map((item) => item.question);
+
+  assert.ok(questions.includes("Where does my order ship from and when will it arrive?"));
+  assert.ok(pack.faq.some((item) => /Orders of 35\.00 USD or more ship free/.test(item.answer)));
+  assert.ok(pack.faq.some((item) => /Priority \(1-3 business days in transit, \+9\.50 USD\)/.test(item.answer)));
+  assert.throws(
+    () =>
+      sanitizeListingInput({
+        ...input,
+        shipping: { originCountry: "United States", regions: [{ region: "Canada", minDays: 8, maxDays: 4 }] }
+      }),
+    /invalid_shipping/
+  );
+  assert.throws(
+    () => sanitizeListingInput({ ...input, productKind: "digital_download", processingTimeDays: 0 }),
+    /invalid_shipping/
+  );
+});
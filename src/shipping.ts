@@ -0,0 +1,98 @@
+import { addBusinessDays, isoDate, startOfDay, upcomingEvents } from "./calendar.js";
+import type { ListingInput } from "./listing.js";
+import { listingCurrency } from "./pricing.js";
+
+export type ShippingRegion = {
+  region: string;
+  minDays: number;
+  maxDays: number;
+};
+
+export type ShippingUpgrade = {
+  name: string;
+  minDays: number;
+  maxDays: number;
+  price?: number;
+};
+
+export type ShippingProfile = {
+  originCountry: string;
+  regions: ShippingRegion[];
+  freeShippingThreshold?: number;
+  upgrades?: ShippingUpgrade[];
+};
+
+export type DeliveryEstimate = {
+  region: string;
+  service: string;
+  processingDays: number;
+  transitDays: [number, number];
+  deliveryDays: [number, number];
+  price?: number;
+};
+
+export type HolidayOrderBy = {
+  holiday: string;
+  date: string;
+  region: string;
+  orderBy: string;
+  passed: boolean;
+};
+
+export type ShippingPlan = {
+  originCountry: string;
+  currency: string;
+  freeShippingThreshold?: number;
+  estimates: DeliveryEstimate[];
+  upgrades: DeliveryEstimate[];
+  holidayOrderBy: HolidayOrderBy[];
+};
+
+export const STANDARD_SERVICE = "Standard";
+
+export function buildShippingPlan(input: ListingInput, today: Date): ShippingPlan | undefined {
+  const profile = input.shipping;
+  if (!profile) {
+    return undefined;
+  }
+
+  const processingDays = input.processingTimeDays;
+  const estimates = profile.regions.map((region) => ({
+    region: region.region,
+    service: STANDARD_SERVICE,
+    processingDays,
+    transitDays: [region.minDays, region.maxDays] as [number, number],
+    deliveryDays: [processingDays + region.minDays, processingDays + region.maxDays] as [number, number]
+  }));
+  const upgrades = (profile.upgrades ?? []).map((upgrade) => ({
+    region: profile.originCountry,
+    service: upgrade.name,
+    processingDays,
+    transitDays: [upgrade.minDays, upgrade.maxDays] as [number, number],
+    deliveryDays: [processingDays + upgrade.minDays, processingDays + upgrade.maxDays] as [number, number],
+    ...(upgrade.price != null ? { price: upgrade.price } : {})
+  }));
+
+  const start = startOfDay(today);
+  const holidayOrderBy = upcomingEvents(today).flatMap(({ event, date }) =>
+    estimates.map((estimate) => {
+      const orderBy = addBusinessDays(date, -estimate.deliveryDays[1]);
+      return {
+        holiday: event.name,
+        date: isoDate(date),
+        region: estimate.region,
+        orderBy: isoDate(orderBy),
+        passed: orderBy < start
+      };
+    })
+  );
+
+  return {
+    originCountry: profile.originCountry,
+    currency: listingCurrency(input),
+    ...(profile.freeShippingThreshold != null ? { freeShippingThreshold: profile.freeShippingThreshold } : {}),
+    estimates,
+    upgrades,
+    holidayOrderBy
+  };
+}
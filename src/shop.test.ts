@@ -0,0 +1,106 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildListingPack, sanitizeListingInput, type ListingInput } from "./listing.js";
+import { brandVoiceTone, sanitizeShopProfile, shopBrand, withShopDefaults, type ShopProfile } from "./shop.js";
+
+const profile: ShopProfile = {
+  shopId: "shop-0001",
+  ...sanitizeShopProfile({
+    name: "  Copper   Pine Studio ",
+    brandVoice: "Calm, warm and plain-spoken",
+    tone: "Minimal",
+    locale: "en_gb",
+    materials: ["ceramic", "Ceramic", "gold luster"],
+    processingTimeDays: 4,
+    policies: {
+      returns: "Returns accepted within 30 days of delivery.",
+      care: "Hand wash only.",
+      shipping: "Every order ships in recycled packaging."
+    },
+    signaturePhrases: ["Made slowly in Vermont."],
+    bannedWords: ["Cheap"]
+  }),
+  createdAt: "2026-10-01T00:00:00.000Z",
+  updatedAt: "2026-10-01T00:00:00.000Z"
+};
+
+test("sanitizeShopProfile normalizes fields and merges partial updates", () => {
+  assert.equal(profile.name, "Copper Pine Studio");
+  assert.equal(profile.tone, "minimal");
+  assert.equal(profile.locale, "en-GB");
+  assert.deepEqual(profile.materials, ["ceramic", "gold luster"]);
+  assert.deepEqual(profile.bannedWords, ["cheap"]);
+
+  const updated = sanitizeShopProfile({ policies: { care: null }, tone: null, signaturePhrases: null }, profile);
+  assert.deepEqual(updated.policies, {
+    returns: "Returns accepted within 30 days of delivery.",
+    shipping: "Every order ships in recycled packaging."
+  });
+  assert.equal(updated.tone, undefined);
+  assert.deepEqual(updated.signaturePhrases, []);
+  assert.equal(updated.name, profile.name);
+
+  assert.throws(() => sanitizeShopProfile({ brandVoice: "quiet" }), /invalid_name/);
+  assert.throws(() => sanitizeShopProfile({ name: "Shop", website: "x" }), /invalid_shop/);
+  assert.throws(() => sanitizeShopProfile({ name: "Shop", policies: { warranty: "1 year" } }), /invalid_policies/);
+  assert.throws(() => sanitizeShopProfile({ name: "Shop", tone: "loud" }), /invalid_tone/);
+  assert.throws(() => sanitizeShopProfile({ name: "Shop", processingTimeDays: 90 }), /invalid_processingTimeDays/);
+  assert.throws(() => sanitizeShopProfile({ name: "Shop", processingTimeDays: 0 }), /invalid_processingTimeDays/);
+});
+
+test("withShopDefaults fills gaps without overriding the brief", () => {
+  const merged = withShopDefaults({ productType: "ring dish", tone: "playful", shopName: "" }, profile);
+
+  assert.equal(merged.shopName, "Copper Pine Studio");
+  assert.equal(merged.tone, "playful");
+  assert.equal(merged.locale, "en-GB");
+  assert.deepEqual(merged.materials, ["ceramic", "gold luster"]);
+  assert.equal(merged.processingTimeDays, 4);
+  assert.equal(withShopDefaults({ productKind: "digital_download" }, profile).processingTimeDays, undefined);
+  assert.equal(withShopDefaults({ includeUkSpelling: false }, profile).locale, undefined);
+  assert.equal(withShopDefaults({ materialsCsv: "clay" }, profile).materials, undefined);
+});
+
+test("brandVoiceTone derives the default tone from the brand voice", () => {
+  const { tone: _tone, ...voiceOnly } = profile;
+
+  assert.equal(brandVoiceTone(profile.brandVoice), "minimal");
+  assert.equal(brandVoiceTone("Elegant, refined and a little cheeky"), "luxury");
+  assert.equal(brandVoiceTone("Straight to the point"), undefined);
+  assert.equal(withShopDefaults({}, { ...voiceOnly, brandVoice: "Cheeky and bright" }).tone, "playful");
+  assert.equal(withShopDefaults({ tone: "warm" }, { ...voiceOnly, brandVoice: "Cheeky and bright" }).tone, "warm");
+});
+
+test("buildListingPack injects shop policies and flags banned words", () => {
+  const input: ListingInput = sanitizeListingInput({
+    shopName: profile.name,
+    productType: "ring dish",
+    targetAudience: "bridal party",
+    primaryKeyword: "ring dish",
+    supportingKeywords: ["cheap wedding gift"],
+    materials: profile.materials ?? [],
+    tone: "warm",
+    priceBand: "$20-$35",
+    processingTimeDays: 4,
+    personalization: false,
+    locale: "en-US",
+    shop: shopBrand(profile)
+  });
+  const pack = buildListingPack(input);
+  const sections = Object.fromEntries((pack.descriptionSections ?? []).map((section) => [section.id, section.text]));
+
+  assert.ok(sections.hook.endsWith("Made slowly in Vermont."));
+  assert.equal(sections.care, "Hand wash only.");
+  assert.ok(sections.shipping.endsWith("Every order ships in recycled packaging."));
+  assert.equal(sections.returns, "Returns accepted within 30 days of delivery.");
+  assert.match(pack.description, /\n\nReturns\nReturns accepted within 30 days/);
+  assert.deepEqual(pack.faq.slice(-3), [
+    { question: "How do you send orders?", answer: "Every order ships in recycled packaging." },
+    { question: "How do I care for my order?", answer: "Hand wash only." },
+    { question: "What is your return policy?", answer: "Returns accepted within 30 days of delivery." }
+  ]);
+  assert.deepEqual(
+    pack.compliance.filter((finding) => finding.rule === "banned_word").map((finding) => finding.term),
+    ["cheap"]
+  );
+});
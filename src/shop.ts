@@ -0,0 +1,223 @@
+import { normalizeLanguage, type ListingLanguage } from "./catalog.js";
+import {
+  isDigitalKind,
+  LISTING_TONES,
+  MAX_MATERIALS,
+  MAX_PROCESSING_DAYS,
+  type ListingInput,
+  type ListingTone
+} from "./listing.js";
+import { normalizeLocale, type ListingLocale } from "./locale.js";
+
+export type ShopPolicies = {
+  returns?: string;
+  care?: string;
+  shipping?: string;
+};
+
+export type ShopProfile = {
+  shopId: string;
+  name: string;
+  brandVoice?: string;
+  tone?: ListingTone;
+  locale?: ListingLocale;
+  language?: ListingLanguage;
+  materials?: string[];
+  processingTimeDays?: number;
+  policies: ShopPolicies;
+  signaturePhrases: string[];
+  bannedWords: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type ShopProfileFields = Omit<ShopProfile, "shopId" | "createdAt" | "updatedAt">;
+
+export type ShopBrand = Pick<ShopProfile, "shopId" | "brandVoice" | "policies" | "signaturePhrases" | "bannedWords">;
+
+export const SHOP_POLICY_KEYS: Array<keyof ShopPolicies> = ["returns", "care", "shipping"];
+
+const PROFILE_FIELDS: Array<keyof ShopProfileFields> = [
+  "name",
+  "brandVoice",
+  "tone",
+  "locale",
+  "language",
+  "materials",
+  "processingTimeDays",
+  "policies",
+  "signaturePhrases",
+  "bannedWords"
+];
+const MAX_NAME_LENGTH = 80;
+const MAX_BRAND_VOICE_LENGTH = 300;
+const MAX_POLICY_LENGTH = 600;
+const MAX_SIGNATURE_PHRASES = 5;
+const MAX_SIGNATURE_LENGTH = 120;
+const MAX_BANNED_WORDS = 50;
+const MAX_BANNED_WORD_LENGTH = 40;
+const BRAND_VOICE_TONES: Record<ListingTone, string[]> = {
+  playful: ["playful", "fun", "cheeky", "whimsical", "quirky", "witty", "cheerful", "bold"],
+  minimal: ["minimal", "minimalist", "calm", "clean", "simple", "plain", "understated", "quiet"],
+  luxury: ["luxury", "luxurious", "elegant", "refined", "premium", "sophisticated", "timeless"],
+  warm: ["warm", "cozy", "cosy", "friendly", "heartfelt", "gentle"]
+};
+
+function profileText(value: unknown, key: string, maxLength: number): string {
+  if (typeof value !== "string") {
+    throw new Error(`invalid_${key}`);
+  }
+  const text = value.trim().replace(/\s+/g, " ");
+  if (!text || text.length > maxLength) {
+    throw new Error(`invalid_${key}`);
+  }
+  return text;
+}
+
+function profileList(value: unknown, key: string, maxItems: number, maxLength: number): string[] {
+  if (!Array.isArray(value) || value.length > maxItems) {
+    throw new Error(`invalid_${key}`);
+  }
+  const seen = new Set<string>();
+  return value
+    .map((item) => profileText(item, key, maxLength))
+    .filter((item) => {
+      const normalized = item.toLowerCase();
+      if (seen.has(normalized)) {
+        return false;
+      }
+      seen.add(normalized);
+      return true;
+    });
+}
+
+function profileTone(value: unknown): ListingTone {
+  const tone = typeof value === "string" ? value.trim().toLowerCase() : "";
+  const match = LISTING_TONES.find((candidate) => candidate === tone);
+  if (!match) {
+    throw new Error("invalid_tone");
+  }
+  return match;
+}
+
+function profileDays(value: unknown): number {
+  if (typeof value !== "number" || !Number.isInteger(value) || value < 1 || value > MAX_PROCESSING_DAYS) {
+    throw new Error("invalid_processingTimeDays");
+  }
+  return value;
+}
+
+function profilePolicies(value: unknown, existing: ShopPolicies): ShopPolicies {
+  if (value === null) {
+    return {};
+  }
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    throw new Error("invalid_policies");
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.some(([key]) => !SHOP_POLICY_KEYS.includes(key as keyof ShopPolicies))) {
+    throw new Error("invalid_policies");
+  }
+  const policies: ShopPolicies = { ...existing };
+  for (const [key, text] of entries as Array<[keyof ShopPolicies, unknown]>) {
+    if (text == null || text === "") {
+      delete policies[key];
+    } else {
+      policies[key] = profileText(text, `policies_${key}`, MAX_POLICY_LENGTH);
+    }
+  }
+  return policies;
+}
+
+function profileField(key: keyof ShopProfileFields, value: unknown, existing: ShopProfileFields): unknown {
+  switch (key) {
+    case "name":
+      return profileText(value, "name", MAX_NAME_LENGTH);
+    case "brandVoice":
+      return profileText(value, "brandVoice", MAX_BRAND_VOICE_LENGTH);
+    case "tone":
+      return profileTone(value);
+    case "locale":
+      return normalizeLocale(typeof value === "string" ? value : "");
+    case "language":
+      return normalizeLanguage(typeof value === "string" ? value : "");
+    case "materials":
+      return profileList(value, "materials", MAX_MATERIALS, 80);
+    case "processingTimeDays":
+      return profileDays(value);
+    case "policies":
+      return profilePolicies(value, existing.policies);
+    case "signaturePhrases":
+      return profileList(value, "signaturePhrases", MAX_SIGNATURE_PHRASES, MAX_SIGNATURE_LENGTH);
+    case "bannedWords":
+      return profileList(value, "bannedWords", MAX_BANNED_WORDS, MAX_BANNED_WORD_LENGTH).map((word) =>
+        word.toLowerCase()
+      );
+  }
+}
+
+export function sanitizeShopProfile(payload: Record<string, unknown>, existing?: ShopProfileFields): ShopProfileFields {
+  const keys = Object.keys(payload);
+  if (keys.some((key) => !PROFILE_FIELDS.includes(key as keyof ShopProfileFields))) {
+    throw new Error("invalid_shop");
+  }
+  if (existing && !keys.length) {
+    throw new Error("invalid_shop");
+  }
+
+  const profile: ShopProfileFields = existing
+    ? { ...existing }
+    : { name: "", policies: {}, signaturePhrases: [], bannedWords: [] };
+  for (const key of keys as Array<keyof ShopProfileFields>) {
+    const value = payload[key];
+    if (value === null && key !== "name" && key !== "policies") {
+      if (key === "signaturePhrases" || key === "bannedWords") {
+        profile[key] = [];
+      } else {
+        delete profile[key];
+      }
+      continue;
+    }
+    Object.assign(profile, { [key]: profileField(key, value, profile) });
+  }
+  if (!profile.name) {
+    throw new Error("invalid_name");
+  }
+  return profile;
+}
+
+export function brandVoiceTone(brandVoice: string | undefined): ListingTone | undefined {
+  const words = (brandVoice ?? "").toLowerCase().split(/[^\p{L}]+/u);
+  for (const word of words) {
+    const tone = LISTING_TONES.find((candidate) => BRAND_VOICE_TONES[candidate].includes(word));
+    if (tone) {
+      return tone;
+    }
+  }
+  return undefined;
+}
+
+export function withShopDefaults(payload: Record<string, unknown>, profile: ShopProfile): Record<string, unknown> {
+  const provided = Object.fromEntries(Object.entries(payload).filter(([, value]) => value != null && value !== ""));
+  const tone = profile.tone ?? brandVoiceTone(profile.brandVoice);
+  const digital = isDigitalKind(provided.productKind as ListingInput["productKind"]);
+  return {
+    shopName: profile.name,
+    ...(tone ? { tone } : {}),
+    ...(profile.locale && !("includeUkSpelling" in provided) ? { locale: profile.locale } : {}),
+    ...(profile.language ? { language: profile.language } : {}),
+    ...(profile.materials?.length && !("materialsCsv" in provided) ? { materials: profile.materials } : {}),
+    ...(profile.processingTimeDays != null && !digital ? { processingTimeDays: profile.processingTimeDays } : {}),
+    ...provided
+  };
+}
+
+export function shopBrand(profile: ShopProfile): ShopBrand {
+  return {
+    shopId: profile.shopId,
+    ...(profile.brandVoice ? { brandVoice: profile.brandVoice } : {}),
+    policies: { ...profile.policies },
+    signaturePhrases: [...profile.signaturePhrases],
+    bannedWords: [...profile.bannedWords]
+  };
+}
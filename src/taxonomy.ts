@@ -0,0 +1,270 @@
+import type { ListingInput } from "./listing.js";
+
+export type TaxonomyAttribute = "occasion" | "holiday" | "recipient" | "primary_color" | "style";
+
+export type CategorySuggestion = {
+  rank: number;
+  path: string;
+  score: number;
+  matchedTerms: string[];
+};
+
+export type AttributeSuggestion = {
+  attribute: TaxonomyAttribute;
+  value: string;
+  score: number;
+  matchedTerms: string[];
+};
+
+export type TaxonomySuggestions = {
+  categories: CategorySuggestion[];
+  attributes: AttributeSuggestion[];
+};
+
+type TaxonomyEntry = {
+  path: string;
+  terms: string[];
+  categoryId?: string;
+};
+
+type AttributeEntry = {
+  attribute: TaxonomyAttribute;
+  value: string;
+  terms: string[];
+};
+
+const MAX_CATEGORY_SUGGESTIONS = 5;
+const MAX_VALUES_PER_ATTRIBUTE = 2;
+const CATEGORY_PACK_BOOST = 2;
+
+const TAXONOMY: TaxonomyEntry[] = [
+  { path: "Jewelry > Rings", terms: ["ring", "band", "signet ring", "stacking ring"], categoryId: "jewelry" },
+  { path: "Jewelry > Necklaces > Pendants", terms: ["necklace", "pendant", "choker", "locket"], categoryId: "jewelry" },
+  { path: "Jewelry > Earrings", terms: ["earring", "stud", "hoop", "huggie", "ear climber"], categoryId: "jewelry" },
+  { path: "Jewelry > Bracelets", terms: ["bracelet", "bangle", "cuff", "anklet"], categoryId: "jewelry" },
+  {
+    path: "Jewelry > Jewelry Storage > Ring Dishes",
+    terms: ["ring dish", "trinket dish", "jewelry dish", "ring holder"],
+    categoryId: "jewelry"
+  },
+  { path: "Jewelry > Jewelry Storage > Jewelry Boxes", terms: ["jewelry box", "jewelry organizer", "jewelry case"] },
+  {
+    path: "Home & Living > Home Decor > Candles & Holders > Candles",
+    terms: ["candle", "soy candle", "wax melt", "tealight"],
+    categoryId: "candles"
+  },
+  {
+    path: "Home & Living > Home Decor > Candles & Holders > Candle Holders",
+    terms: ["candle holder", "candlestick", "votive"]
+  },
+  { path: "Home & Living > Home Decor > Vases", terms: ["vase", "bud vase"] },
+  { path: "Home & Living > Home Decor > Signs", terms: ["sign", "wood sign", "door sign", "welcome sign"] },
+  {
+    path: "Home & Living > Home Decor > Ornaments & Accents",
+    terms: ["ornament", "trinket", "figurine", "bowl", "tray"]
+  },
+  { path: "Home & Living > Kitchen & Dining > Drink & Barware > Mugs", terms: ["mug", "coffee mug", "cup", "tumbler"] },
+  {
+    path: "Home & Living > Kitchen & Dining > Serving > Cutting Boards",
+    terms: ["cutting board", "charcuterie board", "serving board"]
+  },
+  { path: "Home & Living > Bedding > Blankets & Throws", terms: ["blanket", "throw", "quilt"] },
+  { path: "Home & Living > Home Decor > Pillows", terms: ["pillow", "cushion", "pillow cover"] },
+  {
+    path: "Art & Collectibles > Prints > Digital Prints",
+    terms: ["printable", "digital print", "printable art", "instant download"],
+    categoryId: "prints"
+  },
+  {
+    path: "Art & Collectibles > Prints > Giclée",
+    terms: ["print", "art print", "poster", "wall art", "giclee"],
+    categoryId: "prints"
+  },
+  { path: "Art & Collectibles > Painting > Watercolor", terms: ["watercolor", "watercolour", "painting"] },
+  {
+    path: "Art & Collectibles > Drawing & Illustration",
+    terms: ["illustration", "drawing", "portrait", "pet portrait"]
+  },
+  {
+    path: "Paper & Party Supplies > Paper > Calendars & Planners",
+    terms: ["planner", "calendar", "journal", "habit tracker"]
+  },
+  {
+    path: "Paper & Party Supplies > Paper > Greeting Cards",
+    terms: ["card", "greeting card", "birthday card", "thank you card"]
+  },
+  {
+    path: "Paper & Party Supplies > Paper > Invitations & Announcements",
+    terms: ["invitation", "save the date", "announcement"]
+  },
+  {
+    path: "Paper & Party Supplies > Party Supplies > Party Decor",
+    terms: ["banner", "garland", "cake topper", "party decor"]
+  },
+  {
+    path: "Paper & Party Supplies > Paper > Stickers, Labels & Tags",
+    terms: ["sticker", "label", "gift tag", "decal"]
+  },
+  {
+    path: "Clothing > Gender-Neutral Adult Clothing > Tops & Tees > T-shirts",
+    terms: ["t-shirt", "tee", "shirt", "tshirt"],
+    categoryId: "apparel"
+  },
+  {
+    path: "Clothing > Gender-Neutral Adult Clothing > Hoodies & Sweatshirts",
+    terms: ["hoodie", "sweatshirt", "crewneck", "pullover"],
+    categoryId: "apparel"
+  },
+  {
+    path: "Clothing > Baby & Toddler > Bodysuits",
+    terms: ["onesie", "bodysuit", "baby outfit"],
+    categoryId: "apparel"
+  },
+  { path: "Accessories > Hats & Caps", terms: ["hat", "beanie", "cap", "bucket hat"] },
+  { path: "Bags & Purses > Totes", terms: ["tote", "tote bag", "canvas bag", "market bag"] },
+  { path: "Bags & Purses > Pouches & Coin Purses", terms: ["pouch", "coin purse", "makeup bag", "zipper pouch"] },
+  { path: "Bath & Beauty > Soaps > Bar Soaps", terms: ["soap", "bar soap", "goat milk soap"] },
+  { path: "Bath & Beauty > Skin Care > Lip Care", terms: ["lip balm", "lip scrub"] },
+  { path: "Pet Supplies > Pet Collars & Leashes", terms: ["dog collar", "cat collar", "leash", "pet tag"] },
+  {
+    path: "Toys & Games > Toys > Stuffed Animals & Plushies",
+    terms: ["plush", "stuffed animal", "plushie", "amigurumi"]
+  },
+  {
+    path: "Craft Supplies & Tools > Patterns & How To",
+    terms: ["pattern", "crochet pattern", "knitting pattern", "sewing pattern", "svg"]
+  },
+  {
+    path: "Weddings > Gifts & Mementos > Bridesmaid Gifts",
+    terms: ["bridesmaid gift", "bridesmaid proposal", "maid of honor"]
+  },
+  { path: "Weddings > Decorations > Signs", terms: ["wedding sign", "seating chart", "welcome sign"] }
+];
+
+const ATTRIBUTES: AttributeEntry[] = [
+  { attribute: "occasion", value: "Wedding", terms: ["wedding", "bridal", "bride", "bridesmaid", "groomsman", "groomsmen"] },
+  { attribute: "occasion", value: "Engagement", terms: ["engagement", "proposal", "engaged"] },
+  { attribute: "occasion", value: "Anniversary", terms: ["anniversary"] },
+  { attribute: "occasion", value: "Birthday", terms: ["birthday", "bday"] },
+  { attribute: "occasion", value: "Baby shower", terms: ["baby shower", "new baby", "newborn", "gender reveal"] },
+  { attribute: "occasion", value: "Graduation", terms: ["graduation", "graduate", "grad"] },
+  { attribute: "occasion", value: "Housewarming", terms: ["housewarming", "new home", "first home"] },
+  { attribute: "occasion", value: "Retirement", terms: ["retirement", "retiring"] },
+  { attribute: "occasion", value: "Sympathy", terms: ["sympathy", "memorial", "remembrance", "condolence"] },
+  { attribute: "holiday", value: "Christmas", terms: ["christmas", "xmas", "holiday", "stocking"] },
+  { attribute: "holiday", value: "Halloween", terms: ["halloween", "spooky"] },
+  { attribute: "holiday", value: "Valentine's Day", terms: ["valentine", "valentines", "galentine"] },
+  { attribute: "holiday", value: "Mother's Day", terms: ["mothers day", "mother's day", "mom", "mum", "mama"] },
+  { attribute: "holiday", value: "Father's Day", terms: ["fathers day", "father's day", "dad", "papa"] },
+  { attribute: "holiday", value: "Easter", terms: ["easter"] },
+  { attribute: "holiday", value: "Thanksgiving", terms: ["thanksgiving", "friendsgiving"] },
+  { attribute: "holiday", value: "Hanukkah", terms: ["hanukkah", "chanukah"] },
+  { attribute: "recipient", value: "Women", terms: ["her", "women", "woman", "wife", "girlfriend", "sister"] },
+  { attribute: "recipient", value: "Men", terms: ["him", "men", "man", "husband", "boyfriend", "brother"] },
+  { attribute: "recipient", value: "Brides", terms: ["bride", "bridal"] },
+  { attribute: "recipient", value: "Bridesmaids", terms: ["bridesmaid", "maid of honor", "bridal party"] },
+  { attribute: "recipient", value: "Mothers", terms: ["mom", "mum", "mother", "mama"] },
+  { attribute: "recipient", value: "Fathers", terms: ["dad", "father", "papa"] },
+  { attribute: "recipient", value: "Babies", terms: ["baby", "newborn", "infant"] },
+  { attribute: "recipient", value: "Children", terms: ["kid", "child", "children", "toddler"] },
+  { attribute: "recipient", value: "Teachers", terms: ["teacher", "educator"] },
+  { attribute: "recipient", value: "Pet lovers", terms: ["dog", "cat", "pet"] },
+  { attribute: "primary_color", value: "Black", terms: ["black", "onyx"] },
+  { attribute: "primary_color", value: "White", terms: ["white", "ivory"] },
+  { attribute: "primary_color", value: "Gray", terms: ["gray", "grey", "charcoal"] },
+  { attribute: "primary_color", value: "Beige", terms: ["beige", "cream", "neutral", "oat"] },
+  { attribute: "primary_color", value: "Brown", terms: ["brown", "walnut", "tan"] },
+  { attribute: "primary_color", value: "Red", terms: ["red", "burgundy", "crimson"] },
+  { attribute: "primary_color", value: "Pink", terms: ["pink", "blush", "rose"] },
+  { attribute: "primary_color", value: "Orange", terms: ["orange", "terracotta", "rust"] },
+  { attribute: "primary_color", value: "Yellow", terms: ["yellow", "mustard"] },
+  { attribute: "primary_color", value: "Green", terms: ["green", "sage", "olive", "emerald"] },
+  { attribute: "primary_color", value: "Blue", terms: ["blue", "navy", "teal"] },
+  { attribute: "primary_color", value: "Purple", terms: ["purple", "lilac", "lavender"] },
+  { attribute: "primary_color", value: "Gold", terms: ["gold", "brass"] },
+  { attribute: "primary_color", value: "Silver", terms: ["silver", "sterling", "pewter"] },
+  { attribute: "style", value: "Minimalist", terms: ["minimalist", "minimal", "dainty", "simple"] },
+  { attribute: "style", value: "Boho & hippie", terms: ["boho", "bohemian", "hippie", "macrame"] },
+  { attribute: "style", value: "Rustic", terms: ["rustic", "farmhouse", "barn"] },
+  { attribute: "style", value: "Vintage", terms: ["vintage", "retro", "antique"] },
+  { attribute: "style", value: "Modern", terms: ["modern", "contemporary", "geometric"] },
+  { attribute: "style", value: "Mid-century", terms: ["mid century", "midcentury", "mcm"] },
+  { attribute: "style", value: "Scandinavian", terms: ["scandinavian", "nordic", "hygge"] },
+  { attribute: "style", value: "Cottagecore", terms: ["cottagecore", "cottage", "floral"] },
+  { attribute: "style", value: "Art deco", terms: ["art deco", "deco", "gatsby"] },
+  { attribute: "style", value: "Gothic", terms: ["gothic", "goth", "witchy"] }
+];
+
+const termPatterns = new Map<string, RegExp>();
+
+function termPattern(term: string): RegExp {
+  const cached = termPatterns.get(term);
+  if (cached) {
+    return cached;
+  }
+  const escaped = term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "[\\s-]+");
+  const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}(e?s)?(?=$|[^\\p{L}\\p{N}])`, "iu");
+  termPatterns.set(term, pattern);
+  return pattern;
+}
+
+function weightedSources(input: ListingInput): Array<{ text: string; weight: number }> {
+  return [
+    { text: input.productType, weight: 3 },
+    { text: input.primaryKeyword, weight: 2 },
+    ...input.supportingKeywords.map((text) => ({ text, weight: 1 })),
+    { text: input.targetAudience, weight: 1 }
+  ];
+}
+
+function scoreTerms(terms: string[], sources: Array<{ text: string; weight: number }>): {
+  score: number;
+  matchedTerms: string[];
+} {
+  let score = 0;
+  const matchedTerms: string[] = [];
+  for (const term of terms) {
+    const pattern = termPattern(term);
+    let termScore = 0;
+    for (const source of sources) {
+      if (pattern.test(source.text)) {
+        termScore += source.weight;
+      }
+    }
+    if (termScore > 0) {
+      score += termScore * term.split(" ").length;
+      matchedTerms.push(term);
+    }
+  }
+  return { score, matchedTerms };
+}
+
+export function suggestTaxonomy(input: ListingInput): TaxonomySuggestions {
+  const sources = weightedSources(input);
+
+  const categories = TAXONOMY.map((entry) => {
+    const { score, matchedTerms } = scoreTerms(entry.terms, sources);
+    const boost = score > 0 && entry.categoryId && entry.categoryId === input.category ? CATEGORY_PACK_BOOST : 0;
+    return { path: entry.path, score: score + boost, matchedTerms };
+  })
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+    .slice(0, MAX_CATEGORY_SUGGESTIONS)
+    .map((entry, index) => ({ rank: index + 1, ...entry }));
+
+  const perAttribute = new Map<TaxonomyAttribute, number>();
+  const attributes = ATTRIBUTES.map((entry) => ({
+    attribute: entry.attribute,
+    value: entry.value,
+    ...scoreTerms(entry.terms, sources)
+  }))
+    .filter((entry) => entry.score > 0)
+    .sort((a, b) => b.score - a.score || a.value.localeCompare(b.value))
+    .filter((entry) => {
+      const count = perAttribute.get(entry.attribute) ?? 0;
+      perAttribute.set(entry.attribute, count + 1);
+      return count < MAX_VALUES_PER_ATTRIBUTE;
+    });
+
+  return { categories, attributes };
+}
@@ -0,0 +1,99 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { buildListingPack, sanitizeListingInput } from "./listing.js";
+import { analyzeText, searchSnippet } from "./text-analysis.js";
+
+test("analyzeText scores readability, passive voice and keyword density", () => {
+  const text = [
+    "Ring dish for your bridal party.",
+    "Details",
+    "Each ring dish is made to order in our studio. We glaze it by hand. The gold rim was painted with care.",
+    "Care",
+    "Wipe it clean with a soft cloth."
+  ].join("\n");
+  const analysis = analyzeText(text, "ring dish");
+
+  assert.equal(analysis.sentences, 5);
+  assert.equal(analysis.words, 35);
+  assert.equal(analysis.longestSentence, 10);
+  assert.equal(analysis.passiveVoice, 2);
+  assert.equal(analysis.keywordCount, 2);
+  assert.equal(analysis.keywordDensity, 11.4);
+  assert.ok(analysis.fleschReadingEase > 80);
+  assert.equal(analysis.readingLevel, "very_easy");
+  assert.ok(analysis.snippetHasKeyword);
+  assert.ok(analysis.suggestions.some((item) => item.includes("passive")));
+  assert.ok(analysis.suggestions.some((item) => item.includes("keyword stuffing")));
+});
+
+test("analyzeText flags long sentences and a keyword missing from the search snippet", () => {
+  const filler = "This considerable decorative accessory accommodates jewellery, keepsakes and miscellaneous valuables";
+  const analysis = analyzeText(
+    `${filler} beautifully and ${filler} elegantly, so order a ring dish today.`,
+    "ring dish"
+  );
+
+  assert.equal(analysis.snippet.length <= 160, true);
+  assert.ok(analysis.snippet.endsWith("..."));
+  assert.equal(analysis.snippetHasKeyword, false);
+  assert.ok(analysis.fleschReadingEase < 50);
+  assert.ok(analysis.suggestions.some((item) => item.startsWith("Sentences average")));
+  assert.ok(analysis.suggestions.some((item) => item.includes("first 160 characters")));
+  assert.equal(searchSnippet("Short\n\ntext."), "Short text.");
+});
+
+test("buildListingPack outputs a sectioned description with its analysis", () => {
+  const pack = buildListingPack(
+    sanitizeListingInput({
+      shopName: "Copper Pine Studio",
+      productType: "ring dish",
+      targetAudience: "bridal party",
+      primaryKeyword: "personalized ring dish",
+      supportingKeywords: ["engagement gift"],
+      materials: ["ceramic", "gold luster"],
+      tone: "warm",
+      priceBand: "$20-$35",
+      processingTimeDays: 3,
+      personalization: true,
+      locale: "en-GB"
+    })
+  );
+
+  assert.deepEqual(
+    pack.descriptionSections?.map((section) => section.id),
+    ["hook", "details", "materials", "shipping", "care", "personalization"]
+  );
+  assert.ok(pack.description.startsWith(pack.descriptionSections?.[0].text ?? "-"));
+  assert.match(pack.description, /\n\nMaterials\nMade from ceramic, gold lustre\./);
+  assert.match(pack.description, /\n\nPersonalisation\n/);
+  assert.equal(pack.descriptionAnalysis.keyword, "personalised ring dish");
+  assert.ok(pack.descriptionAnalysis.keywordCount >= 1);
+  assert.ok(pack.descriptionAnalysis.snippetHasKeyword);
+  assert.equal(pack.descriptionAnalysis.sentences > 6, true);
+});
+
+test("buildListingPack does not double the word digital in the details section", () => {
+  const brief = {
+    shopName: "Copper Pine Studio",
+    targetAudience: "busy parents",
+    primaryKeyword: "weekly planner",
+    supportingKeywords: ["meal planner"],
+    materials: [],
+    tone: "minimal" as const,
+    priceBand: "$5-$10",
+    processingTimeDays: 0,
+    personalization: false,
+    locale: "en-US" as const,
+    productKind: "digital_download" as const
+  };
+  const details = (productType: string) =>
+    buildListingPack(sanitizeListingInput({ ...brief, productType })).descriptionSections?.find(
+      (section) => section.id === "details"
+    )?.text;
+
+  assert.equal(details("digital planner"), "This is a digital planner: you receive the files, not a physical item.");
+  assert.equal(
+    details("weekly planner"),
+    "This is a digital weekly planner: you receive the files, not a physical item."
+  );
+});
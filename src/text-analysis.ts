@@ -0,0 +1,160 @@
+import { catalogFor, type ListingLanguage } from "./catalog.js";
+
+export type ReadingLevel = "very_easy" | "easy" | "standard" | "difficult" | "very_difficult";
+
+export type TextAnalysis = {
+  words: number;
+  sentences: number;
+  averageSentenceLength: number;
+  longestSentence: number;
+  fleschReadingEase: number;
+  readingLevel: ReadingLevel;
+  passiveVoice: number;
+  keyword: string;
+  keywordCount: number;
+  keywordDensity: number;
+  snippet: string;
+  snippetHasKeyword: boolean;
+  suggestions: string[];
+};
+
+export const SNIPPET_LENGTH = 160;
+
+const MAX_AVERAGE_SENTENCE_LENGTH = 20;
+const MIN_READING_EASE = 50;
+const MAX_KEYWORD_DENSITY = 5;
+const MAX_PASSIVE_SHARE = 0.1;
+const MAX_HEADING_WORDS = 4;
+
+const VOWEL_GROUP = /[aeiouyäöüàâæçéèêëîïôœùûÿáíóúñ]+/g;
+
+const FLESCH: Record<ListingLanguage, (sentenceLength: number, syllablesPerWord: number) => number> = {
+  en: (asl, asw) => 206.835 - 1.015 * asl - 84.6 * asw,
+  de: (asl, asw) => 180 - asl - 58.5 * asw,
+  fr: (asl, asw) => 207 - 1.015 * asl - 73.6 * asw,
+  es: (asl, asw) => 206.84 - 1.02 * asl - 60 * asw
+};
+
+const PASSIVE_PATTERNS: Record<ListingLanguage, RegExp> = {
+  en: /(?<![\p{L}])(am|is|are|was|were|be|been|being)\s+(\p{L}+ly\s+)?(\p{L}+ed|made|sent|built|sold|kept|cut|set|held|found|done|shown|sewn|drawn|grown|given|taken|written|chosen|woven|known)(?![\p{L}])/iu,
+  de: /(?<![\p{L}])(wird|werden|wurde|wurden|worden)(?![\p{L}]).*(?<![\p{L}])(ge\p{L}{3,}(t|en)|\p{L}+iert)(?![\p{L}])/iu,
+  fr: /(?<![\p{L}])(est|sont|été|était|étaient|sera|seront|être)\s+(\p{L}+\s+)?(\p{L}+(é|ée|és|ées)|fait|faite|faits|faites)(?![\p{L}])/iu,
+  es: /(?<![\p{L}])(es|son|fue|fueron|será|serán|ser|sido)\s+(\p{L}+\s+)?(\p{L}+(ado|ada|ados|adas|ido|ida|idos|idas)|hecho|hecha|hechos|hechas)(?![\p{L}])/iu
+};
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function wordsOf(text: string): string[] {
+  return text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word));
+}
+
+function isHeading(line: string): boolean {
+  return !/[.!?:;]$/.test(line) && wordsOf(line).length <= MAX_HEADING_WORDS;
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+/)
+    .map((line) => line.trim())
+    .filter((line) => line && !isHeading(line))
+    .flatMap((line) => line.split(/(?<=[.!?])\s+/))
+    .filter((sentence) => wordsOf(sentence).length);
+}
+
+function countSyllables(word: string, language: ListingLanguage): number {
+  const letters = word.toLowerCase().replace(/[^\p{L}]/gu, "");
+  let count = letters.match(VOWEL_GROUP)?.length ?? 0;
+  if (language === "en" && count > 1 && /[^aeiouyl]e$|[^aeiouy]es$/.test(letters)) {
+    count -= 1;
+  }
+  return Math.max(1, count);
+}
+
+function readingLevel(score: number): ReadingLevel {
+  if (score >= 80) {
+    return "very_easy";
+  }
+  if (score >= 65) {
+    return "easy";
+  }
+  if (score >= MIN_READING_EASE) {
+    return "standard";
+  }
+  return score >= 30 ? "difficult" : "very_difficult";
+}
+
+function phrasePattern(phrase: string): RegExp {
+  const escaped = phrase
+    .trim()
+    .split(/[\s-]+/)
+    .map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join("[\\s-]+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "giu");
+}
+
+export function searchSnippet(text: string): string {
+  const collapsed = text.replace(/\s+/g, " ").trim();
+  if (collapsed.length <= SNIPPET_LENGTH) {
+    return collapsed;
+  }
+  const cut = collapsed.slice(0, SNIPPET_LENGTH - 3);
+  const boundary = cut.lastIndexOf(" ");
+  return `${(boundary > 0 ? cut.slice(0, boundary) : cut).replace(/[\s,;:.-]+$/, "")}...`;
+}
+
+export function analyzeText(text: string, keyword: string, language: ListingLanguage = "en"): TextAnalysis {
+  const sentences = splitSentences(text);
+  const sentenceWords = sentences.map(wordsOf);
+  const words = sentenceWords.flat();
+  const body = sentences.join(" ");
+  const syllables = words.reduce((total, word) => total + countSyllables(word, language), 0);
+  const averageSentenceLength = sentences.length ? words.length / sentences.length : 0;
+  const fleschReadingEase = words.length
+    ? round(Math.max(0, Math.min(100, FLESCH[language](averageSentenceLength, syllables / words.length))))
+    : 0;
+  const passiveVoice = sentences.filter((sentence) => PASSIVE_PATTERNS[language].test(sentence)).length;
+  const keywordWords = wordsOf(keyword).length;
+  const keywordCount = keyword.trim() ? (body.match(phrasePattern(keyword)) ?? []).length : 0;
+  const keywordDensity = words.length ? round(((keywordCount * keywordWords) / words.length) * 100) : 0;
+  const snippet = searchSnippet(text);
+  const snippetHasKeyword = keyword.trim() ? phrasePattern(keyword).test(snippet) : false;
+
+  const messages = catalogFor(language).textSuggestions;
+  const suggestions: string[] = [];
+  if (averageSentenceLength > MAX_AVERAGE_SENTENCE_LENGTH) {
+    suggestions.push(messages.sentenceLength(round(averageSentenceLength), MAX_AVERAGE_SENTENCE_LENGTH));
+  }
+  if (words.length && fleschReadingEase < MIN_READING_EASE) {
+    suggestions.push(messages.readingEase(fleschReadingEase));
+  }
+  if (sentences.length && passiveVoice / sentences.length > MAX_PASSIVE_SHARE) {
+    suggestions.push(messages.passiveVoice(passiveVoice));
+  }
+  if (!keywordCount) {
+    suggestions.push(messages.keywordMissing(keyword));
+  } else if (keywordCount > 1 && keywordDensity > MAX_KEYWORD_DENSITY) {
+    suggestions.push(messages.keywordDensity(keyword, keywordDensity, MAX_KEYWORD_DENSITY));
+  }
+  if (keywordCount && !snippetHasKeyword) {
+    suggestions.push(messages.snippet(keyword, SNIPPET_LENGTH));
+  }
+
+  return {
+    words: words.length,
+    sentences: sentences.length,
+    averageSentenceLength: round(averageSentenceLength),
+    longestSentence: Math.max(0, ...sentenceWords.map((items) => items.length)),
+    fleschReadingEase,
+    readingLevel: readingLevel(fleschReadingEase),
+    passiveVoice,
+    keyword,
+    keywordCount,
+    keywordDensity,
+    snippet,
+    snippetHasKeyword,
+    suggestions
+  };
+}